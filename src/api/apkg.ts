@@ -0,0 +1,495 @@
+import Database from 'better-sqlite3';
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { writeZip, ZipEntry } from './zip';
+import { Definition, DefinitionSense, Wordbook } from './wordbook';
+import { CollectionList, CollectionState, CollectionTree, CollectionWord } from '@/store/modules/collection';
+
+export const APKG_EXTENSION: string = 'apkg';
+
+/**
+ * A deck of the package: a list of the collection with the names of its parent lists, as Anki shows sub-decks under their parents.
+ *
+ * @export
+ * @interface AnkiDeck
+ */
+export interface AnkiDeck {
+    path: string[];
+    words: CollectionWord[];
+}
+
+/**
+ * What the wordbooks know about a word: its definition from the first wordbook which has it, and its pronunciation recording.
+ *
+ * @export
+ * @interface AnkiLookup
+ */
+export interface AnkiLookup {
+    definition: Definition | null;
+    audio: { extension: string; data: Buffer } | null;
+}
+
+// the note type keeps its id, so the notes of a package imported again are updated instead of duplicated
+const MODEL_ID: number = 1554400000000;
+const MODEL_NAME: string = 'WordPouch';
+const FIELD_NAMES: string[] = ['Word', 'Definition', 'Examples', 'Pronunciation', 'Notes'];
+const FIELD_SEPARATOR: string = '\x1f';
+
+const schema: string = `
+    CREATE TABLE col (
+        id INTEGER PRIMARY KEY,
+        crt INTEGER NOT NULL,
+        mod INTEGER NOT NULL,
+        scm INTEGER NOT NULL,
+        ver INTEGER NOT NULL,
+        dty INTEGER NOT NULL,
+        usn INTEGER NOT NULL,
+        ls INTEGER NOT NULL,
+        conf TEXT NOT NULL,
+        models TEXT NOT NULL,
+        decks TEXT NOT NULL,
+        dconf TEXT NOT NULL,
+        tags TEXT NOT NULL
+    );
+
+    CREATE TABLE notes (
+        id INTEGER PRIMARY KEY,
+        guid TEXT NOT NULL,
+        mid INTEGER NOT NULL,
+        mod INTEGER NOT NULL,
+        usn INTEGER NOT NULL,
+        tags TEXT NOT NULL,
+        flds TEXT NOT NULL,
+        sfld INTEGER NOT NULL,
+        csum INTEGER NOT NULL,
+        flags INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+
+    CREATE TABLE cards (
+        id INTEGER PRIMARY KEY,
+        nid INTEGER NOT NULL,
+        did INTEGER NOT NULL,
+        ord INTEGER NOT NULL,
+        mod INTEGER NOT NULL,
+        usn INTEGER NOT NULL,
+        type INTEGER NOT NULL,
+        queue INTEGER NOT NULL,
+        due INTEGER NOT NULL,
+        ivl INTEGER NOT NULL,
+        factor INTEGER NOT NULL,
+        reps INTEGER NOT NULL,
+        lapses INTEGER NOT NULL,
+        left INTEGER NOT NULL,
+        odue INTEGER NOT NULL,
+        odid INTEGER NOT NULL,
+        flags INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+
+    CREATE TABLE revlog (
+        id INTEGER PRIMARY KEY,
+        cid INTEGER NOT NULL,
+        usn INTEGER NOT NULL,
+        ease INTEGER NOT NULL,
+        ivl INTEGER NOT NULL,
+        lastIvl INTEGER NOT NULL,
+        factor INTEGER NOT NULL,
+        time INTEGER NOT NULL,
+        type INTEGER NOT NULL
+    );
+
+    CREATE TABLE graves (
+        usn INTEGER NOT NULL,
+        oid INTEGER NOT NULL,
+        type INTEGER NOT NULL
+    );
+
+    CREATE INDEX ix_notes_usn ON notes (usn);
+    CREATE INDEX ix_cards_usn ON cards (usn);
+    CREATE INDEX ix_revlog_usn ON revlog (usn);
+    CREATE INDEX ix_cards_nid ON cards (nid);
+    CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+    CREATE INDEX ix_revlog_cid ON revlog (cid);
+    CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const cardCss: string = `.card {
+    font-family: arial;
+    font-size: 20px;
+    text-align: center;
+    color: black;
+    background-color: white;
+}
+
+.definition, .examples, .notes {
+    text-align: left;
+}
+
+.examples {
+    font-style: italic;
+}`;
+
+const questionFormat: string = '<div class="word">{{Word}}</div>';
+const answerFormat: string = `{{FrontSide}}
+<hr id="answer">
+<div class="pronunciation">{{Pronunciation}}</div>
+<div class="definition">{{Definition}}</div>
+<div class="examples">{{Examples}}</div>
+<div class="notes">{{Notes}}</div>`;
+
+/**
+ * Returns a deck for each list and, if the sub-lists are included, for each of their sub-lists; smart lists get their matching words.
+ * The lists are taken in the tree order, so the parent decks come before their sub-decks.
+ *
+ * @export
+ * @param {CollectionState} state the collection with the exported lists loaded
+ * @param {string[]} listIds
+ * @param {boolean} includeSubLists
+ * @returns {AnkiDeck[]}
+ */
+export function collectAnkiDecks(state: CollectionState, listIds: string[], includeSubLists: boolean): AnkiDeck[] {
+    const decks: AnkiDeck[] = [];
+    const exported = new Set<string>();
+
+    const collect = (items: CollectionTree[], path: string[], isIncluded: boolean) =>
+        items.forEach(item => {
+            const list: CollectionList | undefined = state.lists[item.listId];
+            if (list === undefined) {
+                return;
+            }
+
+            const listPath = [...path, list.name];
+            const isListIncluded = listIds.includes(list.id) || (isIncluded && includeSubLists);
+
+            if (isListIncluded && !exported.has(list.id)) {
+                exported.add(list.id);
+                decks.push({ path: listPath, words: state.getListWords(list) });
+            }
+
+            collect(item.items, listPath, isListIncluded);
+        });
+
+    collect(state.index.tree.items, [], false);
+
+    return decks;
+}
+
+/**
+ * Looks the word up in the wordbooks in their order, and downloads the first recording of its pronunciation.
+ * A wordbook which fails is skipped, as is a recording which cannot be downloaded.
+ *
+ * @export
+ * @param {CollectionWord} word
+ * @param {Wordbook[]} wordbooks
+ * @returns {Promise<AnkiLookup>}
+ */
+export async function lookUpWord(word: CollectionWord, wordbooks: Wordbook[]): Promise<AnkiLookup> {
+    let definition: Definition | null = null;
+
+    for (const wordbook of wordbooks) {
+        definition = await wordbook.load(word).catch(() => null);
+
+        if (definition && definition.groups.length !== 0) {
+            break;
+        }
+    }
+
+    if (!definition) {
+        return { definition: null, audio: null };
+    }
+
+    const audioUrl = definition.groups
+        .reduce((urls: string[], group) => urls.concat(...group.pronunciations.map(pronunciation => pronunciation.audios)), [])
+        .find(url => url !== '');
+
+    if (audioUrl === undefined) {
+        return { definition, audio: null };
+    }
+
+    try {
+        const response = await axios.get(audioUrl, { responseType: 'arraybuffer', adapter: require('axios/lib/adapters/http') });
+        const extension = path.extname(audioUrl.split('?')[0]).slice(1) || 'mp3';
+
+        return { definition, audio: { extension, data: Buffer.from(response.data) } };
+    } catch (error) {
+        return { definition, audio: null };
+    }
+}
+
+/**
+ * Writes an Anki package with a deck per exported list and a note per word, with its definition, examples, pronunciation and notes.
+ * A word shared by several lists has a single note, in the deck of the first of its lists.
+ * The collection database of the package is created in a temporary folder and deleted afterwards.
+ *
+ * @export
+ * @param {string} fileName
+ * @param {AnkiDeck[]} decks
+ * @param {Map<string, AnkiLookup>} [lookups=new Map()] what the wordbooks know about the words, by word id
+ * @returns {Promise<void>}
+ */
+export async function writeAnkiPackage(fileName: string, decks: AnkiDeck[], lookups: Map<string, AnkiLookup> = new Map()): Promise<void> {
+    const folder = await new Promise<string>((resolve, reject) =>
+        fs.mkdtemp(path.join(os.tmpdir(), 'wordpouch-'), (error, result) => (error ? reject(error) : resolve(result)))
+    );
+    const databaseFileName = path.join(folder, 'collection.anki2');
+
+    try {
+        const media = writeAnkiCollection(databaseFileName, decks, lookups);
+        const mediaNames = media.reduce((map: { [name: string]: string }, file, index) => {
+            map[index] = file.name;
+            return map;
+        }, {});
+
+        const entries: ZipEntry[] = [
+            { name: 'collection.anki2', data: fs.readFileSync(databaseFileName) },
+            { name: 'media', data: Buffer.from(JSON.stringify(mediaNames), 'utf8') },
+            ...media.map((file, index) => ({ name: index.toString(), data: file.data }))
+        ];
+
+        await writeZip(fileName, entries);
+    } finally {
+        fs.readdirSync(folder).forEach(name => fs.unlinkSync(path.join(folder, name)));
+        fs.rmdirSync(folder);
+    }
+}
+
+// fills the collection database and returns the media files its notes refer to
+function writeAnkiCollection(databaseFileName: string, decks: AnkiDeck[], lookups: Map<string, AnkiLookup>): ZipEntry[] {
+    // the native module is loaded only when a package is written, so the rest of the app does not depend on its build
+    const Sqlite: typeof Database = require('better-sqlite3');
+    const database = new Sqlite(databaseFileName);
+    const now = Date.now();
+    const seconds = Math.floor(now / 1000);
+    const media: ZipEntry[] = [];
+
+    // note, card and deck ids are dates in milliseconds in Anki; consecutive numbers from now keep them unique
+    let nextId = now;
+
+    try {
+        database.exec(schema);
+
+        const deckIds = decks.map(() => nextId++);
+        const insertNote = database.prepare(
+            'INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data) VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)'
+        );
+        const insertCard = database.prepare(
+            'INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data) ' +
+                "VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')"
+        );
+
+        database.transaction(() => {
+            const exportedWordIds = new Set<string>();
+            let position = 0;
+
+            decks.forEach((deck, deckIndex) =>
+                deck.words
+                    .filter(word => !exportedWordIds.has(word.id))
+                    .forEach(word => {
+                        exportedWordIds.add(word.id);
+
+                        const lookup = lookups.get(word.id) || { definition: null, audio: null };
+                        let sound = '';
+
+                        if (lookup.audio !== null) {
+                            const name = `wordpouch-${word.id}.${lookup.audio.extension}`;
+
+                            media.push({ name, data: lookup.audio.data });
+                            sound = `[sound:${name}]`;
+                        }
+
+                        const fields = [
+                            escapeHtml(word.text),
+                            lookup.definition !== null ? formatDefinition(lookup.definition) : '',
+                            lookup.definition !== null ? formatExamples(lookup.definition) : '',
+                            [lookup.definition !== null ? formatSpellings(lookup.definition) : '', sound].filter(field => field).join(' '),
+                            escapeHtml(word.notes).replace(/\r?\n/g, '<br>')
+                        ];
+
+                        const noteId = nextId++;
+                        const tags = word.tags.map(tag => tag.replace(/\s+/g, '_')).join(' ');
+
+                        insertNote.run(
+                            noteId,
+                            word.id,
+                            MODEL_ID,
+                            seconds,
+                            tags ? ` ${tags} ` : '',
+                            fields.join(FIELD_SEPARATOR),
+                            word.text,
+                            checksum(word.text),
+                            ''
+                        );
+                        insertCard.run(nextId++, noteId, deckIds[deckIndex], seconds, position++);
+                    })
+            );
+
+            database
+                .prepare('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)')
+                .run(
+                    seconds,
+                    now,
+                    now,
+                    JSON.stringify(createConf()),
+                    JSON.stringify(createModels(seconds)),
+                    JSON.stringify(createDecks(decks, deckIds, seconds)),
+                    JSON.stringify(createDeckConf()),
+                    '{}'
+                );
+        })();
+    } finally {
+        database.close();
+    }
+
+    return media;
+}
+
+function createConf(): object {
+    return {
+        activeDecks: [1],
+        curDeck: 1,
+        newSpread: 0,
+        collapseTime: 1200,
+        timeLim: 0,
+        estTimes: true,
+        dueCounts: true,
+        curModel: MODEL_ID,
+        nextPos: 1,
+        sortType: 'noteFld',
+        sortBackwards: false,
+        addToCur: true
+    };
+}
+
+function createModels(seconds: number): object {
+    return {
+        [MODEL_ID]: {
+            id: MODEL_ID,
+            name: MODEL_NAME,
+            type: 0,
+            mod: seconds,
+            usn: -1,
+            sortf: 0,
+            did: 1,
+            tmpls: [{ name: 'Card 1', ord: 0, qfmt: questionFormat, afmt: answerFormat, did: null, bqfmt: '', bafmt: '' }],
+            flds: FIELD_NAMES.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+            css: cardCss,
+            latexPre:
+                '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\begin{document}\n',
+            latexPost: '\\end{document}',
+            tags: [],
+            vers: [],
+            req: [[0, 'any', [0]]]
+        }
+    };
+}
+
+// Anki creates the parent decks missing from a package by the `::` separated names
+function createDecks(decks: AnkiDeck[], deckIds: number[], seconds: number): object {
+    const deck = (id: number, name: string) => ({
+        id,
+        name,
+        mod: seconds,
+        usn: -1,
+        lrnToday: [0, 0],
+        revToday: [0, 0],
+        newToday: [0, 0],
+        timeToday: [0, 0],
+        collapsed: false,
+        desc: '',
+        dyn: 0,
+        conf: 1,
+        extendNew: 10,
+        extendRev: 50
+    });
+
+    return decks.reduce(
+        (map: { [id: string]: object }, { path }, index) => {
+            map[deckIds[index]] = deck(deckIds[index], path.map(name => name.replace(/::/g, ':')).join('::'));
+            return map;
+        },
+        { 1: deck(1, 'Default') }
+    );
+}
+
+function createDeckConf(): object {
+    return {
+        1: {
+            id: 1,
+            name: 'Default',
+            mod: 0,
+            usn: 0,
+            maxTaken: 60,
+            autoplay: true,
+            timer: 0,
+            replayq: true,
+            dyn: false,
+            new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+            rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+            lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 }
+        }
+    };
+}
+
+function formatDefinition(definition: Definition): string {
+    const formatSense = (sense: DefinitionSense): string => {
+        const labels = [sense.grammaticalNote, sense.senseRegisters].filter(label => label).map(label => `[${escapeHtml(label)}] `);
+        const subsenses = sense.subsenses.length !== 0 ? `<ol>${sense.subsenses.map(formatSense).join('')}</ol>` : '';
+
+        return `<li>${labels.join('')}${escapeHtml(sense.definition)}${subsenses}</li>`;
+    };
+
+    return definition.groups
+        .map(group =>
+            group.parts
+                .filter(part => part.senses.length !== 0)
+                .map(part => `<div><i>${escapeHtml(part.name)}</i></div><ol>${part.senses.map(formatSense).join('')}</ol>`)
+                .join('')
+        )
+        .join('');
+}
+
+function formatExamples(definition: Definition): string {
+    const collect = (senses: DefinitionSense[]): string[] =>
+        senses.reduce((examples: string[], sense) => examples.concat(sense.examples, collect(sense.subsenses)), []);
+
+    const examples = definition.groups.reduce(
+        (result: string[], group) => result.concat(...group.parts.map(part => collect(part.senses))),
+        []
+    );
+
+    return examples.length !== 0 ? `<ul>${examples.map(example => `<li>${escapeHtml(example)}</li>`).join('')}</ul>` : '';
+}
+
+function formatSpellings(definition: Definition): string {
+    const spellings = definition.groups.reduce(
+        (result: string[], group) => result.concat(...group.pronunciations.map(pronunciation => pronunciation.spellings)),
+        []
+    );
+
+    return Array.from(new Set(spellings))
+        .map(spelling => `/${escapeHtml(spelling)}/`)
+        .join(', ');
+}
+
+// Anki finds duplicate notes by the checksum of the first field without HTML
+function checksum(text: string): number {
+    const hash = crypto
+        .createHash('sha1')
+        .update(text, 'utf8')
+        .digest('hex');
+
+    return parseInt(hash.slice(0, 8), 16);
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,420 @@
+import fs from 'fs';
+import path from 'path';
+import moment from 'moment';
+
+import { CollectionList, CollectionState, CollectionTree, CollectionWord, CollectionWordOptions } from '@/store/modules/collection';
+
+/**
+ * Fields of a word which can be imported from and exported into a column of a CSV or TSV file.
+ * The `path` column holds the names of the sub-lists of the list the word is imported into or exported from, separated by `/`.
+ */
+export type DelimitedColumn = 'text' | 'notes' | 'favourite' | 'archived' | 'dateAdded' | 'path';
+
+/**
+ * Column of the file mapped to each word field by the column position; `null` for the columns which are not imported.
+ */
+export type DelimitedMapping = (DelimitedColumn | null)[];
+
+export type DelimitedRowStatus = 'new' | 'duplicate' | 'invalid';
+
+/**
+ * Contents of a CSV or TSV file with its guessed delimiter, which can be changed before the rows are parsed.
+ *
+ * @export
+ * @interface DelimitedFile
+ */
+export interface DelimitedFile {
+    text: string;
+    delimiter: string;
+}
+
+/**
+ * Fields of a row of a CSV or TSV file.
+ *
+ * @export
+ * @interface DelimitedRow
+ */
+export interface DelimitedRow {
+    /**
+     * Number of the line in the file the row starts on, counting from 1 as text editors do;
+     * empty lines and the line breaks in quoted fields are counted as well.
+     *
+     * @type {number}
+     * @memberof DelimitedRow
+     */
+    line: number;
+    cells: string[];
+}
+
+export interface DelimitedImportRow extends DelimitedRow {
+    status: DelimitedRowStatus;
+
+    /**
+     * Why the row is a duplicate or invalid.
+     *
+     * @type {string}
+     * @memberof DelimitedImportRow
+     */
+    reason: string;
+    word: CollectionWordOptions;
+
+    /**
+     * Names of the sub-lists of the target list the word goes into; empty for the target list itself.
+     *
+     * @type {string[]}
+     * @memberof DelimitedImportRow
+     */
+    path: string[];
+}
+
+export const delimitedColumnNames: { [column in DelimitedColumn]: string } = {
+    text: 'Word',
+    notes: 'Notes',
+    favourite: 'Favourite',
+    archived: 'Archived',
+    dateAdded: 'Date added',
+    path: 'List'
+};
+
+export const delimiterNames: { [delimiter: string]: string } = {
+    ',': 'Comma',
+    '\t': 'Tab',
+    ';': 'Semicolon'
+};
+
+// header names other apps and hand-made spreadsheets use for the same fields
+const columnAliases: { [column in DelimitedColumn]: string[] } = {
+    text: ['word', 'text', 'term', 'front'],
+    notes: ['notes', 'note', 'definition', 'meaning', 'back'],
+    favourite: ['favourite', 'favorite', 'starred'],
+    archived: ['archived'],
+    dateAdded: ['date added', 'added', 'date'],
+    path: ['list', 'path', 'deck']
+};
+
+const PATH_SEPARATOR: string = '/';
+const DATE_FORMAT: string = 'YYYY-MM-DD HH:mm:ss';
+const dateFormats: moment.MomentFormatSpecification = [DATE_FORMAT, 'YYYY-MM-DD HH:mm', 'YYYY-MM-DD', moment.ISO_8601];
+
+const trueValues: string[] = ['yes', 'y', 'true', '1', 'x'];
+const falseValues: string[] = ['', 'no', 'n', 'false', '0'];
+
+export function readDelimitedFile(fileName: string): Promise<DelimitedFile> {
+    return new Promise<DelimitedFile>((resolve, reject) => {
+        fs.readFile(fileName, 'utf8', (error, data) => {
+            if (error) {
+                return reject(error);
+            }
+
+            // spreadsheet apps save UTF-8 files with a byte order mark
+            const text = data.replace(/^\uFEFF/, '');
+            resolve({ text, delimiter: guessDelimiter(fileName, text) });
+        });
+    });
+}
+
+export function writeDelimitedFile(fileName: string, rows: string[][], delimiter: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        // the byte order mark makes Excel read the file as UTF-8
+        fs.writeFile(fileName, `\uFEFF${formatDelimited(rows, delimiter)}`, 'utf8', error => (error ? reject(error) : resolve()));
+    });
+}
+
+/**
+ * Returns a tab for TSV files; otherwise the delimiter found most often in the first line,
+ * as spreadsheet apps in some languages save CSV files with semicolons.
+ *
+ * @export
+ * @param {string} fileName
+ * @param {string} text
+ * @returns {string}
+ */
+export function guessDelimiter(fileName: string, text: string): string {
+    const extension = path.extname(fileName).toLowerCase();
+
+    if (extension === '.tsv' || extension === '.tab') {
+        return '\t';
+    }
+
+    const firstLine = text.split(/\r?\n/, 1)[0];
+    const count = (delimiter: string) => firstLine.split(delimiter).length;
+
+    return Object.keys(delimiterNames).reduce((best, delimiter) => (count(delimiter) > count(best) ? delimiter : best), ',');
+}
+
+/**
+ * Splits the text into rows of fields. Fields can be quoted, with doubled quotes inside, and then can hold delimiters and line breaks.
+ * Empty lines are skipped, but the rows keep the numbers of the lines they start on.
+ *
+ * @export
+ * @param {string} text
+ * @param {string} delimiter
+ * @returns {DelimitedRow[]}
+ */
+export function parseDelimited(text: string, delimiter: string): DelimitedRow[] {
+    const rows: DelimitedRow[] = [];
+    let row: string[] = [];
+    let field = '';
+    let isQuoted = false;
+    let position = 0;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+        row.push(field);
+
+        if (row.length > 1 || row[0] !== '') {
+            rows.push({ line: rowLine, cells: row });
+        }
+
+        row = [];
+        field = '';
+    };
+
+    while (position < text.length) {
+        const char = text[position];
+
+        if (isQuoted) {
+            if (char === '"' && text[position + 1] === '"') {
+                field += '"';
+                position++;
+            } else if (char === '"') {
+                isQuoted = false;
+            } else {
+                field += char;
+
+                if (char === '\n' || (char === '\r' && text[position + 1] !== '\n')) {
+                    line++;
+                }
+            }
+        } else if (char === '"' && field === '') {
+            isQuoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            endRow();
+
+            if (char === '\r' && text[position + 1] === '\n') {
+                position++;
+            }
+
+            line++;
+            rowLine = line;
+        } else {
+            field += char;
+        }
+
+        position++;
+    }
+
+    endRow();
+
+    return rows;
+}
+
+export function formatDelimited(rows: string[][], delimiter: string): string {
+    const quote = (field: string) => (field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field);
+
+    return rows.map(row => row.map(quote).join(delimiter)).join('\r\n');
+}
+
+/**
+ * Maps the columns by the names in the first row. If no name is recognized, the first row is taken for data,
+ * and the first two columns are mapped to the word and its notes.
+ *
+ * @export
+ * @param {string[]} firstRow
+ * @returns {{ mapping: DelimitedMapping; hasHeader: boolean }}
+ */
+export function guessMapping(firstRow: string[]): { mapping: DelimitedMapping; hasHeader: boolean } {
+    const columns = Object.keys(columnAliases) as DelimitedColumn[];
+    const mapping: DelimitedMapping = firstRow.map(name => {
+        const column = columns.find(c => columnAliases[c].includes(name.trim().toLowerCase()));
+        return column !== undefined ? column : null;
+    });
+
+    // a column mapped twice keeps its first place only
+    mapping.forEach((column, index) => {
+        if (column !== null && mapping.indexOf(column) !== index) {
+            mapping[index] = null;
+        }
+    });
+
+    if (mapping.some(column => column !== null)) {
+        return { mapping, hasHeader: true };
+    }
+
+    return { mapping: firstRow.map((_, index) => (index === 0 ? 'text' : index === 1 ? 'notes' : null)), hasHeader: false };
+}
+
+/**
+ * Reads the words from the rows, marking the rows which cannot be imported.
+ * A row is a duplicate if its word is already in the collection, or is repeated in the file for the same list;
+ * the same word repeated for another list is imported as one word shared by both lists.
+ *
+ * @export
+ * @param {DelimitedRow[]} rows
+ * @param {DelimitedMapping} mapping
+ * @param {boolean} hasHeader `true` if the first row holds the column names and is not imported
+ * @param {Set<string>} existingTexts texts of all the words in the collection
+ * @returns {DelimitedImportRow[]}
+ */
+export function planDelimitedImport(
+    rows: DelimitedRow[],
+    mapping: DelimitedMapping,
+    hasHeader: boolean,
+    existingTexts: Set<string>
+): DelimitedImportRow[] {
+    const seen = new Set<string>();
+
+    return rows.slice(hasHeader ? 1 : 0).map(({ line, cells }) => {
+        const field = (column: DelimitedColumn) => {
+            const position = mapping.indexOf(column);
+            return position !== -1 && cells[position] !== undefined ? cells[position].trim() : '';
+        };
+
+        const path = field('path')
+            .split(PATH_SEPARATOR)
+            .map(name => name.trim())
+            .filter(name => name !== '');
+
+        const row: DelimitedImportRow = { line, cells, status: 'new', reason: '', word: { text: field('text') }, path };
+        const invalid = (reason: string) => ({ ...row, status: 'invalid' as DelimitedRowStatus, reason });
+
+        if (row.word.text === '') {
+            return invalid('The word is empty');
+        }
+
+        const favourite = parseFlag(field('favourite'));
+        const archived = parseFlag(field('archived'));
+        const dateAdded = field('dateAdded') !== '' ? moment(field('dateAdded'), dateFormats, true) : null;
+
+        if (favourite === null) {
+            return invalid(`"${field('favourite')}" is not a valid favourite flag`);
+        }
+
+        if (archived === null) {
+            return invalid(`"${field('archived')}" is not a valid archived flag`);
+        }
+
+        if (dateAdded !== null && !dateAdded.isValid()) {
+            return invalid(`"${field('dateAdded')}" is not a valid date`);
+        }
+
+        const key = [row.word.text, ...path].join(PATH_SEPARATOR);
+
+        if (existingTexts.has(row.word.text!)) {
+            return { ...row, status: 'duplicate' as DelimitedRowStatus, reason: 'Already in the collection' };
+        }
+
+        if (seen.has(key)) {
+            return { ...row, status: 'duplicate' as DelimitedRowStatus, reason: 'Repeated in the file' };
+        }
+
+        seen.add(key);
+
+        row.word = {
+            text: row.word.text,
+            notes: field('notes'),
+            favourite,
+            archived,
+            ...(dateAdded !== null ? { dateAdded: dateAdded.valueOf() } : {})
+        };
+
+        return row;
+    });
+}
+
+/**
+ * Returns the rows of the words of the lists, with a header row of the column names.
+ * Each list is followed by its sub-lists if they are included. The `path` column is relative to the exported list, so the file
+ * can be imported back into it; when several lists are exported, it starts with the name of the list, so they are kept apart.
+ *
+ * @export
+ * @param {CollectionState} state the collection with the exported lists loaded
+ * @param {string[]} listIds
+ * @param {DelimitedColumn[]} columns
+ * @param {boolean} includeSubLists
+ * @returns {string[][]}
+ */
+export function exportDelimited(
+    state: CollectionState,
+    listIds: string[],
+    columns: DelimitedColumn[],
+    includeSubLists: boolean
+): string[][] {
+    const rows: string[][] = [columns.map(column => delimitedColumnNames[column])];
+    const exported = new Set<string>();
+
+    const exportedLists = state.index.flatTree.filter(listId => listIds.includes(listId) && state.lists[listId] !== undefined);
+
+    const exportTree = (list: CollectionList, tree: CollectionTree | undefined, path: string[]) => {
+        // a list selected along with its parent is exported once, under the parent
+        if (exported.has(list.id)) {
+            return;
+        }
+
+        exported.add(list.id);
+
+        state.getListWords(list).forEach(word => rows.push(columns.map(column => formatField(word, column, path))));
+
+        if (includeSubLists && tree !== undefined) {
+            tree.items
+                .filter(item => state.lists[item.listId] !== undefined)
+                .forEach(item => exportTree(state.lists[item.listId], item, [...path, state.lists[item.listId].name]));
+        }
+    };
+
+    // the tree order puts the parent lists before their sub-lists
+    exportedLists.forEach(listId => {
+        const list = state.lists[listId];
+        exportTree(list, state.index.findTree(listId), exportedLists.length > 1 ? [list.name] : []);
+    });
+
+    return rows;
+}
+
+/**
+ * Ids of the lists and, if sub-lists are included, of all their descendants; the lists to load before exporting.
+ *
+ * @export
+ * @param {CollectionState} state
+ * @param {string[]} listIds
+ * @returns {string[]}
+ */
+export function expandListIds(state: CollectionState, listIds: string[]): string[] {
+    const ids = listIds.reduce((result: string[], listId) => {
+        const tree = state.index.findTree(listId);
+        return result.concat(tree !== undefined ? tree.flatTree : [listId]);
+    }, []);
+
+    return Array.from(new Set(ids));
+}
+
+function formatField(word: CollectionWord, column: DelimitedColumn, listPath: string[]): string {
+    switch (column) {
+        case 'text':
+            return word.text;
+        case 'notes':
+            return word.notes;
+        case 'favourite':
+            return word.favourite ? 'yes' : 'no';
+        case 'archived':
+            return word.archived ? 'yes' : 'no';
+        case 'dateAdded':
+            return moment(word.dateAdded).format(DATE_FORMAT);
+        case 'path':
+            return listPath.join(PATH_SEPARATOR);
+    }
+}
+
+function parseFlag(value: string): boolean | null {
+    const normalized = value.toLowerCase();
+
+    if (trueValues.includes(normalized)) {
+        return true;
+    }
+
+    return falseValues.includes(normalized) ? false : null;
+}
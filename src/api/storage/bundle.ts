@@ -0,0 +1,357 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import uniqid from 'uniqid';
+
+import { StorageSnapshotData, snapshotToState } from './snapshots';
+import { isOutdated, migrateIndex, migrateList } from './migrations';
+import {
+    CollectionState,
+    CollectionList,
+    CollectionTree,
+    CollectionWord,
+    CollectionIndexOptions,
+    CollectionListOptions,
+    CollectionQuery,
+    CollectionTreeOptions,
+    SCHEMA_VERSION
+} from '../../store/modules/collection/index';
+
+export const BUNDLE_FORMAT: string = 'wordpouch-bundle';
+export const BUNDLE_EXTENSION: string = 'wpbundle';
+
+/**
+ * Describes the bundle, so it can be checked before its collection is read.
+ *
+ * @export
+ * @interface CollectionBundleManifest
+ */
+export interface CollectionBundleManifest {
+    format: string;
+
+    /**
+     * Version of the app which exported the bundle, and the schema version of its index and list files.
+     *
+     * @type {string}
+     * @memberof CollectionBundleManifest
+     */
+    appVersion: string;
+    schemaVersion: number;
+
+    dateCreated: number;
+    listCount: number;
+    wordCount: number;
+}
+
+/**
+ * A whole collection in a single file: the index tree and all the lists with their words. The trash is not included.
+ *
+ * @export
+ * @interface CollectionBundle
+ */
+export interface CollectionBundle {
+    manifest: CollectionBundleManifest;
+    index: CollectionIndexOptions;
+    lists: CollectionListOptions[];
+}
+
+/**
+ * How a bundle is imported:
+ * - `replace`: the bundle replaces the collection;
+ * - `subtree`: the lists of the bundle are added under a new list, as copies with new ids;
+ * - `merge`: the lists of the bundle are merged into the lists with the same names at the same places in the tree,
+ *   and the words with the same text as a word already in the collection are skipped.
+ */
+export type BundleImportMode = 'replace' | 'subtree' | 'merge';
+
+export interface BundleImportSummary {
+    listsAdded: number;
+    listsRemoved: number;
+    wordsAdded: number;
+    wordsSkipped: number;
+}
+
+export interface BundleImport {
+    value: CollectionState;
+    summary: BundleImportSummary;
+}
+
+/**
+ * Creates a bundle of the collection. Only the loaded lists are included, so all the lists should be loaded first.
+ *
+ * @export
+ * @param {CollectionState} state
+ * @param {string} appVersion
+ * @returns {CollectionBundle}
+ */
+export function createBundle(state: CollectionState, appVersion: string): CollectionBundle {
+    const lists = Object.values(state.lists)
+        .filter(list => list.isLoaded)
+        .map(list => list.safeJSON);
+
+    return {
+        manifest: {
+            format: BUNDLE_FORMAT,
+            appVersion,
+            schemaVersion: SCHEMA_VERSION,
+            dateCreated: Date.now(),
+            listCount: lists.length,
+            wordCount: countWords(lists)
+        },
+        index: state.index.safeJSON,
+        lists
+    };
+}
+
+// the bundle is gzipped JSON, which compresses word notes well and can still be inspected with common tools
+export function writeBundle(fileName: string, bundle: CollectionBundle): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        zlib.gzip(JSON.stringify(bundle), (error, data) => {
+            if (error) {
+                return reject(error);
+            }
+
+            fs.writeFile(fileName, data, writeError => (writeError ? reject(writeError) : resolve()));
+        });
+    });
+}
+
+/**
+ * Reads a bundle, upgrading the index and the lists exported by an older version of the app.
+ * Throws if the file is not a bundle or was exported by a newer version of the app.
+ *
+ * @export
+ * @param {string} fileName
+ * @returns {Promise<CollectionBundle>}
+ */
+export function readBundle(fileName: string): Promise<CollectionBundle> {
+    return new Promise<CollectionBundle>((resolve, reject) => {
+        fs.readFile(fileName, (error, data) => {
+            if (error) {
+                return reject(error);
+            }
+
+            zlib.gunzip(data, (unzipError, json) => {
+                try {
+                    if (unzipError) {
+                        throw new Error('The file is not a collection bundle');
+                    }
+
+                    resolve(parseBundle(json.toString('utf8')));
+                } catch (error) {
+                    reject(error);
+                }
+            });
+        });
+    });
+}
+
+function parseBundle(json: string): CollectionBundle {
+    const bundle: CollectionBundle = JSON.parse(json);
+
+    if (!bundle.manifest || bundle.manifest.format !== BUNDLE_FORMAT) {
+        throw new Error('The file is not a collection bundle');
+    }
+
+    return {
+        manifest: bundle.manifest,
+        index: isOutdated(bundle.index) ? migrateIndex(bundle.index) : bundle.index,
+        lists: bundle.lists.map(list => (isOutdated(list) ? migrateList(list) : list))
+    };
+}
+
+/**
+ * Imports the bundle into a copy of the collection; returns the new collection along with a summary of the changes,
+ * which is shown as a preview before the collection is replaced.
+ *
+ * @export
+ * @param {StorageSnapshotData} current the collection with all its lists
+ * @param {CollectionBundle} bundle
+ * @param {BundleImportMode} mode
+ * @param {string} [subtreeName='Imported'] name of the list the `subtree` mode adds the lists under
+ * @returns {BundleImport}
+ */
+export function importBundle(
+    current: StorageSnapshotData,
+    bundle: CollectionBundle,
+    mode: BundleImportMode,
+    subtreeName: string = 'Imported'
+): BundleImport {
+    if (mode === 'replace') {
+        return {
+            value: snapshotToState({ index: bundle.index, lists: bundle.lists, trash: current.trash }),
+            summary: {
+                listsAdded: bundle.lists.length,
+                listsRemoved: current.lists.length,
+                wordsAdded: countWords(bundle.lists),
+                wordsSkipped: 0
+            }
+        };
+    }
+
+    const value = snapshotToState(current);
+
+    return mode === 'subtree' ? importSubtree(value, bundle, subtreeName) : importMerged(value, bundle);
+}
+
+// copies get new ids, so a bundle can be imported into the collection it was exported from; shared words stay shared
+function importSubtree(value: CollectionState, bundle: CollectionBundle, subtreeName: string): BundleImport {
+    const listIds = new Map<string, string>();
+    const wordIds = new Map<string, string>();
+    const newId = (ids: Map<string, string>, id: string) => ids.get(id) || ids.set(id, uniqid.time()).get(id)!;
+
+    // all the lists get their ids first, so the smart lists can refer to the lists which come after them
+    bundle.lists.forEach(list => newId(listIds, list.id!));
+
+    const lists = bundle.lists.map(list => {
+        const words = Object.values(list.words || {}).map(word => ({ ...word, id: newId(wordIds, word.id!) }));
+
+        return CollectionList.fromJSON({
+            ...list,
+            id: newId(listIds, list.id!),
+            query: copyQuery(list.query, listIds),
+            index: (list.index || []).map(wordId => newId(wordIds, wordId)),
+            words: words.reduce((map: { [wordId: string]: object }, word) => {
+                map[word.id] = word;
+                return map;
+            }, {}) as CollectionListOptions['words']
+        });
+    });
+
+    const rootList = new CollectionList({ name: subtreeName });
+    const treeItems = fitBundleTree(bundle).map(item => copyTree(item, listIds));
+
+    value.lists[rootList.id] = rootList;
+    lists.forEach(list => (value.lists[list.id] = list));
+    value.index.tree.insertTree({ listId: rootList.id, items: treeItems as CollectionTree[] });
+
+    return {
+        value: new CollectionState({ index: value.index, lists: value.lists, trash: value.trash }),
+        summary: { listsAdded: lists.length + 1, listsRemoved: 0, wordsAdded: countWords(bundle.lists), wordsSkipped: 0 }
+    };
+}
+
+function importMerged(value: CollectionState, bundle: CollectionBundle): BundleImport {
+    const summary: BundleImportSummary = { listsAdded: 0, listsRemoved: 0, wordsAdded: 0, wordsSkipped: 0 };
+
+    const knownTexts = new Set<string>();
+    Object.values(value.lists).forEach(list => Object.values(list.words).forEach(word => knownTexts.add(normalizeText(word.text))));
+
+    // words shared by several lists of the bundle are added once and shared by the lists they are added to
+    const addedWords = new Map<string, CollectionWord>();
+    const bundleLists = new Map(bundle.lists.map((list): [string, CollectionListOptions] => [list.id!, list]));
+
+    // ids of the lists of the collection the lists of the bundle are merged into, and the lists added for them
+    const mergedIds = new Map<string, string>();
+    const addedLists: { list: CollectionList; data: CollectionListOptions }[] = [];
+
+    const mergeList = (item: CollectionTreeOptions, parent: CollectionTree) => {
+        const data = bundleLists.get(item.listId!)!;
+        const existing = parent.items.find(node => {
+            const list = value.lists[node.listId];
+            return list !== undefined && !list.isSmart && list.name === data.name;
+        });
+
+        let list: CollectionList;
+        let node: CollectionTree;
+
+        if (existing !== undefined) {
+            list = value.lists[existing.listId];
+            node = existing;
+        } else {
+            list = new CollectionList({ ...data, id: uniqid.time(), index: [], words: {} });
+            value.lists[list.id] = list;
+            parent.insertTree({ listId: list.id });
+            node = parent.items[parent.items.length - 1];
+            addedLists.push({ list, data });
+            summary.listsAdded++;
+        }
+
+        mergedIds.set(data.id!, list.id);
+
+        (data.index || [])
+            .map(wordId => data.words![wordId])
+            .filter(word => word !== undefined)
+            .forEach(wordData => {
+                const added = addedWords.get(wordData.id!);
+
+                if (added !== undefined) {
+                    if (list.words[added.id] === undefined) {
+                        list.addWord(added);
+                    }
+                } else if (knownTexts.has(normalizeText(wordData.text || ''))) {
+                    summary.wordsSkipped++;
+                } else {
+                    const word = new CollectionWord({ ...wordData, id: uniqid.time() });
+
+                    list.addWord(word);
+                    addedWords.set(wordData.id!, word);
+                    knownTexts.add(normalizeText(word.text));
+                    summary.wordsAdded++;
+                }
+            });
+
+        (item.items || []).forEach(child => mergeList(child, node));
+    };
+
+    fitBundleTree(bundle).forEach(item => mergeList(item, value.index.tree));
+    addedLists.forEach(({ list, data }) => (list.query = copyQuery(data.query, mergedIds)));
+
+    return { value: new CollectionState({ index: value.index, lists: value.lists, trash: value.trash }), summary };
+}
+
+// the tree of the bundle without the nodes of missing lists, and with the lists missing from the tree added at the end
+function fitBundleTree(bundle: CollectionBundle): CollectionTreeOptions[] {
+    const listIds = new Set(bundle.lists.map(list => list.id!));
+    const visited = new Set<string>();
+
+    const fit = (items: CollectionTreeOptions[]): CollectionTreeOptions[] =>
+        items.reduce((result: CollectionTreeOptions[], item) => {
+            const children = fit(item.items || []);
+
+            if (listIds.has(item.listId!) && !visited.has(item.listId!)) {
+                visited.add(item.listId!);
+                result.push({ listId: item.listId, expanded: item.expanded, items: children as CollectionTree[] });
+            } else {
+                result.push(...children);
+            }
+
+            return result;
+        }, []);
+
+    const tree = fit((bundle.index.tree && bundle.index.tree.items) || []);
+
+    return [...tree, ...bundle.lists.filter(list => !visited.has(list.id!)).map(list => ({ listId: list.id, items: [] }))];
+}
+
+function copyTree(item: CollectionTreeOptions, listIds: Map<string, string>): CollectionTreeOptions {
+    return {
+        listId: listIds.get(item.listId!),
+        expanded: item.expanded,
+        items: (item.items || []).map(child => copyTree(child, listIds)) as CollectionTree[]
+    };
+}
+
+/**
+ * Points the query of a smart list to the imported copy of the list it's scoped to; the query of a list scoped to a list
+ * which is not imported is not scoped anymore.
+ *
+ * @param {(CollectionQuery | null | undefined)} query
+ * @param {Map<string, string>} listIds ids of the imported lists by their ids in the bundle
+ * @returns {(CollectionQuery | null)}
+ */
+function copyQuery(query: CollectionQuery | null | undefined, listIds: Map<string, string>): CollectionQuery | null {
+    if (!query) {
+        return null;
+    }
+
+    return query.listId ? { ...query, listId: listIds.get(query.listId) || null } : query;
+}
+
+function normalizeText(text: string): string {
+    return text.trim().toLowerCase();
+}
+
+// words shared by several lists are counted once
+function countWords(lists: CollectionListOptions[]): number {
+    return new Set(lists.reduce((wordIds: string[], list) => wordIds.concat(list.index || []), [])).size;
+}
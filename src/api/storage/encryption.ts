@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { makeFoldersSync, writeFileAtomic } from './files';
+import { getActiveProfile, onActiveProfileChange } from './profiles';
+
+/**
+ * Encrypted contents of a collection file, stored in place of the plain JSON.
+ */
+export interface EncryptedPayload {
+    encrypted: number;
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+/**
+ * The collection files are encrypted with a random data key; the key file holds the data key encrypted with a key derived
+ * from the passphrase, so changing the passphrase only re-encrypts the data key and not every file.
+ */
+interface EncryptionKeyFile {
+    version: number;
+    salt: string;
+    iterations: number;
+    key: EncryptedPayload;
+}
+
+const algorithm: crypto.CipherGCMTypes = 'aes-256-gcm';
+const keyLength: number = 32;
+const iterations: number = 200000;
+
+// key used to read the collection files; `null` while the collection is locked
+let dataKey: Buffer | null = null;
+
+// new writes are encrypted only while this is set; turning the encryption off keeps the key to read the files still encrypted
+let isWriteEncrypted: boolean = false;
+
+onActiveProfileChange(() => {
+    dataKey = null;
+    isWriteEncrypted = false;
+});
+
+function keyFileName(): string {
+    return path.join(getActiveProfile().dataPath, 'encryption.json');
+}
+
+function deriveKey(passphrase: string, salt: Buffer, rounds: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        crypto.pbkdf2(passphrase, salt, rounds, keyLength, 'sha256', (error, key) => (error ? reject(error) : resolve(key)));
+    });
+}
+
+function encryptBuffer(key: Buffer, data: Buffer): EncryptedPayload {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(algorithm, key, iv);
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+    return {
+        encrypted: 1,
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: encrypted.toString('base64')
+    };
+}
+
+/**
+ * Decrypts the payload; throws if the key is wrong or the payload was tampered with.
+ *
+ * @param {Buffer} key
+ * @param {EncryptedPayload} payload
+ * @returns {Buffer}
+ */
+function decryptBuffer(key: Buffer, payload: EncryptedPayload): Buffer {
+    const decipher = crypto.createDecipheriv(algorithm, key, Buffer.from(payload.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+
+    return Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+}
+
+function readKeyFile(): Promise<EncryptionKeyFile | null> {
+    return new Promise<EncryptionKeyFile | null>((resolve, reject) => {
+        fs.readFile(keyFileName(), 'utf8', (error, data) => {
+            if (error) {
+                return error.code === 'ENOENT' ? resolve(null) : reject(error);
+            }
+
+            try {
+                resolve(JSON.parse(data));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+async function writeKeyFile(passphrase: string, key: Buffer): Promise<void> {
+    const salt = crypto.randomBytes(16);
+    const passphraseKey = await deriveKey(passphrase, salt, iterations);
+    const keyFile: EncryptionKeyFile = { version: 1, salt: salt.toString('base64'), iterations, key: encryptBuffer(passphraseKey, key) };
+
+    makeFoldersSync(path.dirname(keyFileName()));
+    await writeFileAtomic(keyFileName(), JSON.stringify(keyFile));
+}
+
+/**
+ * Decrypts the data key with the passphrase; resolves to `null` if the passphrase is wrong.
+ *
+ * @param {string} passphrase
+ * @returns {(Promise<Buffer | null>)}
+ */
+async function openKeyFile(passphrase: string): Promise<Buffer | null> {
+    const keyFile = await readKeyFile();
+    if (keyFile === null) {
+        throw new Error('The collection is not encrypted');
+    }
+
+    const passphraseKey = await deriveKey(passphrase, Buffer.from(keyFile.salt, 'base64'), keyFile.iterations);
+
+    try {
+        return decryptBuffer(passphraseKey, keyFile.key);
+    } catch (error) {
+        return null;
+    }
+}
+
+export function isEncryptedPayload(json: any): json is EncryptedPayload {
+    return json !== null && typeof json === 'object' && json.encrypted === 1 && typeof json.data === 'string';
+}
+
+/**
+ * Checks if the collection of the active profile is encrypted, that is, it has a key file.
+ *
+ * @export
+ * @returns {Promise<boolean>}
+ */
+export function isEncryptionEnabled(): Promise<boolean> {
+    return new Promise<boolean>(resolve => fs.access(keyFileName(), error => resolve(!error)));
+}
+
+export function isEncryptionUnlocked(): boolean {
+    return dataKey !== null;
+}
+
+/**
+ * Unlocks the encrypted collection for reading and writing.
+ *
+ * @export
+ * @param {string} passphrase
+ * @returns {Promise<boolean>} `false` if the passphrase is wrong
+ */
+export async function unlockEncryption(passphrase: string): Promise<boolean> {
+    const key = await openKeyFile(passphrase);
+    if (key === null) {
+        return false;
+    }
+
+    dataKey = key;
+    isWriteEncrypted = true;
+
+    return true;
+}
+
+/**
+ * Encrypts the JSON to be written into a collection file; returns the JSON unchanged if the encryption is off.
+ *
+ * @export
+ * @param {object} json
+ * @returns {object}
+ */
+export function encryptPayload(json: object): object {
+    if (!isWriteEncrypted || dataKey === null) {
+        return json;
+    }
+
+    return encryptBuffer(dataKey, Buffer.from(JSON.stringify(json), 'utf8'));
+}
+
+/**
+ * Decrypts the JSON read from a collection file; plain JSON, for example, of files not yet re-encrypted, is returned unchanged.
+ *
+ * @export
+ * @template T
+ * @param {*} json
+ * @returns {T}
+ */
+export function decryptPayload<T>(json: any): T {
+    if (!isEncryptedPayload(json)) {
+        return json;
+    }
+
+    if (dataKey === null) {
+        throw new Error('The collection is encrypted and locked');
+    }
+
+    return JSON.parse(decryptBuffer(dataKey, json).toString('utf8'));
+}
+
+/**
+ * Turns the encryption on with a new data key and re-encrypts the existing files using the supplied function.
+ * The key file is written first; files not re-encrypted yet (for example, if the app is closed midway) stay readable.
+ *
+ * @export
+ * @param {string} passphrase
+ * @param {() => Promise<void>} rewrite writes all the collection files again
+ * @returns {Promise<void>}
+ */
+export async function enableEncryption(passphrase: string, rewrite: () => Promise<void>): Promise<void> {
+    const key = crypto.randomBytes(keyLength);
+    await writeKeyFile(passphrase, key);
+
+    dataKey = key;
+    isWriteEncrypted = true;
+
+    await rewrite();
+}
+
+/**
+ * Re-encrypts the data key with the new passphrase; the collection files stay as they are.
+ *
+ * @export
+ * @param {string} passphrase current passphrase
+ * @param {string} newPassphrase
+ * @returns {Promise<boolean>} `false` if the current passphrase is wrong
+ */
+export async function changePassphrase(passphrase: string, newPassphrase: string): Promise<boolean> {
+    const key = await openKeyFile(passphrase);
+    if (key === null) {
+        return false;
+    }
+
+    await writeKeyFile(newPassphrase, key);
+    return true;
+}
+
+/**
+ * Turns the encryption off, writing the files in plain JSON using the supplied function; the key file is removed last.
+ *
+ * @export
+ * @param {() => Promise<void>} rewrite writes all the collection files again
+ * @returns {Promise<void>}
+ */
+export async function disableEncryption(rewrite: () => Promise<void>): Promise<void> {
+    isWriteEncrypted = false;
+
+    try {
+        await rewrite();
+    } catch (error) {
+        isWriteEncrypted = true;
+        throw error;
+    }
+
+    await new Promise<void>((resolve, reject) =>
+        fs.unlink(keyFileName(), error => (error && error.code !== 'ENOENT' ? reject(error) : resolve()))
+    );
+
+    dataKey = null;
+}
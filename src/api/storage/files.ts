@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Writes data into a temporary file next to the target file and renames it over the target file once the data is on disk,
+ * so an interrupted write never leaves a truncated file behind.
+ *
+ * @export
+ * @param {string} filePath
+ * @param {string} data
+ * @returns {Promise<void>}
+ */
+export function writeFileAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    const promise = new Promise<void>((resolve, reject) => {
+        const fail = (error: NodeJS.ErrnoException) => fs.unlink(tempPath, () => reject(error));
+
+        fs.open(tempPath, 'w', (error, fd) => {
+            if (error) {
+                return reject(error);
+            }
+
+            fs.write(fd, data, error => {
+                // make sure the data is on disk before the rename makes it visible
+                fs.fsync(fd, fsyncError =>
+                    fs.close(fd, closeError => {
+                        const writeError = error || fsyncError || closeError;
+                        if (writeError) {
+                            return fail(writeError);
+                        }
+
+                        fs.rename(tempPath, filePath, error => (error ? fail(error) : resolve()));
+                    })
+                );
+            });
+        });
+    });
+
+    return promise;
+}
+
+export function makeFolder(folderName: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.mkdir(folderName, error => (error && error.code !== 'EEXIST' ? reject(error) : resolve()));
+    });
+}
+
+/**
+ * Creates a folder together with all its missing parents.
+ * `fs.mkdir` has no `recursive` option in the Node version bundled with Electron.
+ *
+ * @export
+ * @param {string} folderName
+ */
+export function makeFoldersSync(folderName: string): void {
+    if (fs.existsSync(folderName)) {
+        return;
+    }
+
+    makeFoldersSync(path.dirname(folderName));
+    fs.mkdirSync(folderName);
+}
@@ -0,0 +1,385 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+
+import Storage, { StorageRevision } from './interface';
+import { makeFoldersSync, writeFileAtomic } from './files';
+import { decryptPayload, encryptPayload } from './encryption';
+import { getActiveProfile, onActiveProfileChange } from './profiles';
+import { isOutdated, migrateIndex, migrateList, migrateTrash } from './migrations';
+import {
+    CollectionState,
+    CollectionIndex,
+    CollectionList,
+    CollectionIndexOptions,
+    CollectionListOptions,
+    CollectionListMap,
+    CollectionTrash,
+    CollectionTrashOptions,
+    CollectionWordOptions
+} from '../../store/modules/collection/index';
+
+// writes made within this time after each other are committed together
+const commitDelay: number = 1000;
+
+// commits are made under a fixed identity, so the repository works without any git configuration
+const commitIdentity: string[] = ['-c', 'user.name=WordPouch', '-c', 'user.email=wordpouch@localhost'];
+
+// fields of a `git log` entry are separated with the unit separator character
+const logFormat: string = '--format=%H%x1f%at%x1f%s';
+
+let repository: Promise<void> | null = null;
+
+// descriptions of the changes written since the last commit
+let pendingMessages: string[] = [];
+let commitTimeout: ReturnType<typeof setTimeout> | null = null;
+let committing: Promise<void> = Promise.resolve();
+
+onActiveProfileChange(() => {
+    repository = null;
+});
+
+function repositoryFolderName(): string {
+    return path.join(getActiveProfile().dataPath, 'git');
+}
+
+function indexFileName(): string {
+    return 'index.json';
+}
+
+function listFileName(id: string): string {
+    return `list-${id}.json`;
+}
+
+function trashFileName(): string {
+    return 'trash.json';
+}
+
+const listFileNamePattern: RegExp = /^list-(.+)\.json$/;
+
+function runGit(args: string[]): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        execFile('git', args, { cwd: repositoryFolderName(), maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) =>
+            error ? reject(new Error(`git ${args[0]} failed: ${stderr || error.message}`)) : resolve(stdout)
+        );
+    });
+}
+
+/**
+ * Creates the repository on first use.
+ *
+ * @returns {Promise<void>}
+ */
+function openRepository(): Promise<void> {
+    if (repository === null) {
+        makeFoldersSync(repositoryFolderName());
+
+        repository = fs.existsSync(path.join(repositoryFolderName(), '.git')) ? Promise.resolve() : runGit(['init', '-q']).then(() => {});
+
+        // allow another attempt, for example, after git is installed
+        repository.catch(() => (repository = null));
+    }
+
+    return repository;
+}
+
+function readFile<T>(fileName: string): Promise<T | null> {
+    return new Promise<T | null>((resolve, reject) => {
+        fs.readFile(path.join(repositoryFolderName(), fileName), 'utf8', (error, data) => {
+            if (error) {
+                return error.code === 'ENOENT' ? resolve(null) : reject(error);
+            }
+
+            try {
+                resolve(decryptPayload<T>(JSON.parse(data)));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+async function writeFile(fileName: string, json: object): Promise<void> {
+    await openRepository();
+    await writeFileAtomic(path.join(repositoryFolderName(), fileName), JSON.stringify(encryptPayload(json)));
+}
+
+function openList(data: CollectionListOptions): CollectionList {
+    return CollectionList.fromJSON(isOutdated(data) ? migrateList(data) : data);
+}
+
+/**
+ * Quotes up to three word texts; longer lists are only counted.
+ *
+ * @param {CollectionWordOptions[]} words
+ * @returns {string}
+ */
+function describeWords(words: CollectionWordOptions[]): string {
+    if (words.length > 3) {
+        return `${words.length} words`;
+    }
+
+    const texts = words.map(word => `'${word.text}'`);
+    return texts.length === 1 ? texts[0] : `${texts.slice(0, -1).join(', ')} and ${texts[texts.length - 1]}`;
+}
+
+/**
+ * Describes how the list changed since it was last written, for example, "added 'obdurate' to GRE".
+ *
+ * @param {(CollectionListOptions | null)} previous
+ * @param {CollectionListOptions} current
+ * @returns {string[]}
+ */
+function describeListChanges(previous: CollectionListOptions | null, current: CollectionListOptions): string[] {
+    const name = current.name || CollectionList.DEFAULT_NAME;
+
+    if (previous === null) {
+        return [`created list '${name}'`];
+    }
+
+    const previousWords: { [id: string]: CollectionWordOptions } = previous.words || {};
+    const currentWords: { [id: string]: CollectionWordOptions } = current.words || {};
+
+    const added = Object.keys(currentWords).filter(id => previousWords[id] === undefined);
+    const removed = Object.keys(previousWords).filter(id => currentWords[id] === undefined);
+    const kept = Object.keys(currentWords).filter(id => previousWords[id] !== undefined);
+    const renamed = kept.filter(id => previousWords[id].text !== currentWords[id].text);
+    const edited = kept.filter(id => !renamed.includes(id) && JSON.stringify(previousWords[id]) !== JSON.stringify(currentWords[id]));
+
+    const messages: string[] = [];
+
+    if (previous.name !== current.name) {
+        messages.push(`renamed list '${previous.name || CollectionList.DEFAULT_NAME}' to '${name}'`);
+    }
+
+    if (added.length !== 0) {
+        messages.push(`added ${describeWords(added.map(id => currentWords[id]))} to ${name}`);
+    }
+
+    if (removed.length !== 0) {
+        messages.push(`removed ${describeWords(removed.map(id => previousWords[id]))} from ${name}`);
+    }
+
+    renamed.forEach(id => messages.push(`renamed '${previousWords[id].text}' to '${currentWords[id].text}' in ${name}`));
+
+    if (edited.length !== 0) {
+        messages.push(`edited ${describeWords(edited.map(id => currentWords[id]))} in ${name}`);
+    }
+
+    return messages.length !== 0 ? messages : [`updated list '${name}'`];
+}
+
+/**
+ * Adds the change descriptions to the next commit, which is made once no more writes follow for a moment.
+ *
+ * @param {string[]} messages
+ */
+function scheduleCommit(messages: string[]): void {
+    pendingMessages.push(...messages);
+
+    if (commitTimeout !== null) {
+        clearTimeout(commitTimeout);
+    }
+
+    commitTimeout = setTimeout(() => {
+        commitTimeout = null;
+
+        // commits are made one at a time, as git locks the repository while committing
+        committing = committing.then(commit).catch(error => console.error('commit failed', error));
+    }, commitDelay);
+}
+
+async function commit(): Promise<void> {
+    const messages = pendingMessages.filter((message, index) => pendingMessages.indexOf(message) === index);
+    pendingMessages = [];
+
+    await openRepository();
+    await runGit(['add', '-A']);
+
+    // for example, a list written again without any changes
+    if ((await runGit(['status', '--porcelain'])).trim() === '') {
+        return;
+    }
+
+    const more = messages.length - 1;
+    const subject = more > 0 ? `${messages[0]} and ${more} more change${more > 1 ? 's' : ''}` : messages[0] || 'updated the collection';
+    const body = messages.length > 1 ? messages.map(message => `- ${message}`).join('\n') : '';
+
+    await runGit([...commitIdentity, 'commit', '-q', '-m', subject, ...(body !== '' ? ['-m', body] : [])]);
+}
+
+/**
+ * Keeps the collection files in a git repository and commits every batch of writes with a description of the changes,
+ * so any past version of a list can be browsed and restored.
+ */
+const gitStorage: Storage = {
+    id: 'git',
+    name: 'Git repository',
+    supportsEncryption: true,
+    supportsHistory: true,
+
+    async hasCollection(): Promise<boolean> {
+        return fs.existsSync(path.join(repositoryFolderName(), indexFileName()));
+    },
+
+    async loadCollection(): Promise<CollectionState> {
+        const index = await this.loadIndex();
+
+        // lists missing from the repository are left out; the integrity check reports the index referring to them
+        const storedListIds = await this.getListIds();
+        const listIds = index.flatTree.filter(listId => storedListIds.includes(listId));
+
+        const listArray = await Promise.all(listIds.map(listId => this.loadList(listId)));
+        const lists: CollectionListMap = listArray.reduce((map: CollectionListMap, list) => {
+            map[list.id] = list;
+            return map;
+        }, {});
+
+        const trash = await this.loadTrash();
+
+        return new CollectionState({ index, lists, trash });
+    },
+
+    // outdated files are upgraded in memory only; the previous versions stay in the repository history
+    async loadIndex(): Promise<CollectionIndex> {
+        const data = await readFile<CollectionIndexOptions>(indexFileName());
+        if (data === null) {
+            throw new Error('The repository has no collection index');
+        }
+
+        return new CollectionIndex(isOutdated(data) ? migrateIndex(data) : data);
+    },
+
+    async loadList(listId: string): Promise<CollectionList> {
+        const data = await readFile<CollectionListOptions>(listFileName(listId));
+        if (data === null) {
+            throw new Error(`List "${listId}" is not in the repository`);
+        }
+
+        return openList(data);
+    },
+
+    async loadTrash(): Promise<CollectionTrash> {
+        const data = await readFile<CollectionTrashOptions>(trashFileName());
+        if (data === null) {
+            return new CollectionTrash();
+        }
+
+        return new CollectionTrash(isOutdated(data) ? migrateTrash(data) : data);
+    },
+
+    async saveCollection(state: CollectionState): Promise<void> {
+        await Promise.all(Object.values(state.lists).map(list => writeFile(listFileName(list.id), list.safeJSON)));
+        await writeFile(indexFileName(), state.index.safeJSON);
+        await writeFile(trashFileName(), state.trash.safeJSON);
+
+        scheduleCommit(['saved the whole collection']);
+    },
+
+    async saveIndex(index: CollectionIndex): Promise<void> {
+        await writeFile(indexFileName(), index.safeJSON);
+        scheduleCommit(['updated the list tree']);
+    },
+
+    async saveList(list: CollectionList): Promise<void> {
+        const previous = await readFile<CollectionListOptions>(listFileName(list.id));
+        const current = list.safeJSON;
+
+        await writeFile(listFileName(list.id), current);
+        scheduleCommit(describeListChanges(previous, current));
+    },
+
+    async saveTrash(trash: CollectionTrash): Promise<void> {
+        await writeFile(trashFileName(), trash.safeJSON);
+        scheduleCommit(['updated the trash']);
+    },
+
+    async deleteList(listId: string): Promise<void> {
+        const previous = await readFile<CollectionListOptions>(listFileName(listId));
+        if (previous === null) {
+            return;
+        }
+
+        await new Promise<void>((resolve, reject) =>
+            fs.unlink(path.join(repositoryFolderName(), listFileName(listId)), error =>
+                error && error.code !== 'ENOENT' ? reject(error) : resolve()
+            )
+        );
+
+        scheduleCommit([`deleted list '${previous.name || CollectionList.DEFAULT_NAME}'`]);
+    },
+
+    getListIds(): Promise<string[]> {
+        return new Promise<string[]>((resolve, reject) => {
+            fs.readdir(repositoryFolderName(), (error, fileNames) => {
+                if (error) {
+                    return error.code === 'ENOENT' ? resolve([]) : reject(error);
+                }
+
+                resolve(
+                    fileNames
+                        .map(fileName => listFileNamePattern.exec(fileName))
+                        .filter(match => match !== null)
+                        .map(match => match![1])
+                );
+            });
+        });
+    },
+
+    async getListHistory(listId: string): Promise<StorageRevision[]> {
+        await openRepository();
+
+        // a repository without commits has no history
+        if ((await runGit(['rev-list', '--all', '--max-count=1'])).trim() === '') {
+            return [];
+        }
+
+        // commits deleting the list have no version of it to restore
+        const log = await runGit(['log', '--diff-filter=AM', logFormat, '--', listFileName(listId)]);
+
+        return log
+            .split('\n')
+            .filter(line => line !== '')
+            .map(line => {
+                const [id, date, message] = line.split('\x1f');
+                return { id, date: parseInt(date, 10) * 1000, message };
+            });
+    },
+
+    async loadListRevision(revisionId: string, listId: string): Promise<CollectionList> {
+        await openRepository();
+
+        const data = await runGit(['show', `${revisionId}:${listFileName(listId)}`]);
+        return openList(decryptPayload<CollectionListOptions>(JSON.parse(data)));
+    },
+
+    /**
+     * Replaces the history with a single commit of the current files, and prunes the objects of the earlier commits,
+     * so they cannot be read from the repository anymore.
+     *
+     * @returns {Promise<void>}
+     */
+    async clearHistory(): Promise<void> {
+        // the writes waiting for a commit go into the single commit left
+        if (commitTimeout !== null) {
+            clearTimeout(commitTimeout);
+            commitTimeout = null;
+        }
+
+        pendingMessages = [];
+        await committing;
+        await openRepository();
+
+        const branch = (await runGit(['symbolic-ref', '--short', 'HEAD'])).trim();
+
+        await runGit(['checkout', '-q', '--orphan', 'wordpouch-cleared-history']);
+        await runGit(['add', '-A']);
+        await runGit([...commitIdentity, 'commit', '-q', '--allow-empty', '-m', 'removed the earlier versions of the collection']);
+        await runGit(['branch', '-M', branch]);
+
+        await runGit(['reflog', 'expire', '--expire=now', '--all']);
+        await runGit(['gc', '-q', '--prune=now']);
+    }
+};
+
+export default gitStorage;
@@ -1,10 +1,97 @@
 import local from './local';
+import sqlite from './sqlite';
+import gitStorage from './git';
 import Storage from './interface';
+import { registerStorage, getActiveStorage } from './registry';
+import { WriteQueue } from './write-queue';
 
-const storageOptions: Storage[] = [local];
-const selectedStorageId: string = 'local';
+registerStorage(local);
+registerStorage(sqlite);
+registerStorage(gitStorage);
 
-// TODO: find out how to switch storage options on the fly
-export default storageOptions.find(
-    storageOption => storageOption.id === selectedStorageId
-) as Storage;
+export * from './interface';
+export * from './profiles';
+export * from './encryption';
+export * from './registry';
+export * from './transfer';
+export * from './snapshots';
+export * from './bundle';
+export * from './write-queue';
+
+export { rewriteBackups } from './local';
+
+/**
+ * Queue all the collection writes go through, so bursts of edits are coalesced and failed writes are retried and reported.
+ */
+export const writeQueue = new WriteQueue();
+
+/**
+ * Forwards all the calls to the storage backend currently selected in the settings,
+ * so the backend can be switched on the fly without reloading the modules holding onto the storage.
+ */
+const activeStorage: Storage = {
+    get id() {
+        return getActiveStorage().id;
+    },
+
+    get name() {
+        return getActiveStorage().name;
+    },
+
+    get supportsEncryption() {
+        return getActiveStorage().supportsEncryption;
+    },
+
+    get supportsHistory() {
+        return getActiveStorage().supportsHistory;
+    },
+
+    hasCollection: () => getActiveStorage().hasCollection(),
+
+    loadCollection: () => getActiveStorage().loadCollection(),
+    loadCollectionSummary: () => {
+        const storage = getActiveStorage();
+        return storage.loadCollectionSummary !== undefined ? storage.loadCollectionSummary() : storage.loadCollection();
+    },
+    loadIndex: () => getActiveStorage().loadIndex(),
+    loadList: listId => getActiveStorage().loadList(listId),
+    loadTrash: () => getActiveStorage().loadTrash(),
+
+    saveCollection: state => getActiveStorage().saveCollection(state),
+    saveIndex: index => getActiveStorage().saveIndex(index),
+    saveList: list => getActiveStorage().saveList(list),
+    saveTrash: trash => getActiveStorage().saveTrash(trash),
+
+    deleteList: listId => getActiveStorage().deleteList(listId),
+    getListIds: () => getActiveStorage().getListIds(),
+
+    watch: onChange => {
+        const storage = getActiveStorage();
+
+        // backends which cannot detect outside changes never report any
+        return storage.watch !== undefined ? storage.watch(onChange) : () => {};
+    },
+
+    getListHistory: listId => {
+        const storage = getActiveStorage();
+        return storage.getListHistory !== undefined ? storage.getListHistory(listId) : Promise.resolve([]);
+    },
+
+    loadListRevision: (revisionId, listId) => {
+        const storage = getActiveStorage();
+        if (storage.loadListRevision === undefined) {
+            return Promise.reject(new Error(`"${storage.name}" does not keep past versions`));
+        }
+
+        return storage.loadListRevision(revisionId, listId);
+    },
+
+    clearHistory: () => {
+        const storage = getActiveStorage();
+
+        // backends without history have nothing to remove
+        return storage.clearHistory !== undefined ? storage.clearHistory() : Promise.resolve();
+    }
+};
+
+export default activeStorage;
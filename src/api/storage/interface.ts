@@ -1,17 +1,137 @@
-import { CollectionState, CollectionIndex, CollectionList, CollectionTree } from './../../store/modules/collection';
+import { CollectionState, CollectionIndex, CollectionList, CollectionTree, CollectionTrash } from './../../store/modules/collection';
+
+/**
+ * A change made to the stored collection outside the app.
+ *
+ * @export
+ * @interface StorageChange
+ */
+export interface StorageChange {
+    type: 'index' | 'list' | 'trash';
+    listId?: string;
+
+    /**
+     * `true` if the stored index, list or trash was removed.
+     *
+     * @type {boolean}
+     * @memberof StorageChange
+     */
+    removed: boolean;
+}
+
+/**
+ * A past version of the stored collection kept by a versioned backend.
+ *
+ * @export
+ * @interface StorageRevision
+ */
+export interface StorageRevision {
+    id: string;
+    date: number;
+
+    /**
+     * Description of the changes made in this version, for example, "added 'obdurate' to GRE".
+     *
+     * @type {string}
+     * @memberof StorageRevision
+     */
+    message: string;
+}
 
 export default interface Storage {
     id: string;
 
+    /**
+     * Human-readable name of the storage backend shown in the settings.
+     *
+     * @type {string}
+     * @memberof Storage
+     */
+    name: string;
+
+    /**
+     * `true` if the backend writes through the encryption layer, so the collection can be encrypted at rest.
+     *
+     * @type {boolean}
+     * @memberof Storage
+     */
+    supportsEncryption: boolean;
+
+    /**
+     * `true` if the backend keeps past versions of the lists, which can be listed with `getListHistory`.
+     *
+     * @type {boolean}
+     * @memberof Storage
+     */
+    supportsHistory: boolean;
+
     hasCollection(): Promise<boolean>;
 
     loadCollection(): Promise<CollectionState>;
+
+    /**
+     * Loads the index, the trash and the summaries of the lists (see `CollectionList.fromSummary`) without the words,
+     * which are loaded with `loadList` once each list is needed. Optional; backends without it load the whole collection.
+     *
+     * @returns {Promise<CollectionState>}
+     * @memberof Storage
+     */
+    loadCollectionSummary?(): Promise<CollectionState>;
+
     loadIndex(): Promise<CollectionIndex>;
     loadList(listId: string): Promise<CollectionList>;
+    loadTrash(): Promise<CollectionTrash>;
 
     saveCollection(state: CollectionState): Promise<void>;
     saveIndex(index: CollectionIndex): Promise<void>;
     saveList(list: CollectionList): Promise<void>;
+    saveTrash(trash: CollectionTrash): Promise<void>;
 
     deleteList(listId: string): Promise<void>;
+
+    /**
+     * Returns ids of all the stored lists, including lists the index does not refer to.
+     *
+     * @returns {Promise<string[]>}
+     * @memberof Storage
+     */
+    getListIds(): Promise<string[]>;
+
+    /**
+     * Starts watching the stored collection for changes made outside the app; the app's own writes are not reported.
+     * Optional, as not every backend can detect outside changes.
+     *
+     * @param {(change: StorageChange) => void} onChange
+     * @returns {() => void} function which stops watching
+     * @memberof Storage
+     */
+    watch?(onChange: (change: StorageChange) => void): () => void;
+
+    /**
+     * Lists the past versions of a list, the most recent first.
+     *
+     * @param {string} listId
+     * @returns {Promise<StorageRevision[]>}
+     * @memberof Storage
+     */
+    getListHistory?(listId: string): Promise<StorageRevision[]>;
+
+    /**
+     * Loads a list as it was in the specified version.
+     *
+     * @param {string} revisionId
+     * @param {string} listId
+     * @returns {Promise<CollectionList>}
+     * @memberof Storage
+     */
+    loadListRevision?(revisionId: string, listId: string): Promise<CollectionList>;
+
+    /**
+     * Removes all the past versions, keeping only the current one; for example, so the versions written before the collection
+     * was encrypted are not left unencrypted.
+     *
+     * @returns {Promise<void>}
+     * @memberof Storage
+     */
+    clearHistory?(): Promise<void>;
 };
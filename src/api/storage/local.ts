@@ -1,7 +1,14 @@
 import jsonStorage from 'electron-json-storage';
-import os from 'os';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
 
-import Storage from './interface';
+import Storage, { StorageChange } from './interface';
+import { makeFolder, makeFoldersSync, writeFileAtomic } from './files';
+import { createSnapshot } from './snapshots';
+import { decryptPayload, encryptPayload } from './encryption';
+import { getActiveProfile, onActiveProfileChange, StorageProfile } from './profiles';
+import { getSchemaVersion, isOutdated, migrateIndex, migrateList, migrateTrash } from './migrations';
 import {
     CollectionState,
     CollectionIndex,
@@ -9,10 +16,11 @@ import {
     // CollectionTree,
     CollectionIndexOptions,
     CollectionListOptions,
-    CollectionWord,
     CollectionListMap,
-    CollectionWordOptions,
-    CollectionWordMap
+    CollectionListSummary,
+    CollectionTrash,
+    CollectionTrashOptions,
+    summarizeList
 } from '../../store/modules/collection/index';
 
 /*
@@ -21,8 +29,9 @@ console.log('default path', jsonStorage.getDefaultDataPath());
 console.log('home dir', os.homedir());
 */
 
-// store words in the user folder
-jsonStorage.setDataPath(`${os.homedir()}/Documents/WordPouch/storage`);
+function storageFolderName(profile: StorageProfile): string {
+    return path.join(profile.dataPath, 'storage');
+}
 
 function indexFileName(): string {
     return 'index.json';
@@ -32,8 +41,322 @@ function listFileName(id: string): string {
     return `list-${id}.json`;
 }
 
+function trashFileName(): string {
+    return 'trash.json';
+}
+
+function summariesFileName(): string {
+    return 'summaries.json';
+}
+
+const listFileNamePattern: RegExp = /^list-(.+)\.json$/;
+
+/**
+ * A summary of a list file; it's valid while the file keeps the same modification time and size.
+ */
+interface ListSummaryEntry {
+    mtime: number;
+    size: number;
+    summary: CollectionListSummary;
+}
+
+type ListSummaryMap = { [name: string]: ListSummaryEntry };
+
+// the summaries file is written once no more lists are written for a moment
+const summariesWriteDelay: number = 1000;
+
+/**
+ * Hashes of the data last written by the app into each storage file, used to tell the app's own writes from outside changes;
+ * an empty string marks a file removed by the app.
+ */
+let writtenHashes: { [fileName: string]: string } = {};
+
+// summaries of the list files, kept up to date with the app's own writes and saved into the summaries file
+let summaries: ListSummaryMap = {};
+let summariesTimeout: ReturnType<typeof setTimeout> | null = null;
+let summariesWrite: Promise<void> = Promise.resolve();
+
+// store words in the data folder of the active profile
+jsonStorage.setDataPath(storageFolderName(getActiveProfile()));
+
+onActiveProfileChange(profile => {
+    jsonStorage.setDataPath(storageFolderName(profile));
+    writtenHashes = {};
+    summaries = {};
+});
+
+function hash(data: string): string {
+    return crypto
+        .createHash('sha1')
+        .update(data)
+        .digest('hex');
+}
+
+function backupFolderName(version: number): string {
+    return path.join(jsonStorage.getDataPath(), 'backups', `v${version}`);
+}
+
+/**
+ * Copies a storage file into the backup folder of its schema version before the file is upgraded; the copy is encrypted
+ * if the encryption is on. An existing backup is never overwritten, so the folder always holds the file as it was
+ * before the first upgrade attempt.
+ *
+ * @param {string} fileName
+ * @param {number} version
+ * @returns {Promise<void>}
+ */
+async function backupFile(fileName: string, version: number): Promise<void> {
+    const folderName = backupFolderName(version);
+
+    await makeFolder(path.dirname(folderName));
+    await makeFolder(folderName);
+
+    const data = await readBackupFile(path.join(jsonStorage.getDataPath(), fileName));
+
+    await new Promise<void>((resolve, reject) => {
+        fs.writeFile(path.join(folderName, fileName), JSON.stringify(encryptPayload(data)), { flag: 'wx' }, error =>
+            error && error.code !== 'EEXIST' ? reject(error) : resolve()
+        );
+    });
+}
+
+function readBackupFile(filePath: string): Promise<object> {
+    return new Promise<object>((resolve, reject) => {
+        fs.readFile(filePath, 'utf8', (error, data) => {
+            if (error) {
+                return reject(error);
+            }
+
+            try {
+                resolve(decryptPayload<object>(JSON.parse(data)));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+/**
+ * Writes all the migration backups again, so they are encrypted or decrypted after the encryption is turned on or off.
+ *
+ * @export
+ * @returns {Promise<void>}
+ */
+export async function rewriteBackups(): Promise<void> {
+    const backupsFolderName = path.dirname(backupFolderName(0));
+
+    // a missing folder has no backups
+    const readFolder = (folderName: string) =>
+        new Promise<string[]>((resolve, reject) =>
+            fs.readdir(folderName, (error, names) => {
+                if (error) {
+                    return error.code === 'ENOENT' ? resolve([]) : reject(error);
+                }
+
+                resolve(names);
+            })
+        );
+
+    for (const versionFolder of await readFolder(backupsFolderName)) {
+        const folderName = path.join(backupsFolderName, versionFolder);
+        const fileNames = (await readFolder(folderName)).filter(fileName => path.extname(fileName) === '.json');
+
+        for (const fileName of fileNames) {
+            const data = await readBackupFile(path.join(folderName, fileName));
+            await writeFileAtomic(path.join(folderName, fileName), JSON.stringify(encryptPayload(data)));
+        }
+    }
+}
+
+function writeFile(fileName: string, json: object): Promise<void> {
+    const data = JSON.stringify(encryptPayload(json));
+
+    // recorded before the write, as the watcher can be notified before the write resolves
+    writtenHashes[fileName] = hash(data);
+
+    return makeFolder(jsonStorage.getDataPath()).then(() => writeFileAtomic(path.join(jsonStorage.getDataPath(), fileName), data));
+}
+
+/**
+ * Converts a storage file name into a change, or returns `null` for files which are not part of the collection.
+ *
+ * @param {string} fileName
+ * @param {boolean} removed
+ * @returns {(StorageChange | null)}
+ */
+function fileNameToChange(fileName: string, removed: boolean): StorageChange | null {
+    if (fileName === indexFileName()) {
+        return { type: 'index', removed };
+    }
+
+    if (fileName === trashFileName()) {
+        return { type: 'trash', removed };
+    }
+
+    const match = listFileNamePattern.exec(fileName);
+    return match !== null ? { type: 'list', listId: match[1], removed } : null;
+}
+
+function readFile<T>(fileName: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        jsonStorage.get(fileName, (error, json) => {
+            if (error) {
+                return reject(error);
+            }
+
+            try {
+                resolve(decryptPayload<T>(json));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+function statFile(fileName: string): Promise<fs.Stats | null> {
+    return new Promise<fs.Stats | null>((resolve, reject) => {
+        fs.stat(path.join(jsonStorage.getDataPath(), fileName), (error, stats) => {
+            if (error) {
+                return error.code === 'ENOENT' ? resolve(null) : reject(error);
+            }
+
+            resolve(stats);
+        });
+    });
+}
+
+/**
+ * Returns the cached summary of the list if the list file has not changed since; otherwise, reads the list file to summarize it.
+ * Resolves to `null` if the list file needs to be upgraded.
+ *
+ * @param {string} listId
+ * @param {ListSummaryEntry} [cached]
+ * @returns {(Promise<ListSummaryEntry | null>)}
+ */
+async function readSummary(listId: string, cached?: ListSummaryEntry): Promise<ListSummaryEntry | null> {
+    const stats = await statFile(listFileName(listId));
+
+    const isUnchanged = cached !== undefined && stats !== null && cached.mtime === stats.mtime.getTime() && cached.size === stats.size;
+    if (isUnchanged && !isOutdated(cached!.summary.list)) {
+        return cached!;
+    }
+
+    const data = await readFile<CollectionListOptions>(listFileName(listId));
+    if (isOutdated(data)) {
+        return null;
+    }
+
+    return { mtime: stats ? stats.mtime.getTime() : 0, size: stats ? stats.size : 0, summary: summarizeList(data) };
+}
+
+/**
+ * Records the summary of the list just written, or removes the summary of a removed list.
+ *
+ * @param {string} listId
+ * @param {(CollectionListOptions | null)} data
+ * @returns {Promise<void>}
+ */
+async function updateSummary(listId: string, data: CollectionListOptions | null): Promise<void> {
+    const map = summaries;
+    const stats = data !== null ? await statFile(listFileName(listId)) : null;
+
+    // the profile was switched or the summaries were read again in the meantime
+    if (map !== summaries) {
+        return;
+    }
+
+    if (data === null || stats === null) {
+        delete summaries[listId];
+    } else {
+        summaries[listId] = { mtime: stats.mtime.getTime(), size: stats.size, summary: summarizeList(data) };
+    }
+
+    scheduleSummariesWrite();
+}
+
+function scheduleSummariesWrite(): void {
+    if (summariesTimeout !== null) {
+        clearTimeout(summariesTimeout);
+    }
+
+    summariesTimeout = setTimeout(() => {
+        writeSummaries().catch(error => console.error('cannot write the list summaries', error));
+    }, summariesWriteDelay);
+}
+
+/**
+ * Writes the summaries file right away; the writes are made one at a time, as they go to the same file.
+ *
+ * @returns {Promise<void>}
+ */
+function writeSummaries(): Promise<void> {
+    if (summariesTimeout !== null) {
+        clearTimeout(summariesTimeout);
+        summariesTimeout = null;
+    }
+
+    const map = summaries;
+    summariesWrite = summariesWrite.catch(() => {}).then(() => writeFile(summariesFileName(), map));
+
+    return summariesWrite;
+}
+
+/**
+ * Reads the trash file; collections created before the trash was introduced have no trash file and get an empty trash.
+ *
+ * @returns {Promise<CollectionTrashOptions>}
+ */
+async function readTrashFile(): Promise<CollectionTrashOptions> {
+    const hasTrash = await new Promise<boolean>((resolve, reject) => {
+        jsonStorage.has(trashFileName(), (error, hasKey) => resolve(hasKey));
+    });
+
+    return hasTrash ? readFile<CollectionTrashOptions>(trashFileName()) : new CollectionTrash().safeJSON;
+}
+
+async function openIndex(data: CollectionIndexOptions): Promise<CollectionIndex> {
+    if (!isOutdated(data)) {
+        return new CollectionIndex(data);
+    }
+
+    // upgrade the file on disk right away so the backup is taken only once
+    await backupFile(indexFileName(), getSchemaVersion(data));
+    const index = new CollectionIndex(migrateIndex(data));
+    await local.saveIndex(index);
+
+    return index;
+}
+
+async function openList(listId: string, data: CollectionListOptions): Promise<CollectionList> {
+    if (!isOutdated(data)) {
+        // convert word dictionary into a proper Map of CollectionWord object
+        return CollectionList.fromJSON(data);
+    }
+
+    await backupFile(listFileName(listId), getSchemaVersion(data));
+    const list = CollectionList.fromJSON(migrateList(data));
+    await local.saveList(list);
+
+    return list;
+}
+
+async function openTrash(data: CollectionTrashOptions): Promise<CollectionTrash> {
+    if (!isOutdated(data)) {
+        return new CollectionTrash(data);
+    }
+
+    await backupFile(trashFileName(), getSchemaVersion(data));
+    const trash = new CollectionTrash(migrateTrash(data));
+    await local.saveTrash(trash);
+
+    return trash;
+}
+
 const local: Storage = {
     id: 'local',
+    name: 'Local files',
+    supportsEncryption: true,
+    supportsHistory: false,
 
     hasCollection() {
         const promise = new Promise<boolean>((resolve, reject) => {
@@ -45,20 +368,89 @@ const local: Storage = {
         return promise;
     },
 
+    /**
+     * Loads the index, all the lists and the trash. If any of the files needs to be upgraded to the current schema,
+     * a snapshot of the whole collection is taken first, so the collection can be restored as a whole if the upgrade goes wrong.
+     *
+     * @returns {Promise<CollectionState>}
+     */
     async loadCollection(): Promise<CollectionState> {
-        const index = await this.loadIndex();
+        const indexData = await readFile<CollectionIndexOptions>(indexFileName());
+
+        // lists missing from the storage are left out; the integrity check reports the index referring to them
+        const storedListIds = await local.getListIds();
+        const listIds = new CollectionIndex(indexData).flatTree.filter(listId => storedListIds.includes(listId));
+        const listData = await Promise.all(listIds.map(listId => readFile<CollectionListOptions>(listFileName(listId))));
+
+        const trashData = await readTrashFile();
 
-        const listPromises = index.flatTree.map(listId => this.loadList(listId));
+        if ([indexData, ...listData, trashData].some(data => isOutdated(data))) {
+            await createSnapshot({ index: indexData, lists: listData, trash: trashData }, 'migration');
+        }
 
-        const listArray = await Promise.all(listPromises);
+        const index = await openIndex(indexData);
+
+        const listArray = await Promise.all(listData.map((data, position) => openList(listIds[position], data)));
         const lists: CollectionListMap = listArray.reduce((map: CollectionListMap, list) => {
             map[list.id] = list;
             return map;
         }, {});
 
-        return new CollectionState({ index, lists });
+        const trash = await openTrash(trashData);
+
+        return new CollectionState({ index, lists, trash });
     },
 
+    /**
+     * Loads the index, the trash and the list summaries from the summaries file. Lists changed since they were summarized,
+     * for example, by a file sync client, are read to summarize them again. If any of the files needs to be upgraded,
+     * the whole collection is loaded instead, so the migration snapshot covers all of it.
+     *
+     * @returns {Promise<CollectionState>}
+     */
+    async loadCollectionSummary(): Promise<CollectionState> {
+        const indexData = await readFile<CollectionIndexOptions>(indexFileName());
+        const trashData = await readTrashFile();
+
+        if (isOutdated(indexData) || isOutdated(trashData)) {
+            return local.loadCollection();
+        }
+
+        // a damaged summaries file is rebuilt from the list files
+        const cache = await readFile<ListSummaryMap>(summariesFileName()).catch(() => ({} as ListSummaryMap));
+
+        const storedListIds = await local.getListIds();
+        const listIds = new CollectionIndex(indexData).flatTree.filter(listId => storedListIds.includes(listId));
+        const entries = await Promise.all(listIds.map(listId => readSummary(listId, cache[listId])));
+
+        if (entries.some(entry => entry === null)) {
+            return local.loadCollection();
+        }
+
+        summaries = entries.reduce((map: ListSummaryMap, entry, position) => {
+            map[listIds[position]] = entry!;
+            return map;
+        }, {});
+
+        if (entries.some((entry, position) => entry !== cache[listIds[position]])) {
+            scheduleSummariesWrite();
+        }
+
+        const lists: CollectionListMap = entries.reduce((map: CollectionListMap, entry) => {
+            const list = CollectionList.fromSummary(entry!.summary);
+            map[list.id] = list;
+            return map;
+        }, {});
+
+        return new CollectionState({ index: new CollectionIndex(indexData), lists, trash: new CollectionTrash(trashData) });
+    },
+
+    /**
+     * Writes all the files; the summaries file is written right away as well, for example, to be encrypted along with the lists.
+     *
+     * @param {CollectionState} state
+     * @returns {Promise<void>}
+     */
     saveCollection(state: CollectionState): Promise<void> {
         /* const promises: Promise<void>[] = Array.from(state.lists.values()).map(
             (list: CollectionList) => local.saveList(list)
@@ -67,33 +459,24 @@ const local: Storage = {
         const promises: Promise<void>[] = Object.values(state.lists).map((list: CollectionList) => local.saveList(list));
 
         promises.push(local.saveIndex(state.index));
+        promises.push(local.saveTrash(state.trash));
 
-        // TODO: handle errors
-        return Promise.all(promises).then(() => Promise.resolve());
+        return Promise.all(promises).then(() => writeSummaries());
     },
 
     saveIndex(index: CollectionIndex): Promise<void> {
-        const promise = new Promise<void>((resolve, reject) => {
-            jsonStorage.set(indexFileName(), index.safeJSON, error => {
-                // TODO: handle errors
-                resolve();
-            });
-        });
-
-        return promise;
+        return writeFile(indexFileName(), index.safeJSON);
     },
 
-    saveList(list: CollectionList): Promise<void> {
-        const promise = new Promise<void>((resolve, reject) => {
-            jsonStorage.set(listFileName(list.id), list.safeJSON, error => {
-                // TODO: handle errors
-                console.log('save list', list.id, list.safeJSON);
+    async saveList(list: CollectionList): Promise<void> {
+        const data = list.safeJSON;
 
-                resolve();
-            });
-        });
+        await writeFile(listFileName(list.id), data);
+        await updateSummary(list.id, data);
+    },
 
-        return promise;
+    saveTrash(trash: CollectionTrash): Promise<void> {
+        return writeFile(trashFileName(), trash.safeJSON);
     },
 
     /**
@@ -101,33 +484,16 @@ const local: Storage = {
      *
      * @returns {Promise<CollectionIndex>} collection index
      */
-    loadIndex(): Promise<CollectionIndex> {
-        // TODO: handle errors
-        const promise = new Promise<CollectionIndex>((resolve, reject) => {
-            jsonStorage.get(indexFileName(), (error, data: CollectionIndexOptions) => resolve(new CollectionIndex(data)));
-        });
-
-        return promise;
+    async loadIndex(): Promise<CollectionIndex> {
+        return openIndex(await readFile<CollectionIndexOptions>(indexFileName()));
     },
 
-    loadList(listId: string): Promise<CollectionList> {
-        const promise = new Promise<CollectionList>((resolve, reject) => {
-            jsonStorage.get(listFileName(listId), (error, data: CollectionListOptions) => {
-                // convert word dictionary into a proper Map of CollectionWord object
-                // type words in the dictionary
-
-                data.words = Object.values(data.words!).reduce((map: CollectionWordMap, wordOptions: CollectionWordOptions) => {
-                    const word = new CollectionWord(wordOptions);
-                    map[word.id] = word;
-                    return map;
-                }, {});
-
-                // TODO: handle errors
-                resolve(new CollectionList(data));
-            });
-        });
+    async loadList(listId: string): Promise<CollectionList> {
+        return openList(listId, await readFile<CollectionListOptions>(listFileName(listId)));
+    },
 
-        return promise;
+    async loadTrash(): Promise<CollectionTrash> {
+        return openTrash(await readTrashFile());
     },
 
     /**
@@ -137,16 +503,87 @@ const local: Storage = {
      * @returns {Promise<void>}
      */
     deleteList(listId: string): Promise<void> {
+        writtenHashes[listFileName(listId)] = '';
+
         const promise = new Promise<void>((resolve, reject) => {
-            jsonStorage.remove(listFileName(listId), error => {
-                // TODO: handle errors
-                console.log('delete list', listId);
+            jsonStorage.remove(listFileName(listId), error => (error ? reject(error) : resolve()));
+        });
 
-                resolve();
+        return promise.then(() => updateSummary(listId, null));
+    },
+
+    getListIds(): Promise<string[]> {
+        return new Promise<string[]>((resolve, reject) => {
+            fs.readdir(jsonStorage.getDataPath(), (error, fileNames) => {
+                if (error) {
+                    return error.code === 'ENOENT' ? resolve([]) : reject(error);
+                }
+
+                resolve(
+                    fileNames
+                        .map(fileName => listFileNamePattern.exec(fileName))
+                        .filter(match => match !== null)
+                        .map(match => match![1])
+                );
             });
         });
+    },
 
-        return promise;
+    /**
+     * Watches the data folder for storage files changed, added or removed by other programs (for example, a file sync client).
+     * Events are debounced per file, as a single save often fires several of them.
+     *
+     * @param {(change: StorageChange) => void} onChange
+     * @returns {() => void}
+     */
+    watch(onChange: (change: StorageChange) => void): () => void {
+        const dataPath = jsonStorage.getDataPath();
+        const timeouts: { [fileName: string]: ReturnType<typeof setTimeout> } = {};
+
+        makeFoldersSync(dataPath);
+
+        const checkFile = (fileName: string): void => {
+            delete timeouts[fileName];
+
+            fs.readFile(path.join(dataPath, fileName), 'utf8', (error, data) => {
+                if (error && error.code !== 'ENOENT') {
+                    console.error('cannot read a changed storage file', fileName, error);
+                    return;
+                }
+
+                const removed = !!error;
+                const fileHash = removed ? '' : hash(data);
+
+                // the app's own write, or a file it has removed itself
+                if (writtenHashes[fileName] === fileHash) {
+                    return;
+                }
+
+                writtenHashes[fileName] = fileHash;
+
+                const change = fileNameToChange(fileName, removed);
+                if (change !== null) {
+                    onChange(change);
+                }
+            });
+        };
+
+        const watcher = fs.watch(dataPath, (eventType, fileName) => {
+            if (!fileName || fileNameToChange(fileName, false) === null) {
+                return;
+            }
+
+            if (timeouts[fileName] !== undefined) {
+                clearTimeout(timeouts[fileName]);
+            }
+
+            timeouts[fileName] = setTimeout(() => checkFile(fileName), 100);
+        });
+
+        return () => {
+            watcher.close();
+            Object.values(timeouts).forEach(timeout => clearTimeout(timeout));
+        };
     }
 };
 
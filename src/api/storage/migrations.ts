@@ -0,0 +1,153 @@
+import {
+    CollectionIndexOptions,
+    CollectionList,
+    CollectionListOptions,
+    CollectionTrashOptions,
+    CollectionWordMap,
+    CollectionWordOptions,
+    SCHEMA_VERSION
+} from '../../store/modules/collection/index';
+
+/**
+ * Files written before the schema was versioned carry no version stamp and are treated as version 1.
+ */
+const INITIAL_VERSION: number = 1;
+
+/**
+ * A single upgrade step of the on-disk schema.
+ * Each step receives the raw JSON of the previous version and returns the raw JSON of its own `version`.
+ *
+ * @interface Migration
+ */
+interface Migration {
+    version: number;
+    index?(data: CollectionIndexOptions): CollectionIndexOptions;
+    list?(data: CollectionListOptions): CollectionListOptions;
+}
+
+/**
+ * Migrations ordered by version. When a field is added to the stored format, bump `SCHEMA_VERSION` and append a step here.
+ */
+const migrations: Migration[] = [
+    {
+        // words gain tags and review data, lists gain a smart list query
+        version: 2,
+        list(data) {
+            Object.values(data.words || {}).forEach((word: CollectionWordOptions) => {
+                word.tags = word.tags || [];
+                word.review = word.review || {};
+            });
+
+            data.query = data.query || null;
+
+            return data;
+        }
+    },
+    {
+        // sort settings are honoured; no list was actually sorted before, so lists keep their insertion order
+        version: 3,
+        list(data) {
+            data.sortBy = 'manual';
+
+            return data;
+        }
+    },
+    {
+        // words gain a change history; existing words start it with the list they were found in
+        version: 4,
+        list(data) {
+            Object.values(data.words || {}).forEach((word: CollectionWordOptions) => {
+                word.history = word.history || [
+                    {
+                        type: 'add',
+                        date: word.dateAdded || data.dateCreated || Date.now(),
+                        list: { id: data.id!, name: data.name || CollectionList.DEFAULT_NAME }
+                    }
+                ];
+            });
+
+            return data;
+        }
+    }
+];
+
+/**
+ * Returns the schema version of a stored index or list file.
+ *
+ * @export
+ * @param {({ version?: number })} data
+ * @returns {number}
+ */
+export function getSchemaVersion(data: { version?: number }): number {
+    return data.version || INITIAL_VERSION;
+}
+
+/**
+ * Checks if a stored file needs to be upgraded before it can be loaded.
+ * Throws if the file was written by a newer version of the app, as loading it could silently drop unknown fields.
+ *
+ * @export
+ * @param {({ version?: number })} data
+ * @returns {boolean}
+ */
+export function isOutdated(data: { version?: number }): boolean {
+    const version = getSchemaVersion(data);
+
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`Collection file has schema version ${version}, but only versions up to ${SCHEMA_VERSION} are supported.`);
+    }
+
+    return version < SCHEMA_VERSION;
+}
+
+export function migrateIndex(data: CollectionIndexOptions): CollectionIndexOptions {
+    return migrate(data, 'index');
+}
+
+export function migrateList(data: CollectionListOptions): CollectionListOptions {
+    return migrate(data, 'list');
+}
+
+/**
+ * Upgrades the trash file. Trash items embed whole lists and words, so they are run through the list migrations.
+ *
+ * @export
+ * @param {CollectionTrashOptions} data
+ * @returns {CollectionTrashOptions}
+ */
+export function migrateTrash(data: CollectionTrashOptions): CollectionTrashOptions {
+    const version = getSchemaVersion(data);
+
+    (data.items || []).forEach(item => {
+        if (item.lists) {
+            item.lists = item.lists.map(list => migrate({ ...list, version }, 'list'));
+        }
+
+        if (item.word) {
+            // wrap the word into the list it was deleted from, so it goes through the same migration steps as the words in the list files
+            // and its history starts with that list; the list name is not kept in the trash, so the default name is recorded
+            const wordId = item.word.id!;
+            const list = migrate({ version, id: item.parentId || undefined, words: { [wordId]: item.word } as CollectionWordMap }, 'list');
+            item.word = list.words![wordId];
+        }
+    });
+
+    data.version = SCHEMA_VERSION;
+
+    return data;
+}
+
+function migrate<T extends CollectionIndexOptions | CollectionListOptions>(data: T, kind: 'index' | 'list'): T {
+    const version = getSchemaVersion(data);
+
+    const result = migrations
+        .filter(migration => migration.version > version)
+        .reduce((current, migration) => {
+            const step = migration[kind] as ((data: T) => T) | undefined;
+            return step ? step(current) : current;
+        }, data);
+
+    result.version = SCHEMA_VERSION;
+
+    return result;
+}
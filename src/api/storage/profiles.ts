@@ -0,0 +1,132 @@
+import os from 'os';
+import path from 'path';
+import uniqid from 'uniqid';
+
+import { profilesSetting, profileIdSetting } from '@/settings';
+
+/**
+ * A named collection with its own data folder, for example, one collection per language being learned.
+ */
+export interface StorageProfile {
+    id: string;
+    name: string;
+
+    /**
+     * Folder holding the collection files, its SQLite database and its snapshots.
+     *
+     * @type {string}
+     * @memberof StorageProfile
+     */
+    dataPath: string;
+}
+
+// the collection created before profiles were introduced stays in its original folder
+const defaultProfile: StorageProfile = {
+    id: 'default',
+    name: 'My collection',
+    dataPath: path.join(os.homedir(), 'Documents', 'WordPouch')
+};
+
+const listeners: ((profile: StorageProfile) => void)[] = [];
+
+function saveProfiles(profiles: StorageProfile[]): void {
+    profilesSetting.set(JSON.stringify(profiles));
+}
+
+/**
+ * Lists all the profiles in the order they were added. There is always at least one profile.
+ *
+ * @export
+ * @returns {StorageProfile[]}
+ */
+export function getProfiles(): StorageProfile[] {
+    let profiles: StorageProfile[] = [];
+
+    try {
+        profiles = JSON.parse(profilesSetting.get());
+    } catch (error) {
+        console.error('cannot read the profiles', error);
+    }
+
+    return profiles.length !== 0 ? profiles : [defaultProfile];
+}
+
+export function getProfile(profileId: string): StorageProfile | undefined {
+    return getProfiles().find(profile => profile.id === profileId);
+}
+
+/**
+ * Returns the last opened profile; falls back to the first profile if the last opened one was removed from the settings.
+ *
+ * @export
+ * @returns {StorageProfile}
+ */
+export function getActiveProfile(): StorageProfile {
+    return getProfile(profileIdSetting.get()) || getProfiles()[0];
+}
+
+/**
+ * Makes the profile active and notifies the storage backends, so they read from and write to the profile's data folder.
+ *
+ * @export
+ * @param {string} profileId
+ */
+export function setActiveProfile(profileId: string): void {
+    const profile = getProfile(profileId);
+    if (profile === undefined) {
+        throw new Error(`Profile "${profileId}" does not exist`);
+    }
+
+    profileIdSetting.set(profile.id);
+    listeners.forEach(listener => listener(profile));
+}
+
+/**
+ * Adds a profile using the specified data folder; the folder may already hold a collection, for example, one shared by a team.
+ *
+ * @export
+ * @param {string} name
+ * @param {string} dataPath
+ * @returns {StorageProfile}
+ */
+export function addProfile(name: string, dataPath: string): StorageProfile {
+    const profiles = getProfiles();
+    const resolvedPath = path.resolve(dataPath);
+
+    const existing = profiles.find(profile => profile.dataPath === resolvedPath);
+    if (existing !== undefined) {
+        throw new Error(`The folder is already used by "${existing.name}"`);
+    }
+
+    const profile: StorageProfile = { id: uniqid.time(), name, dataPath: resolvedPath };
+    saveProfiles([...profiles, profile]);
+
+    return profile;
+}
+
+export function renameProfile(profileId: string, name: string): void {
+    saveProfiles(getProfiles().map(profile => (profile.id === profileId ? { ...profile, name } : profile)));
+}
+
+/**
+ * Suggests a data folder for a new profile, next to the default collection folder.
+ *
+ * @export
+ * @param {string} name
+ * @returns {string}
+ */
+export function getDefaultProfilePath(name: string): string {
+    const folderName = name.replace(/[^\w\- ]+/g, '').trim() || 'collection';
+
+    return path.join(defaultProfile.dataPath, 'profiles', folderName);
+}
+
+/**
+ * Registers a function called whenever another profile is made active.
+ *
+ * @export
+ * @param {(profile: StorageProfile) => void} listener
+ */
+export function onActiveProfileChange(listener: (profile: StorageProfile) => void): void {
+    listeners.push(listener);
+}
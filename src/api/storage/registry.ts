@@ -0,0 +1,50 @@
+import Storage from './interface';
+import { storageIdSetting } from '@/settings';
+
+const storages: Storage[] = [];
+
+/**
+ * Makes a storage backend available for selection. Backends are listed in the order they are registered.
+ *
+ * @export
+ * @param {Storage} storage
+ */
+export function registerStorage(storage: Storage): void {
+    if (getStorage(storage.id) !== undefined) {
+        throw new Error(`Storage "${storage.id}" is already registered`);
+    }
+
+    storages.push(storage);
+}
+
+export function getStorages(): Storage[] {
+    return storages.slice();
+}
+
+export function getStorage(storageId: string): Storage | undefined {
+    return storages.find(storage => storage.id === storageId);
+}
+
+/**
+ * Returns the storage backend selected in the settings.
+ * Falls back to the first registered backend if the selected one is not available (for example, it was removed in a later version).
+ *
+ * @export
+ * @returns {Storage}
+ */
+export function getActiveStorage(): Storage {
+    const storage = getStorage(storageIdSetting.get()) || storages[0];
+    if (storage === undefined) {
+        throw new Error('No storage backends registered');
+    }
+
+    return storage;
+}
+
+export function setActiveStorage(storageId: string): void {
+    if (getStorage(storageId) === undefined) {
+        throw new Error(`Storage "${storageId}" is not registered`);
+    }
+
+    storageIdSetting.set(storageId);
+}
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+
+import { makeFoldersSync, writeFileAtomic } from './files';
+import { getActiveProfile } from './profiles';
+import { decryptPayload, encryptPayload } from './encryption';
+import { isOutdated, migrateIndex, migrateList, migrateTrash } from './migrations';
+import {
+    CollectionState,
+    CollectionIndex,
+    CollectionList,
+    CollectionListMap,
+    CollectionTrash,
+    CollectionIndexOptions,
+    CollectionListOptions,
+    CollectionTrashOptions,
+    SCHEMA_VERSION
+} from '../../store/modules/collection/index';
+
+/**
+ * Why a snapshot was taken: on a schedule, by the user, or before an operation which is hard to undo.
+ */
+export type StorageSnapshotReason =
+    | 'scheduled'
+    | 'manual'
+    | 'migration'
+    | 'delete-list'
+    | 'empty-trash'
+    | 'restore'
+    | 'repair'
+    | 'sync'
+    | 'import';
+
+export interface StorageSnapshotData {
+    index: CollectionIndexOptions;
+    lists: CollectionListOptions[];
+    trash: CollectionTrashOptions;
+}
+
+export interface StorageSnapshotInfo {
+    /**
+     * File name of the snapshot archive.
+     *
+     * @type {string}
+     * @memberof StorageSnapshotInfo
+     */
+    id: string;
+    date: number;
+    reason: StorageSnapshotReason;
+}
+
+export interface StorageSnapshot extends StorageSnapshotInfo, StorageSnapshotData {
+    version: number;
+}
+
+// snapshots are kept with the collection of the active profile
+function snapshotFolderName(): string {
+    return path.join(getActiveProfile().dataPath, 'snapshots');
+}
+
+// date and reason are kept in the file name, so snapshots can be listed without reading the archives
+const snapshotFileNamePattern: RegExp = /^snapshot-(\d+)-([a-z-]+)\.json$/;
+
+function snapshotFileName(date: number, reason: StorageSnapshotReason): string {
+    return `snapshot-${date}-${reason}.json`;
+}
+
+/**
+ * Returns the collection state as plain JSON suitable for a snapshot. Lists not loaded yet are left out,
+ * as their words are only in the storage.
+ *
+ * @export
+ * @param {CollectionState} state
+ * @returns {StorageSnapshotData}
+ */
+export function getSnapshotData(state: CollectionState): StorageSnapshotData {
+    return {
+        index: state.index.safeJSON,
+        lists: Object.values(state.lists)
+            .filter(list => list.isLoaded)
+            .map(list => list.safeJSON),
+        trash: state.trash.safeJSON
+    };
+}
+
+/**
+ * Writes the collection into a new timestamped snapshot archive.
+ *
+ * @export
+ * @param {StorageSnapshotData} data
+ * @param {StorageSnapshotReason} reason
+ * @returns {Promise<StorageSnapshotInfo>}
+ */
+export async function createSnapshot(data: StorageSnapshotData, reason: StorageSnapshotReason): Promise<StorageSnapshotInfo> {
+    makeFoldersSync(snapshotFolderName());
+
+    const date = Date.now();
+    const id = snapshotFileName(date, reason);
+    const snapshot: StorageSnapshot = { version: SCHEMA_VERSION, id, date, reason, ...data };
+
+    await writeFileAtomic(path.join(snapshotFolderName(), id), JSON.stringify(encryptPayload(snapshot)));
+
+    return { id, date, reason };
+}
+
+/**
+ * Lists all the snapshots, the most recent first.
+ *
+ * @export
+ * @returns {Promise<StorageSnapshotInfo[]>}
+ */
+export function listSnapshots(): Promise<StorageSnapshotInfo[]> {
+    return new Promise<StorageSnapshotInfo[]>((resolve, reject) => {
+        fs.readdir(snapshotFolderName(), (error, fileNames) => {
+            if (error) {
+                return error.code === 'ENOENT' ? resolve([]) : reject(error);
+            }
+
+            const snapshots = fileNames
+                .map(fileName => snapshotFileNamePattern.exec(fileName))
+                .filter((match): match is RegExpExecArray => match !== null)
+                .map(([id, date, reason]) => ({ id, date: parseInt(date, 10), reason: reason as StorageSnapshotReason }))
+                .sort((a, b) => b.date - a.date);
+
+            resolve(snapshots);
+        });
+    });
+}
+
+export function loadSnapshot(snapshotId: string): Promise<StorageSnapshot> {
+    return new Promise<StorageSnapshot>((resolve, reject) => {
+        fs.readFile(path.join(snapshotFolderName(), snapshotId), 'utf8', (error, data) => {
+            if (error) {
+                return reject(error);
+            }
+
+            try {
+                resolve(decryptPayload<StorageSnapshot>(JSON.parse(data)));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+export function deleteSnapshot(snapshotId: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.unlink(path.join(snapshotFolderName(), snapshotId), error => (error && error.code !== 'ENOENT' ? reject(error) : resolve()));
+    });
+}
+
+/**
+ * Writes all the snapshots again, so they are encrypted or decrypted after the encryption is turned on or off.
+ *
+ * @export
+ * @returns {Promise<void>}
+ */
+export async function rewriteSnapshots(): Promise<void> {
+    const snapshots = await listSnapshots();
+
+    // one at a time, as each snapshot holds a copy of the whole collection
+    for (const { id } of snapshots) {
+        const snapshot = await loadSnapshot(id);
+        await writeFileAtomic(path.join(snapshotFolderName(), id), JSON.stringify(encryptPayload(snapshot)));
+    }
+}
+
+/**
+ * Deletes the oldest snapshots over the retention limit.
+ *
+ * @export
+ * @param {number} retention number of snapshots to keep; `0` keeps all of them
+ * @returns {Promise<void>}
+ */
+export async function rotateSnapshots(retention: number): Promise<void> {
+    if (retention <= 0) {
+        return;
+    }
+
+    const snapshots = await listSnapshots();
+    await Promise.all(snapshots.slice(retention).map(snapshot => deleteSnapshot(snapshot.id)));
+}
+
+/**
+ * Converts a snapshot into a collection state, upgrading snapshots taken with an older schema.
+ *
+ * @export
+ * @param {StorageSnapshotData} data
+ * @returns {CollectionState}
+ */
+export function snapshotToState(data: StorageSnapshotData): CollectionState {
+    const index = new CollectionIndex(isOutdated(data.index) ? migrateIndex(data.index) : data.index);
+
+    const lists = data.lists.reduce((map: CollectionListMap, listData) => {
+        const list = CollectionList.fromJSON(isOutdated(listData) ? migrateList(listData) : listData);
+        map[list.id] = list;
+        return map;
+    }, {});
+
+    const trash = new CollectionTrash(isOutdated(data.trash) ? migrateTrash(data.trash) : data.trash);
+
+    return new CollectionState({ index, lists, trash });
+}
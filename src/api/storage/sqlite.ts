@@ -0,0 +1,461 @@
+import Database from 'better-sqlite3';
+import path from 'path';
+
+import Storage from './interface';
+import { makeFoldersSync } from './files';
+import { getActiveProfile, onActiveProfileChange } from './profiles';
+import { isOutdated, migrateIndex, migrateList, migrateTrash } from './migrations';
+import {
+    CollectionState,
+    CollectionIndex,
+    CollectionList,
+    CollectionIndexOptions,
+    CollectionListOptions,
+    CollectionListMap,
+    CollectionTrash,
+    CollectionTrashItemOptions,
+    CollectionTree,
+    CollectionTreeOptions,
+    CollectionWordMap,
+    CollectionWordOptions,
+    SCHEMA_VERSION,
+    summarizeList
+} from '../../store/modules/collection/index';
+
+// the collection row holds the index fields; `tree` keeps one row per node of the collection tree
+const schema: string = `
+    CREATE TABLE IF NOT EXISTS collection (
+        id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        default_list_id TEXT,
+        date_created INTEGER NOT NULL,
+        date_modified INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS tree (
+        list_id TEXT PRIMARY KEY,
+        parent_id TEXT,
+        position INTEGER NOT NULL,
+        expanded INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS lists (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        data TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS words (
+        list_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        text TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (list_id, id)
+    );
+
+    CREATE TABLE IF NOT EXISTS trash (
+        id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+`;
+
+interface TreeRow {
+    list_id: string;
+    parent_id: string | null;
+    position: number;
+    expanded: number;
+}
+
+interface TrashRow {
+    version: number;
+    data: string;
+}
+
+interface WordRow {
+    id: string;
+    data: string;
+}
+
+interface ListRow {
+    id: string;
+    data: string;
+}
+
+// serialized words of the lists written in a transaction, to be put into `savedWords` once the transaction is committed
+type WrittenWords = { [listId: string]: { [wordId: string]: string } };
+
+let database: Database.Database | null = null;
+
+/**
+ * Serialized rows of the words as they were last loaded or saved, keyed by list id and word id.
+ * Saving a list compares the words against this cache and writes only the rows that changed.
+ * The cache is updated only after the transaction writing the words is committed, so a rolled back write is repeated by the next save.
+ */
+let savedWords: { [listId: string]: { [wordId: string]: string } } = {};
+
+// each profile has its own database, opened on first use
+onActiveProfileChange(() => {
+    if (database !== null) {
+        database.close();
+        database = null;
+    }
+
+    savedWords = {};
+});
+
+/**
+ * Opens the database file on first use, creating the file and the tables if needed.
+ *
+ * @returns {Database.Database}
+ */
+function getDatabase(): Database.Database {
+    if (database !== null) {
+        return database;
+    }
+
+    const databaseFileName = path.join(getActiveProfile().dataPath, 'collection.sqlite');
+    makeFoldersSync(path.dirname(databaseFileName));
+
+    database = new Database(databaseFileName);
+    database.pragma('journal_mode = WAL');
+    database.exec(schema);
+
+    return database;
+}
+
+function treeToRows(tree: CollectionTreeOptions, parentId: string | null, position: number, rows: TreeRow[] = []): TreeRow[] {
+    rows.push({ list_id: tree.listId!, parent_id: parentId, position, expanded: tree.expanded ? 1 : 0 });
+    (tree.items || []).forEach((item, index) => treeToRows(item, tree.listId!, index, rows));
+
+    return rows;
+}
+
+function rowsToTree(rows: TreeRow[]): CollectionTreeOptions {
+    const root = rows.find(row => row.parent_id === null);
+    if (root === undefined) {
+        return {};
+    }
+
+    const build = (row: TreeRow): CollectionTreeOptions => ({
+        listId: row.list_id,
+        expanded: row.expanded === 1,
+        items: rows
+            .filter(child => child.parent_id === row.list_id)
+            .sort((a, b) => a.position - b.position)
+            .map(build) as CollectionTree[]
+    });
+
+    return build(root);
+}
+
+function readWords(listId: string): { [wordId: string]: string } {
+    const rows: WordRow[] = getDatabase()
+        .prepare('SELECT id, data FROM words WHERE list_id = ?')
+        .all(listId);
+
+    return rows.reduce((map: { [wordId: string]: string }, row) => {
+        map[row.id] = row.data;
+        return map;
+    }, {});
+}
+
+/**
+ * Writes the list row and the words which changed since the list was last loaded or saved; removed words are deleted.
+ * Must be called inside a transaction; the words written are recorded in `written`, not in the cache.
+ *
+ * @param {CollectionList} list
+ * @param {WrittenWords} written
+ */
+function writeList(list: CollectionList, written: WrittenWords): void {
+    const db = getDatabase();
+    const { words, ...data } = list.safeJSON;
+
+    db.prepare('INSERT OR REPLACE INTO lists (id, name, data) VALUES (?, ?, ?)').run(list.id, list.name, JSON.stringify(data));
+
+    const saved = savedWords[list.id] || readWords(list.id);
+    const current: { [wordId: string]: string } = {};
+
+    const upsertWord = db.prepare('INSERT OR REPLACE INTO words (list_id, id, text, data) VALUES (?, ?, ?, ?)');
+    const deleteWord = db.prepare('DELETE FROM words WHERE list_id = ? AND id = ?');
+
+    Object.values(words!).forEach((word: CollectionWordOptions) => {
+        const json = JSON.stringify(word);
+        current[word.id!] = json;
+
+        if (saved[word.id!] !== json) {
+            upsertWord.run(list.id, word.id, word.text || '', json);
+        }
+    });
+
+    Object.keys(saved)
+        .filter(wordId => current[wordId] === undefined)
+        .forEach(wordId => deleteWord.run(list.id, wordId));
+
+    written[list.id] = current;
+}
+
+function writeIndex(index: CollectionIndex): void {
+    const db = getDatabase();
+    const data = index.safeJSON;
+
+    db.prepare('DELETE FROM collection').run();
+    db.prepare('INSERT INTO collection (id, version, default_list_id, date_created, date_modified) VALUES (?, ?, ?, ?, ?)').run(
+        data.id,
+        data.version,
+        data.defaultListId,
+        data.dateCreated,
+        data.dateModified
+    );
+
+    // the tree is small, so it's rewritten as a whole
+    const insertNode = db.prepare('INSERT INTO tree (list_id, parent_id, position, expanded) VALUES (?, ?, ?, ?)');
+
+    db.prepare('DELETE FROM tree').run();
+    treeToRows(data.tree!, null, 0).forEach(row => insertNode.run(row.list_id, row.parent_id, row.position, row.expanded));
+}
+
+/**
+ * Writes the trash items; items never change once created, so only new items are inserted and purged items deleted.
+ *
+ * @param {CollectionTrash} trash
+ */
+function writeTrash(trash: CollectionTrash): void {
+    const db = getDatabase();
+
+    const savedPositions = db
+        .prepare('SELECT id, position FROM trash')
+        .all()
+        .reduce((map: { [id: string]: number }, row: { id: string; position: number }) => {
+            map[row.id] = row.position;
+            return map;
+        }, {});
+    const savedIds = Object.keys(savedPositions);
+    const currentIds = trash.items.map(item => item.id);
+
+    const insertItem = db.prepare('INSERT OR IGNORE INTO trash (id, version, position, data) VALUES (?, ?, ?, ?)');
+    const updatePosition = db.prepare('UPDATE trash SET position = ? WHERE id = ?');
+    const deleteItem = db.prepare('DELETE FROM trash WHERE id = ?');
+
+    // positions are counted from the oldest item, so adding a new item doesn't shift the existing ones
+    trash.items.forEach((item, index) => {
+        const position = trash.items.length - 1 - index;
+
+        if (savedPositions[item.id] === undefined) {
+            insertItem.run(item.id, SCHEMA_VERSION, position, JSON.stringify(item.safeJSON));
+        } else if (savedPositions[item.id] !== position) {
+            updatePosition.run(position, item.id);
+        }
+    });
+
+    savedIds.filter(id => currentIds.indexOf(id) === -1).forEach(id => deleteItem.run(id));
+}
+
+const sqlite: Storage = {
+    id: 'sqlite',
+    name: 'SQLite database',
+    supportsEncryption: false,
+    supportsHistory: false,
+
+    async hasCollection(): Promise<boolean> {
+        return (
+            getDatabase()
+                .prepare('SELECT id FROM collection')
+                .get() !== undefined
+        );
+    },
+
+    async loadCollection(): Promise<CollectionState> {
+        const index = await this.loadIndex();
+
+        // lists missing from the database are left out; the integrity check reports the index referring to them
+        const storedListIds = await this.getListIds();
+        const listIds = index.flatTree.filter(listId => storedListIds.includes(listId));
+
+        const listArray = await Promise.all(listIds.map(listId => this.loadList(listId)));
+        const lists: CollectionListMap = listArray.reduce((map: CollectionListMap, list) => {
+            map[list.id] = list;
+            return map;
+        }, {});
+
+        const trash = await this.loadTrash();
+
+        return new CollectionState({ index, lists, trash });
+    },
+
+    /**
+     * Loads the index, the trash and the list summaries made from the list and word rows. If the index or any of the lists
+     * needs to be upgraded, the whole collection is loaded instead, so the migration covers all of it.
+     *
+     * @returns {Promise<CollectionState>}
+     */
+    async loadCollectionSummary(): Promise<CollectionState> {
+        const db = getDatabase();
+
+        if (isOutdated(db.prepare('SELECT version FROM collection').get())) {
+            return this.loadCollection();
+        }
+
+        const index = await this.loadIndex();
+        const listIds = index.flatTree;
+
+        const listRows: ListRow[] = db.prepare('SELECT id, data FROM lists').all();
+        const listData = listRows.filter(row => listIds.includes(row.id)).map(row => JSON.parse(row.data) as CollectionListOptions);
+
+        if (listData.some(data => isOutdated(data))) {
+            return this.loadCollection();
+        }
+
+        // the words of all the lists are read in one go; they are parsed only to be summarized, the lists are loaded later
+        const wordRows: (WordRow & { list_id: string })[] = db.prepare('SELECT list_id, id, data FROM words').all();
+        const words = wordRows.reduce<{ [listId: string]: CollectionWordMap }>((map, row) => {
+            map[row.list_id] = map[row.list_id] || {};
+            map[row.list_id][row.id] = JSON.parse(row.data);
+            return map;
+        }, {});
+
+        const lists: CollectionListMap = listData.reduce((map: CollectionListMap, data) => {
+            const list = CollectionList.fromSummary(summarizeList({ ...data, words: words[data.id!] || {} }));
+            map[list.id] = list;
+            return map;
+        }, {});
+
+        const trash = await this.loadTrash();
+
+        return new CollectionState({ index, lists, trash });
+    },
+
+    async saveCollection(state: CollectionState): Promise<void> {
+        const written: WrittenWords = {};
+
+        getDatabase().transaction(() => {
+            Object.values(state.lists).forEach(list => writeList(list, written));
+            writeIndex(state.index);
+            writeTrash(state.trash);
+        })();
+
+        Object.assign(savedWords, written);
+    },
+
+    async saveIndex(index: CollectionIndex): Promise<void> {
+        getDatabase().transaction(() => writeIndex(index))();
+    },
+
+    async saveList(list: CollectionList): Promise<void> {
+        const written: WrittenWords = {};
+
+        getDatabase().transaction(() => writeList(list, written))();
+
+        Object.assign(savedWords, written);
+    },
+
+    async saveTrash(trash: CollectionTrash): Promise<void> {
+        getDatabase().transaction(() => writeTrash(trash))();
+    },
+
+    async loadIndex(): Promise<CollectionIndex> {
+        const db = getDatabase();
+        const row = db.prepare('SELECT * FROM collection').get();
+        const treeRows: TreeRow[] = db.prepare('SELECT * FROM tree').all();
+
+        const data: CollectionIndexOptions = {
+            version: row.version,
+            id: row.id,
+            defaultListId: row.default_list_id,
+            tree: rowsToTree(treeRows) as CollectionTree,
+            dateCreated: row.date_created,
+            dateModified: row.date_modified
+        };
+
+        if (!isOutdated(data)) {
+            return new CollectionIndex(data);
+        }
+
+        const index = new CollectionIndex(migrateIndex(data));
+        await this.saveIndex(index);
+
+        return index;
+    },
+
+    /**
+     * Loads a single list with its words; lists are stored independently, so any list can be loaded on demand after the summaries.
+     *
+     * @param {string} listId
+     * @returns {Promise<CollectionList>}
+     */
+    async loadList(listId: string): Promise<CollectionList> {
+        const row = getDatabase()
+            .prepare('SELECT data FROM lists WHERE id = ?')
+            .get(listId);
+
+        if (row === undefined) {
+            throw new Error(`List "${listId}" is not in the database`);
+        }
+
+        const words = readWords(listId);
+        const data: CollectionListOptions = {
+            ...JSON.parse(row.data),
+            words: Object.keys(words).reduce((map: { [wordId: string]: CollectionWordOptions }, wordId) => {
+                map[wordId] = JSON.parse(words[wordId]);
+                return map;
+            }, {}) as CollectionWordMap
+        };
+
+        savedWords[listId] = words;
+
+        if (!isOutdated(data)) {
+            return CollectionList.fromJSON(data);
+        }
+
+        const list = CollectionList.fromJSON(migrateList(data));
+        await this.saveList(list);
+
+        return list;
+    },
+
+    async loadTrash(): Promise<CollectionTrash> {
+        const rows: TrashRow[] = getDatabase()
+            .prepare('SELECT version, data FROM trash ORDER BY position DESC')
+            .all();
+
+        // trash items are stored individually, so each one is upgraded from its own version
+        const items = rows.reduce((items: CollectionTrashItemOptions[], row) => {
+            const data = { version: row.version, items: [JSON.parse(row.data)] };
+            return items.concat((isOutdated(data) ? migrateTrash(data) : data).items!);
+        }, []);
+
+        const trash = new CollectionTrash({ items });
+
+        if (rows.some(row => isOutdated(row))) {
+            // outdated rows are replaced rather than updated, as trash rows are never rewritten once inserted
+            getDatabase()
+                .prepare('DELETE FROM trash')
+                .run();
+            await this.saveTrash(trash);
+        }
+
+        return trash;
+    },
+
+    async deleteList(listId: string): Promise<void> {
+        const db = getDatabase();
+
+        db.transaction(() => {
+            db.prepare('DELETE FROM words WHERE list_id = ?').run(listId);
+            db.prepare('DELETE FROM lists WHERE id = ?').run(listId);
+        })();
+
+        delete savedWords[listId];
+    },
+
+    async getListIds(): Promise<string[]> {
+        const rows: { id: string }[] = getDatabase()
+            .prepare('SELECT id FROM lists')
+            .all();
+
+        return rows.map(row => row.id);
+    }
+};
+
+export default sqlite;
@@ -0,0 +1,122 @@
+import Storage from './interface';
+import { CollectionState } from '@/store/modules/collection';
+
+export interface StorageTransferProgress {
+    /**
+     * Number of completed steps; each list, the trash, the index, the removal of stale lists and the verification count as one step.
+     *
+     * @type {number}
+     * @memberof StorageTransferProgress
+     */
+    done: number;
+    total: number;
+    message: string;
+}
+
+export type StorageTransferCallback = (progress: StorageTransferProgress) => void;
+
+/**
+ * Copies the whole collection from one storage backend into another and checks that the copy reads back identical to the original.
+ * The index is written after all the lists, so an interrupted copy never leaves the target with an index pointing to missing lists.
+ * Lists the target holds from an earlier use but the source does not are removed after the index, so they are not picked up later.
+ *
+ * @export
+ * @param {Storage} source
+ * @param {Storage} target
+ * @param {StorageTransferCallback} [onProgress=() => {}]
+ * @returns {Promise<void>}
+ */
+export async function copyCollection(source: Storage, target: Storage, onProgress: StorageTransferCallback = () => {}): Promise<void> {
+    const state = await source.loadCollection();
+    const lists = Object.values(state.lists);
+
+    // lists, trash, index, stale lists and verification
+    const total = lists.length + 4;
+    let done = 0;
+
+    const report = (message: string) => onProgress({ done, total, message });
+
+    for (const list of lists) {
+        report(`Copying list "${list.name}"`);
+        await target.saveList(list);
+        done++;
+    }
+
+    report('Copying trash');
+    await target.saveTrash(state.trash);
+    done++;
+
+    report('Copying index');
+    await target.saveIndex(state.index);
+    done++;
+
+    report('Removing stale lists');
+    const staleListIds = (await target.getListIds()).filter(listId => state.lists[listId] === undefined);
+    for (const listId of staleListIds) {
+        await target.deleteList(listId);
+    }
+    done++;
+
+    report('Verifying');
+    await verifyCollection(state, target);
+    done++;
+
+    report('Done');
+}
+
+/**
+ * Reads the collection back from the storage and compares it with the expected state.
+ *
+ * @param {CollectionState} expected
+ * @param {Storage} storage
+ * @returns {Promise<void>}
+ */
+async function verifyCollection(expected: CollectionState, storage: Storage): Promise<void> {
+    const actual = await storage.loadCollection();
+
+    const mismatch = (what: string) => new Error(`Verification failed: ${what} in "${storage.name}" differs from the original`);
+
+    if (!isSameJSON(expected.index.safeJSON, actual.index.safeJSON)) {
+        throw mismatch('collection index');
+    }
+
+    if (!isSameJSON(expected.trash.safeJSON, actual.trash.safeJSON)) {
+        throw mismatch('trash');
+    }
+
+    Object.values(expected.lists).forEach(list => {
+        const copy = actual.lists[list.id];
+
+        if (copy === undefined || !isSameJSON(list.safeJSON, copy.safeJSON)) {
+            throw mismatch(`list "${list.name}"`);
+        }
+    });
+}
+
+/**
+ * Compares two JSON values ignoring the order of object keys, since backends are not required to preserve it.
+ *
+ * @param {*} a
+ * @param {*} b
+ * @returns {boolean}
+ */
+function isSameJSON(a: any, b: any): boolean {
+    return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+function sortKeys(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    return Object.keys(value)
+        .sort()
+        .reduce((result: { [key: string]: any }, key) => {
+            result[key] = sortKeys(value[key]);
+            return result;
+        }, {});
+}
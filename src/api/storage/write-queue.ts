@@ -0,0 +1,220 @@
+export interface WriteQueueStatus {
+    /**
+     * Number of writes waiting to be performed, including the one in progress.
+     *
+     * @type {number}
+     * @memberof WriteQueueStatus
+     */
+    pending: number;
+
+    /**
+     * Message of the last write which failed after all the retries; cleared when that write succeeds again.
+     *
+     * @type {(string | null)}
+     * @memberof WriteQueueStatus
+     */
+    error: string | null;
+}
+
+export interface WriteQueueOptions {
+    /**
+     * Time to wait for more writes with the same key before writing, in milliseconds.
+     *
+     * @type {number}
+     * @memberof WriteQueueOptions
+     */
+    delay?: number;
+
+    /**
+     * Number of times a failed write is retried before it's reported.
+     *
+     * @type {number}
+     * @memberof WriteQueueOptions
+     */
+    retries?: number;
+
+    /**
+     * Time to wait before the first retry, in milliseconds; doubled with each subsequent retry.
+     *
+     * @type {number}
+     * @memberof WriteQueueOptions
+     */
+    retryDelay?: number;
+}
+
+type Write = () => Promise<void>;
+
+interface WriteTask {
+    key: string;
+    write: Write;
+    timeout: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Debounces and serializes storage writes. Writes with the same key (for example, saves of the same list) are coalesced,
+ * so a burst of edits results in a single write of the latest state; writes are performed one at a time in the order they became due.
+ * A write which still fails after all the retries is kept and attempted again with the next write of the same key or on `retry()`.
+ *
+ * @export
+ * @class WriteQueue
+ */
+export class WriteQueue {
+    private readonly delay: number;
+    private readonly retries: number;
+    private readonly retryDelay: number;
+
+    private tasks: { [key: string]: WriteTask } = {};
+    private due: WriteTask[] = [];
+    private failed: { [key: string]: WriteTask } = {};
+
+    private running: Promise<void> | null = null;
+    private current: WriteTask | null = null;
+    private error: string | null = null;
+
+    onStatusChange: (status: WriteQueueStatus) => void = () => {};
+
+    constructor(options: WriteQueueOptions = {}) {
+        const { delay = 500, retries = 3, retryDelay = 200 } = options;
+
+        this.delay = delay;
+        this.retries = retries;
+        this.retryDelay = retryDelay;
+    }
+
+    get status(): WriteQueueStatus {
+        const pending = Object.keys(this.tasks).length + this.due.length + (this.running !== null ? 1 : 0);
+
+        return { pending, error: this.error };
+    }
+
+    /**
+     * Checks if a write with the specified key is scheduled, in progress or has failed, meaning the stored data is behind the app's.
+     *
+     * @param {string} key
+     * @returns {boolean}
+     * @memberof WriteQueue
+     */
+    hasPending(key: string): boolean {
+        return (
+            this.tasks[key] !== undefined ||
+            this.failed[key] !== undefined ||
+            (this.current !== null && this.current.key === key) ||
+            this.due.some(task => task.key === key)
+        );
+    }
+
+    /**
+     * Schedules a write. A pending write with the same key is replaced by the new one.
+     *
+     * @param {string} key
+     * @param {Write} write
+     * @memberof WriteQueue
+     */
+    enqueue(key: string, write: Write): void {
+        const existing = this.tasks[key];
+        if (existing !== undefined && existing.timeout !== null) {
+            clearTimeout(existing.timeout);
+        }
+
+        // a newer write supersedes the failed one
+        delete this.failed[key];
+
+        const task: WriteTask = { key, write, timeout: null };
+        task.timeout = setTimeout(() => this.makeDue(task), this.delay);
+
+        this.tasks[key] = task;
+        this.notify();
+    }
+
+    /**
+     * Performs all the scheduled writes right away and resolves when the queue is empty.
+     *
+     * @returns {Promise<void>}
+     * @memberof WriteQueue
+     */
+    async flush(): Promise<void> {
+        Object.values(this.tasks).forEach(task => this.makeDue(task));
+
+        while (this.running !== null) {
+            await this.running;
+        }
+    }
+
+    /**
+     * Schedules again all the writes which failed after all the retries.
+     *
+     * @memberof WriteQueue
+     */
+    retry(): void {
+        const failed = Object.values(this.failed);
+        this.failed = {};
+
+        failed.forEach(task => this.enqueue(task.key, task.write));
+    }
+
+    private makeDue(task: WriteTask): void {
+        if (this.tasks[task.key] !== task) {
+            return;
+        }
+
+        if (task.timeout !== null) {
+            clearTimeout(task.timeout);
+        }
+
+        delete this.tasks[task.key];
+
+        // the same key written again while waiting in line; only the latest write matters
+        this.due = this.due.filter(dueTask => dueTask.key !== task.key);
+        this.due.push(task);
+
+        if (this.running === null) {
+            this.running = this.run();
+        }
+
+        this.notify();
+    }
+
+    private async run(): Promise<void> {
+        while (this.due.length !== 0) {
+            const task = this.due.shift()!;
+            this.current = task;
+
+            try {
+                await this.attempt(task.write);
+
+                if (Object.keys(this.failed).length === 0) {
+                    this.error = null;
+                }
+            } catch (error) {
+                this.failed[task.key] = task;
+                this.error = error.message || String(error);
+
+                console.error('write failed', task.key, error);
+            }
+
+            this.current = null;
+            this.notify();
+        }
+
+        this.running = null;
+        this.notify();
+    }
+
+    private async attempt(write: Write): Promise<void> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await write();
+            } catch (error) {
+                if (attempt >= this.retries) {
+                    throw error;
+                }
+
+                await new Promise(resolve => setTimeout(resolve, this.retryDelay * Math.pow(2, attempt)));
+            }
+        }
+    }
+
+    private notify(): void {
+        this.onStatusChange(this.status);
+    }
+}
@@ -0,0 +1,67 @@
+import { SyncSnapshot } from './merge';
+import { isOutdated, migrateIndex, migrateList } from '../storage/migrations';
+import { CollectionIndexOptions, CollectionListOptions } from '../../store/modules/collection/index';
+
+/**
+ * Contents of the synced files by file name.
+ */
+export type SyncFiles = { [fileName: string]: string };
+
+export const indexFileName: string = 'index.json';
+
+// the same file names as in the local storage, so the synced files can be downloaded and opened as a collection folder
+export function listFileName(id: string): string {
+    return `list-${id}.json`;
+}
+
+export const listFileNamePattern: RegExp = /^list-(.+)\.json$/;
+
+export function isSyncFileName(fileName: string): boolean {
+    return fileName === indexFileName || listFileNamePattern.test(fileName);
+}
+
+/**
+ * Converts the collection into the synced files: the index and a file per list.
+ *
+ * @export
+ * @param {SyncSnapshot} snapshot
+ * @returns {SyncFiles}
+ */
+export function toSyncFiles(snapshot: SyncSnapshot): SyncFiles {
+    return Object.values(snapshot.lists).reduce(
+        (files: SyncFiles, list) => {
+            files[listFileName(list.id!)] = JSON.stringify(list);
+            return files;
+        },
+        { [indexFileName]: JSON.stringify(snapshot.index) }
+    );
+}
+
+/**
+ * Reads the collection from the synced files, upgrading the files written by an older version of the app;
+ * returns `null` if there is no collection index.
+ *
+ * @export
+ * @param {SyncFiles} files
+ * @returns {(SyncSnapshot | null)}
+ */
+export function fromSyncFiles(files: SyncFiles): SyncSnapshot | null {
+    if (files[indexFileName] === undefined) {
+        return null;
+    }
+
+    const indexData: CollectionIndexOptions = JSON.parse(files[indexFileName]);
+    const index = isOutdated(indexData) ? migrateIndex(indexData) : indexData;
+
+    const lists = Object.keys(files)
+        .filter(fileName => listFileNamePattern.test(fileName))
+        .reduce((map: SyncSnapshot['lists'], fileName) => {
+            const data: CollectionListOptions = JSON.parse(files[fileName]);
+            const list = isOutdated(data) ? migrateList(data) : data;
+
+            map[list.id!] = list;
+            return map;
+        }, {});
+
+    return { index, lists };
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+
+import { SyncOperation, SyncTransport } from './journal';
+import { makeFoldersSync } from '../storage/files';
+
+// conflicted copies made by file sync services, like "journal-x (conflicted copy).jsonl", match as well and are read along
+const journalFileNamePattern: RegExp = /^journal-.+\.jsonl$/;
+
+function journalFileName(device: string): string {
+    return `journal-${device}.jsonl`;
+}
+
+/**
+ * A transport keeping the journals in a folder shared by the devices, for example, a network share or a folder synced by
+ * a file sync service. Each journal is a file with an operation per line.
+ *
+ * @export
+ * @param {string} folderPath
+ * @returns {SyncTransport}
+ */
+export function createFolderTransport(folderPath: string): SyncTransport {
+    return {
+        readJournals(): Promise<SyncOperation[][]> {
+            return new Promise<SyncOperation[][]>((resolve, reject) => {
+                fs.readdir(folderPath, async (error, fileNames) => {
+                    if (error) {
+                        return reject(error);
+                    }
+
+                    try {
+                        const journals = fileNames
+                            .filter(fileName => journalFileNamePattern.test(fileName))
+                            .map(fileName => readJournal(path.join(folderPath, fileName)));
+
+                        resolve(await Promise.all(journals));
+                    } catch (error) {
+                        reject(error);
+                    }
+                });
+            });
+        },
+
+        appendJournal(device: string, operations: SyncOperation[]): Promise<void> {
+            makeFoldersSync(folderPath);
+
+            // each batch starts on a new line, so a batch cut short by an interrupted write does not swallow the next one
+            const data = operations.map(operation => `\n${JSON.stringify(operation)}`).join('');
+
+            return new Promise<void>((resolve, reject) => {
+                fs.appendFile(path.join(folderPath, journalFileName(device)), data, 'utf8', error => (error ? reject(error) : resolve()));
+            });
+        }
+    };
+}
+
+// skips the lines which cannot be parsed, like the last line of a journal still being written or synced
+function readJournal(fileName: string): Promise<SyncOperation[]> {
+    return new Promise<SyncOperation[]>((resolve, reject) => {
+        fs.readFile(fileName, 'utf8', (error, data) => {
+            if (error) {
+                return reject(error);
+            }
+
+            resolve(
+                data
+                    .split('\n')
+                    .map(line => parseOperation(line))
+                    .filter((operation): operation is SyncOperation => operation !== null)
+            );
+        });
+    });
+}
+
+function parseOperation(line: string): SyncOperation | null {
+    if (line.trim() === '') {
+        return null;
+    }
+
+    try {
+        return JSON.parse(line);
+    } catch (error) {
+        return null;
+    }
+}
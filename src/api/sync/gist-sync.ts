@@ -0,0 +1,155 @@
+import fs from 'fs';
+import path from 'path';
+
+import { GistClient, GistFiles } from './gist';
+import { mergeSnapshots, SyncMergeResult, SyncResolutions, SyncSnapshot } from './merge';
+import { fromSyncFiles, listFileNamePattern, toSyncFiles } from './files';
+import { makeFoldersSync, writeFileAtomic } from '../storage/files';
+import { decryptPayload, encryptPayload } from '../storage/encryption';
+import { getActiveProfile } from '../storage/profiles';
+
+/**
+ * The gist the collection of the active profile is synced with, and the collection as of the last sync,
+ * which is the common base of the next three-way merge.
+ *
+ * @export
+ * @interface GistSyncRecord
+ */
+export interface GistSyncRecord {
+    gistId: string;
+
+    /**
+     * Date of the last sync; `null` if the gist was linked but not synced yet.
+     *
+     * @type {(number | null)}
+     * @memberof GistSyncRecord
+     */
+    date: number | null;
+    base: SyncSnapshot | null;
+}
+
+export interface GistPull {
+    /**
+     * Gist files as downloaded, to upload only the files which change.
+     *
+     * @type {GistFiles}
+     * @memberof GistPull
+     */
+    files: GistFiles;
+    result: SyncMergeResult;
+}
+
+const gistDescription: string = 'WordPouch collection';
+
+// the record is kept with the collection of the active profile, as each collection syncs with its own gist
+function recordFileName(): string {
+    return path.join(getActiveProfile().dataPath, 'sync', 'gist.json');
+}
+
+export function loadGistSyncRecord(): Promise<GistSyncRecord | null> {
+    return new Promise<GistSyncRecord | null>((resolve, reject) => {
+        fs.readFile(recordFileName(), 'utf8', (error, data) => {
+            if (error) {
+                return error.code === 'ENOENT' ? resolve(null) : reject(error);
+            }
+
+            try {
+                resolve(decryptPayload<GistSyncRecord>(JSON.parse(data)));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+// the base is a copy of the collection, so it's encrypted along with the collection files
+export async function saveGistSyncRecord(record: GistSyncRecord): Promise<void> {
+    makeFoldersSync(path.dirname(recordFileName()));
+    await writeFileAtomic(recordFileName(), JSON.stringify(encryptPayload(record)));
+}
+
+export function deleteGistSyncRecord(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.unlink(recordFileName(), error => (error && error.code !== 'ENOENT' ? reject(error) : resolve()));
+    });
+}
+
+/**
+ * Writes the sync record again, so it's encrypted or decrypted after the encryption is turned on or off.
+ *
+ * @export
+ * @returns {Promise<void>}
+ */
+export async function rewriteGistSyncRecord(): Promise<void> {
+    const record = await loadGistSyncRecord();
+    if (record !== null) {
+        await saveGistSyncRecord(record);
+    }
+}
+
+/**
+ * Downloads the collection from the gist and merges it with the local collection. A gist without a collection,
+ * for example, a new empty one, merges as an unchanged copy of the local collection.
+ *
+ * @export
+ * @param {GistClient} client
+ * @param {string} gistId
+ * @param {SyncSnapshot} local
+ * @param {(SyncSnapshot | null)} base
+ * @param {SyncResolutions} [resolutions={}]
+ * @returns {Promise<GistPull>}
+ */
+export async function pullGist(
+    client: GistClient,
+    gistId: string,
+    local: SyncSnapshot,
+    base: SyncSnapshot | null,
+    resolutions: SyncResolutions = {}
+): Promise<GistPull> {
+    const files = await client.load(gistId);
+    const remote = fromSyncFiles(files);
+
+    const result = remote !== null ? mergeSnapshots(base, local, remote, resolutions) : { snapshot: local, conflicts: [] };
+
+    return { files, result };
+}
+
+/**
+ * Uploads the merged collection into the gist, writing only the changed files and deleting the files of the deleted lists.
+ * Creates a new secret gist if there is no gist id; resolves to the id of the gist.
+ *
+ * @export
+ * @param {GistClient} client
+ * @param {(string | null)} gistId
+ * @param {SyncSnapshot} snapshot
+ * @param {GistFiles} [remoteFiles={}] gist files as downloaded by `pullGist`
+ * @returns {Promise<string>}
+ */
+export async function pushGist(
+    client: GistClient,
+    gistId: string | null,
+    snapshot: SyncSnapshot,
+    remoteFiles: GistFiles = {}
+): Promise<string> {
+    const files = toSyncFiles(snapshot);
+
+    if (gistId === null) {
+        return client.create(gistDescription, files);
+    }
+
+    const changes: { [fileName: string]: string | null } = {};
+
+    Object.keys(files)
+        .filter(fileName => files[fileName] !== remoteFiles[fileName])
+        .forEach(fileName => (changes[fileName] = files[fileName]));
+
+    Object.keys(remoteFiles)
+        .filter(fileName => listFileNamePattern.test(fileName) && files[fileName] === undefined)
+        .forEach(fileName => (changes[fileName] = null));
+
+    if (Object.keys(changes).length !== 0) {
+        await client.update(gistId, changes);
+    }
+
+    return gistId;
+}
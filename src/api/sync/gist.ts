@@ -0,0 +1,111 @@
+import axios, { AxiosInstance } from 'axios';
+
+/**
+ * Contents of the gist files by file name.
+ */
+export type GistFiles = { [fileName: string]: string };
+
+interface GistResponse {
+    id: string;
+    files: { [fileName: string]: { content: string; truncated?: boolean; raw_url?: string } };
+}
+
+export const GITHUB_API_URL: string = 'https://api.github.com';
+
+/**
+ * A minimal client of the GitHub Gists API. The API URL can point to GitHub Enterprise or to a local stand-in for testing.
+ *
+ * @export
+ * @class GistClient
+ */
+export class GistClient {
+    private http: AxiosInstance;
+
+    constructor(token: string, apiUrl: string = GITHUB_API_URL) {
+        this.http = axios.create({
+            baseURL: apiUrl.replace(/\/+$/, ''),
+            headers: { Accept: 'application/vnd.github.v3+json', ...(token !== '' ? { Authorization: `token ${token}` } : {}) },
+            // forces the node adapter, so the requests are not subject to the CORS checks of the renderer
+            adapter: require('axios/lib/adapters/http')
+        });
+    }
+
+    /**
+     * Downloads all the files of the gist. Files over a megabyte are truncated by the API and are downloaded separately.
+     *
+     * @param {string} gistId
+     * @returns {Promise<GistFiles>}
+     * @memberof GistClient
+     */
+    async load(gistId: string): Promise<GistFiles> {
+        const gist = await this.request<GistResponse>('get', `/gists/${gistId}`);
+        const files: GistFiles = {};
+
+        for (const [fileName, file] of Object.entries(gist.files)) {
+            files[fileName] = file.truncated && file.raw_url ? await this.loadRaw(file.raw_url) : file.content;
+        }
+
+        return files;
+    }
+
+    /**
+     * Creates a secret gist with the files; resolves to the id of the new gist.
+     *
+     * @param {string} description
+     * @param {GistFiles} files
+     * @returns {Promise<string>}
+     * @memberof GistClient
+     */
+    async create(description: string, files: GistFiles): Promise<string> {
+        const gist = await this.request<GistResponse>('post', '/gists', { description, public: false, files: toGistContents(files) });
+        return gist.id;
+    }
+
+    /**
+     * Writes the changed files into the gist; files set to `null` are deleted from the gist.
+     *
+     * @param {string} gistId
+     * @param {{ [fileName: string]: string | null }} files
+     * @returns {Promise<void>}
+     * @memberof GistClient
+     */
+    async update(gistId: string, files: { [fileName: string]: string | null }): Promise<void> {
+        await this.request<GistResponse>('patch', `/gists/${gistId}`, { files: toGistContents(files) });
+    }
+
+    private async loadRaw(url: string): Promise<string> {
+        // the raw file is JSON, which is kept as text
+        const response = await this.http.get<string>(url, { responseType: 'text', transformResponse: [(data: string) => data] });
+        return response.data;
+    }
+
+    private async request<T>(method: 'get' | 'post' | 'patch', url: string, data?: object): Promise<T> {
+        try {
+            return (await this.http.request<T>({ method, url, data })).data;
+        } catch (error) {
+            throw describeError(error, url);
+        }
+    }
+}
+
+function toGistContents(files: { [fileName: string]: string | null }): { [fileName: string]: { content: string } | null } {
+    return Object.entries(files).reduce((contents: { [fileName: string]: { content: string } | null }, [fileName, content]) => {
+        contents[fileName] = content !== null ? { content } : null;
+        return contents;
+    }, {});
+}
+
+function describeError(error: any, url: string): Error {
+    const status = error.response ? error.response.status : null;
+
+    if (status === 401) {
+        return new Error('The access token was rejected');
+    }
+
+    if (status === 404) {
+        // the API also responds with 404 if the token cannot access the gist
+        return new Error(`${url} was not found, or the access token has no access to it`);
+    }
+
+    return new Error(status !== null ? `The gist request failed with status ${status}` : error.message);
+}
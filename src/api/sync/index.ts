@@ -0,0 +1,9 @@
+export * from './merge';
+export * from './gist';
+export * from './gist-sync';
+export * from './journal';
+export * from './folder';
+export * from './journal-sync';
+export * from './files';
+export * from './webdav';
+export * from './webdav-sync';
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import uniqid from 'uniqid';
+
+import { createFolderTransport } from './folder';
+import { SyncSnapshot } from './merge';
+import { SyncTransport, recordChanges, replayJournals } from './journal';
+import { makeFoldersSync, writeFileAtomic } from '../storage/files';
+import { decryptPayload, encryptPayload } from '../storage/encryption';
+import { getActiveProfile } from '../storage/profiles';
+
+export type JournalTransportType = 'folder';
+
+/**
+ * The journals the collection of the active profile is synced through, and the collection as of the last sync,
+ * which the next sync compares the collection with to record the changes made since.
+ *
+ * @export
+ * @interface JournalSyncRecord
+ */
+export interface JournalSyncRecord {
+    transport: JournalTransportType;
+
+    /**
+     * Where the transport keeps the journals, for example, the path of the shared folder.
+     *
+     * @type {string}
+     * @memberof JournalSyncRecord
+     */
+    location: string;
+
+    /**
+     * Id of this device; its journal is named after it.
+     *
+     * @type {string}
+     * @memberof JournalSyncRecord
+     */
+    device: string;
+
+    /**
+     * Sequence number of the next operation recorded on this device.
+     *
+     * @type {number}
+     * @memberof JournalSyncRecord
+     */
+    sequence: number;
+
+    date: number | null;
+    recorded: SyncSnapshot | null;
+}
+
+export interface JournalSyncResult {
+    snapshot: SyncSnapshot;
+    record: JournalSyncRecord;
+}
+
+const transports: { [type in JournalTransportType]: (location: string) => SyncTransport } = {
+    folder: createFolderTransport
+};
+
+export function createJournalTransport(record: JournalSyncRecord): SyncTransport {
+    return transports[record.transport](record.location);
+}
+
+/**
+ * Returns a record for a new device syncing through the transport; its first sync records the whole collection.
+ *
+ * @export
+ * @param {JournalTransportType} transport
+ * @param {string} location
+ * @returns {JournalSyncRecord}
+ */
+export function createJournalSyncRecord(transport: JournalTransportType, location: string): JournalSyncRecord {
+    return { transport, location, device: uniqid(), sequence: 0, date: null, recorded: null };
+}
+
+function recordFileName(): string {
+    return path.join(getActiveProfile().dataPath, 'sync', 'journal.json');
+}
+
+export function loadJournalSyncRecord(): Promise<JournalSyncRecord | null> {
+    return new Promise<JournalSyncRecord | null>((resolve, reject) => {
+        fs.readFile(recordFileName(), 'utf8', (error, data) => {
+            if (error) {
+                return error.code === 'ENOENT' ? resolve(null) : reject(error);
+            }
+
+            try {
+                resolve(decryptPayload<JournalSyncRecord>(JSON.parse(data)));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+export async function saveJournalSyncRecord(record: JournalSyncRecord): Promise<void> {
+    makeFoldersSync(path.dirname(recordFileName()));
+    await writeFileAtomic(recordFileName(), JSON.stringify(encryptPayload(record)));
+}
+
+export function deleteJournalSyncRecord(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.unlink(recordFileName(), error => (error && error.code !== 'ENOENT' ? reject(error) : resolve()));
+    });
+}
+
+export async function rewriteJournalSyncRecord(): Promise<void> {
+    const record = await loadJournalSyncRecord();
+    if (record !== null) {
+        await saveJournalSyncRecord(record);
+    }
+}
+
+/**
+ * Appends the changes made to the collection since the last sync to the journal of this device, then replays the journals
+ * of all the devices. Resolves to the synced collection and the record to save once the collection is replaced with it;
+ * until then, the changes of the next sync are compared with the previous record.
+ *
+ * @export
+ * @param {SyncTransport} transport
+ * @param {JournalSyncRecord} record
+ * @param {SyncSnapshot} local
+ * @returns {Promise<JournalSyncResult>}
+ */
+export async function syncJournals(transport: SyncTransport, record: JournalSyncRecord, local: SyncSnapshot): Promise<JournalSyncResult> {
+    const operations = recordChanges(record.recorded, local, record.device, record.sequence);
+
+    if (operations.length !== 0) {
+        await transport.appendJournal(record.device, operations);
+    }
+
+    const snapshot = replayJournals(await transport.readJournals());
+
+    return {
+        snapshot,
+        record: { ...record, sequence: record.sequence + operations.length, date: Date.now(), recorded: snapshot }
+    };
+}
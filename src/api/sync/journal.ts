@@ -0,0 +1,230 @@
+import {
+    CollectionIndex,
+    CollectionIndexOptions,
+    CollectionList,
+    CollectionListOptions,
+    CollectionWordOptions
+} from '../../store/modules/collection/index';
+import { SyncSnapshot, fitTree, listProperties } from './merge';
+
+export type SyncOperationType = 'put-index' | 'put-list' | 'delete-list' | 'put-word' | 'delete-word';
+
+/**
+ * A change recorded in the journal of a device. Each operation replaces or deletes a whole item: the index, a list
+ * without its words, or a word of a list; the most recent operation on an item wins.
+ *
+ * @export
+ * @interface SyncOperation
+ */
+export interface SyncOperation {
+    type: SyncOperationType;
+
+    /**
+     * Id of the device which recorded the operation; with the sequence number, it orders operations made at the same time.
+     *
+     * @type {string}
+     * @memberof SyncOperation
+     */
+    device: string;
+    sequence: number;
+
+    /**
+     * Modified date of the item put, or the time the deletion was recorded.
+     *
+     * @type {number}
+     * @memberof SyncOperation
+     */
+    date: number;
+
+    listId?: string;
+    wordId?: string;
+
+    index?: CollectionIndexOptions;
+    list?: CollectionListOptions;
+    word?: CollectionWordOptions;
+}
+
+/**
+ * Where the devices keep their journals. Each device appends only to its own journal, so the devices never write the same file.
+ *
+ * @export
+ * @interface SyncTransport
+ */
+export interface SyncTransport {
+    /**
+     * Reads the journals of all the devices, including this one.
+     *
+     * @returns {Promise<SyncOperation[][]>}
+     * @memberof SyncTransport
+     */
+    readJournals(): Promise<SyncOperation[][]>;
+
+    /**
+     * Appends the operations to the journal of the device.
+     *
+     * @param {string} device
+     * @param {SyncOperation[]} operations
+     * @returns {Promise<void>}
+     * @memberof SyncTransport
+     */
+    appendJournal(device: string, operations: SyncOperation[]): Promise<void>;
+}
+
+type WordMap = { [wordId: string]: CollectionWordOptions };
+
+/**
+ * Compares the collection with its version recorded by the last sync and returns the operations which turn one into the other.
+ *
+ * @export
+ * @param {(SyncSnapshot | null)} previous the collection as of the last sync; `null` records the whole collection
+ * @param {SyncSnapshot} current
+ * @param {string} device
+ * @param {number} sequence sequence number of the first operation
+ * @param {number} [date=Date.now()] date of the deletions
+ * @returns {SyncOperation[]}
+ */
+export function recordChanges(
+    previous: SyncSnapshot | null,
+    current: SyncSnapshot,
+    device: string,
+    sequence: number,
+    date: number = Date.now()
+): SyncOperation[] {
+    const operations: SyncOperation[] = [];
+    const add = (operation: Pick<SyncOperation, Exclude<keyof SyncOperation, 'device' | 'sequence'>>) =>
+        operations.push({ ...operation, device, sequence: sequence + operations.length });
+
+    if (previous === null || !isSame(indexProperties(previous.index), indexProperties(current.index))) {
+        add({ type: 'put-index', date: current.index.dateModified || date, index: current.index });
+    }
+
+    const previousLists = previous !== null ? previous.lists : {};
+
+    Object.values(current.lists).forEach(list => {
+        const listId = list.id!;
+        const previousList = previousLists[listId];
+        const previousWords: WordMap = previousList !== undefined ? previousList.words || {} : {};
+        const words: WordMap = list.words || {};
+
+        if (previousList === undefined || !isSame(withoutWords(previousList), withoutWords(list))) {
+            add({ type: 'put-list', date: list.dateModified || date, listId, list: withoutWords(list) });
+        }
+
+        Object.values(words)
+            .filter(word => !isSame(previousWords[word.id!], word))
+            .forEach(word => add({ type: 'put-word', date: word.dateModified || date, listId, wordId: word.id, word }));
+
+        Object.keys(previousWords)
+            .filter(wordId => words[wordId] === undefined)
+            .forEach(wordId => add({ type: 'delete-word', date, listId, wordId }));
+    });
+
+    Object.keys(previousLists)
+        .filter(listId => current.lists[listId] === undefined)
+        .forEach(listId => add({ type: 'delete-list', date, listId }));
+
+    return operations;
+}
+
+/**
+ * Rebuilds the collection from the journals of all the devices. The result depends only on the set of operations,
+ * so devices which have read the same journals end up with the same collection.
+ *
+ * @export
+ * @param {SyncOperation[][]} journals
+ * @returns {SyncSnapshot}
+ */
+export function replayJournals(journals: SyncOperation[][]): SyncSnapshot {
+    const latest = new Map<string, SyncOperation>();
+    const deletedLists = new Map<string, number>();
+    const indexes: SyncOperation[] = [];
+
+    journals.forEach(operations =>
+        operations.forEach(operation => {
+            const key = operationKey(operation);
+            const current = latest.get(key);
+
+            if (current === undefined || isNewer(operation, current)) {
+                latest.set(key, operation);
+            }
+
+            if (operation.type === 'delete-list') {
+                deletedLists.set(operation.listId!, Math.max(deletedLists.get(operation.listId!) || 0, operation.date));
+            } else if (operation.type === 'put-index') {
+                indexes.push(operation);
+            }
+        })
+    );
+
+    const lists: SyncSnapshot['lists'] = {};
+    const listWords: { [listId: string]: WordMap } = {};
+
+    latest.forEach(operation => {
+        if (operation.type === 'put-list') {
+            lists[operation.listId!] = operation.list!;
+            listWords[operation.listId!] = {};
+        }
+    });
+
+    latest.forEach(operation => {
+        const words = listWords[operation.listId!];
+
+        // words put before the list was deleted do not come back if the list is put again
+        if (operation.type === 'put-word' && words !== undefined && operation.date > (deletedLists.get(operation.listId!) || 0)) {
+            words[operation.wordId!] = operation.word!;
+        }
+    });
+
+    // words put on another device are missing from the word order recorded here, so they are added to the end
+    Object.values(lists).forEach(list => {
+        const words = listWords[list.id!];
+        const index = unique([...(list.index || []), ...Object.keys(words)]).filter(wordId => words[wordId] !== undefined);
+
+        lists[list.id!] = CollectionList.fromJSON({ ...list, index, words: words as CollectionListOptions['words'] }).safeJSON;
+    });
+
+    // the older trees tell where the lists missing from the latest tree belong
+    indexes.sort((a, b) => (isNewer(a, b) ? -1 : 1));
+
+    const [latestIndex, ...olderIndexes] = indexes.map(operation => operation.index!);
+    const index = fitTree(latestIndex || new CollectionIndex().safeJSON, Object.keys(lists), olderIndexes);
+
+    return { index: new CollectionIndex(index).safeJSON, lists };
+}
+
+function operationKey(operation: SyncOperation): string {
+    switch (operation.type) {
+        case 'put-index':
+            return 'index';
+        case 'put-list':
+        case 'delete-list':
+            return `list/${operation.listId}`;
+        default:
+            return `list/${operation.listId}/word/${operation.wordId}`;
+    }
+}
+
+function isNewer(a: SyncOperation, b: SyncOperation): boolean {
+    if (a.date !== b.date) {
+        return a.date > b.date;
+    }
+
+    return a.device !== b.device ? a.device > b.device : a.sequence > b.sequence;
+}
+
+function indexProperties(index: CollectionIndexOptions): object {
+    return { defaultListId: index.defaultListId, tree: index.tree };
+}
+
+// the list properties and the word order; the words are recorded separately
+function withoutWords(list: CollectionListOptions): CollectionListOptions {
+    return { ...listProperties(list), id: list.id, dateCreated: list.dateCreated, dateModified: list.dateModified, index: list.index };
+}
+
+function isSame(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function unique(values: string[]): string[] {
+    return values.filter((value, index) => values.indexOf(value) === index);
+}
@@ -0,0 +1,422 @@
+import {
+    CollectionIndexOptions,
+    CollectionList,
+    CollectionListOptions,
+    CollectionState,
+    CollectionTree,
+    CollectionWordOptions
+} from '../../store/modules/collection/index';
+
+/**
+ * The synced part of the collection as plain JSON: the index and the lists with their words. The trash stays on each computer.
+ *
+ * @export
+ * @interface SyncSnapshot
+ */
+export interface SyncSnapshot {
+    index: CollectionIndexOptions;
+    lists: { [listId: string]: CollectionListOptions };
+}
+
+/**
+ * Side of the sync a version comes from: this computer or the remote copy of the collection.
+ */
+export type SyncSide = 'local' | 'remote';
+
+/**
+ * Sides picked by the user for the conflicts, by conflict id.
+ */
+export type SyncResolutions = { [conflictId: string]: SyncSide };
+
+export interface SyncConflictVersion {
+    name: string;
+    dateModified: number;
+}
+
+/**
+ * A list, a word or the list tree changed on both sides since the last sync, or deleted on one side and changed on the other.
+ *
+ * @export
+ * @interface SyncConflict
+ */
+export interface SyncConflict {
+    id: string;
+    type: 'index' | 'list' | 'word';
+    listId: string | null;
+    wordId?: string;
+
+    description: string;
+
+    /**
+     * Versions on both sides; `null` if the item was deleted on that side.
+     *
+     * @type {(SyncConflictVersion | null)}
+     * @memberof SyncConflict
+     */
+    local: SyncConflictVersion | null;
+    remote: SyncConflictVersion | null;
+
+    /**
+     * The side kept: the one picked by the user or, by default, the more recently modified one; a deletion gives way to a change.
+     *
+     * @type {SyncSide}
+     * @memberof SyncConflict
+     */
+    resolution: SyncSide;
+}
+
+export interface SyncMergeResult {
+    snapshot: SyncSnapshot;
+    conflicts: SyncConflict[];
+}
+
+// the list tree as plain JSON
+interface SyncTree {
+    listId?: string;
+    expanded?: boolean;
+    items?: SyncTree[];
+}
+
+type WordMap = { [wordId: string]: CollectionWordOptions };
+
+type ConflictResolver = (conflict: Pick<SyncConflict, Exclude<keyof SyncConflict, 'resolution'>>) => SyncSide;
+
+/**
+ * Returns the collection as a sync snapshot. All the lists need to be loaded.
+ *
+ * @export
+ * @param {CollectionState} state
+ * @returns {SyncSnapshot}
+ */
+export function getSyncSnapshot(state: CollectionState): SyncSnapshot {
+    return {
+        index: state.index.safeJSON,
+        lists: Object.values(state.lists).reduce((lists: SyncSnapshot['lists'], list) => {
+            lists[list.id] = list.safeJSON;
+            return lists;
+        }, {})
+    };
+}
+
+/**
+ * Merges the local and the remote collections using the collection from the last sync as their common base:
+ * a change made on one side only is taken as is, and changes made on both sides are reported as conflicts.
+ * Conflicts are resolved with the provided resolutions or, if there is none, in favour of the more recent change.
+ *
+ * @export
+ * @param {(SyncSnapshot | null)} base the collection as of the last sync; `null` before the first sync
+ * @param {SyncSnapshot} local
+ * @param {SyncSnapshot} remote
+ * @param {SyncResolutions} [resolutions={}]
+ * @returns {SyncMergeResult}
+ */
+export function mergeSnapshots(
+    base: SyncSnapshot | null,
+    local: SyncSnapshot,
+    remote: SyncSnapshot,
+    resolutions: SyncResolutions = {}
+): SyncMergeResult {
+    const conflicts: SyncConflict[] = [];
+
+    const resolve: ConflictResolver = conflict => {
+        const resolution = resolutions[conflict.id] || defaultResolution(conflict.local, conflict.remote);
+
+        // a word shared by several lists conflicts once
+        if (!conflicts.some(({ id }) => id === conflict.id)) {
+            conflicts.push({ ...conflict, resolution });
+        }
+
+        return resolution;
+    };
+
+    const baseLists = base !== null ? base.lists : {};
+    const listIds = unique([...Object.keys(local.lists), ...Object.keys(remote.lists), ...Object.keys(baseLists)]);
+
+    const lists = listIds.reduce((map: SyncSnapshot['lists'], listId) => {
+        const list = mergeList(baseLists[listId], local.lists[listId], remote.lists[listId], resolve);
+        if (list !== undefined) {
+            map[listId] = list;
+        }
+
+        return map;
+    }, {});
+
+    const index = mergeIndex(base !== null ? base.index : undefined, local.index, remote.index, Object.keys(lists), resolve);
+
+    return { snapshot: { index, lists }, conflicts };
+}
+
+/**
+ * Picks the value changed since the base; calls the resolver if both sides changed it differently.
+ *
+ * @template T
+ * @param {(T | undefined)} base
+ * @param {(T | undefined)} local
+ * @param {(T | undefined)} remote
+ * @param {() => SyncSide} onConflict
+ * @returns {(T | undefined)}
+ */
+function mergeValue<T>(base: T | undefined, local: T | undefined, remote: T | undefined, onConflict: () => SyncSide): T | undefined {
+    if (isSame(local, remote) || isSame(base, remote)) {
+        return local;
+    }
+
+    if (isSame(base, local)) {
+        return remote;
+    }
+
+    return onConflict() === 'local' ? local : remote;
+}
+
+function mergeList(
+    base: CollectionListOptions | undefined,
+    local: CollectionListOptions | undefined,
+    remote: CollectionListOptions | undefined,
+    resolve: ConflictResolver
+): CollectionListOptions | undefined {
+    // added, deleted, or deleted on one side and changed on the other
+    if (local === undefined || remote === undefined) {
+        return mergeValue(base, local, remote, () =>
+            resolve({
+                id: `list/${(local || remote)!.id}`,
+                type: 'list',
+                listId: (local || remote)!.id!,
+                description: `List "${listName(local || remote)}" was deleted on one side and changed on the other`,
+                local: describeList(local),
+                remote: describeList(remote)
+            })
+        );
+    }
+
+    const baseWords = base !== undefined ? base.words || {} : {};
+    const localWords = local.words || {};
+    const remoteWords = remote.words || {};
+
+    const properties = mergeValue(
+        base !== undefined ? listProperties(base) : undefined,
+        listProperties(local),
+        listProperties(remote),
+        () =>
+            resolve({
+                id: `list/${local.id}`,
+                type: 'list',
+                listId: local.id!,
+                description: `List "${listName(local)}" was changed on both sides`,
+                local: describeList(local),
+                remote: describeList(remote)
+            })
+    )!;
+
+    const wordIds = unique([...Object.keys(localWords), ...Object.keys(remoteWords), ...Object.keys(baseWords)]);
+    const words: WordMap = wordIds.reduce((map: WordMap, wordId) => {
+        const localWord = localWords[wordId] as CollectionWordOptions | undefined;
+        const remoteWord = remoteWords[wordId] as CollectionWordOptions | undefined;
+        const word = (localWord || remoteWord)!;
+
+        // a removal from the list conflicts within the list, while a change of the word conflicts wherever the word is
+        const isRemoved = localWord === undefined || remoteWord === undefined;
+
+        const merged = mergeValue(baseWords[wordId] as CollectionWordOptions | undefined, localWord, remoteWord, () =>
+            resolve({
+                id: isRemoved ? `list/${local.id}/word/${wordId}` : `word/${wordId}`,
+                type: 'word',
+                listId: local.id!,
+                wordId,
+                description: isRemoved
+                    ? `"${word.text}" was removed from list "${listName(local)}" on one side and changed on the other`
+                    : `"${word.text}" was changed on both sides`,
+                local: describeWord(localWord),
+                remote: describeWord(remoteWord)
+            })
+        );
+
+        if (merged !== undefined) {
+            map[wordId] = merged;
+        }
+
+        return map;
+    }, {});
+
+    // the word order follows the side which changed it; words only the other side has go to the end
+    const baseIndex = base !== undefined ? base.index || [] : [];
+    const localIndex = local.index || [];
+    const remoteIndex = remote.index || [];
+    const [mainIndex, otherIndex] = isSame(baseIndex, localIndex) ? [remoteIndex, localIndex] : [localIndex, remoteIndex];
+    const index = unique([...mainIndex, ...otherIndex, ...Object.keys(words)]).filter(wordId => words[wordId] !== undefined);
+
+    return {
+        ...local,
+        ...properties,
+        dateModified: Math.max(local.dateModified || 0, remote.dateModified || 0),
+        index,
+        words: words as CollectionListOptions['words']
+    };
+}
+
+/**
+ * Takes the list tree changed since the base and fits it to the merged lists. Before the first sync, the remote tree is taken.
+ *
+ * @param {(CollectionIndexOptions | undefined)} base
+ * @param {CollectionIndexOptions} local
+ * @param {CollectionIndexOptions} remote
+ * @param {string[]} listIds ids of the merged lists
+ * @param {ConflictResolver} resolve
+ * @returns {CollectionIndexOptions}
+ */
+function mergeIndex(
+    base: CollectionIndexOptions | undefined,
+    local: CollectionIndexOptions,
+    remote: CollectionIndexOptions,
+    listIds: string[],
+    resolve: ConflictResolver
+): CollectionIndexOptions {
+    const localTree = indexProperties(local);
+    const remoteTree = indexProperties(remote);
+
+    // without a base, the trees of two separate collections always differ; nothing is lost by taking either of them
+    const mergedTree =
+        base === undefined
+            ? remoteTree
+            : mergeValue(indexProperties(base), localTree, remoteTree, () =>
+                  resolve({
+                      id: 'index',
+                      type: 'index',
+                      listId: null,
+                      description: 'The list tree was changed on both sides',
+                      local: { name: 'List tree', dateModified: local.dateModified || 0 },
+                      remote: { name: 'List tree', dateModified: remote.dateModified || 0 }
+                  })
+              );
+
+    return fitTree(mergedTree === localTree ? local : remote, listIds, [local, remote]);
+}
+
+/**
+ * Removes the lists which do not exist from the list tree and adds the lists it's missing under their parents
+ * in the first of the other trees which has them; the default list is reset to the first list if it no longer exists.
+ *
+ * @export
+ * @param {CollectionIndexOptions} index
+ * @param {string[]} listIds ids of all the lists
+ * @param {CollectionIndexOptions[]} [others=[]] other versions of the index to look up the missing lists in
+ * @returns {CollectionIndexOptions}
+ */
+export function fitTree(index: CollectionIndexOptions, listIds: string[], others: CollectionIndexOptions[] = []): CollectionIndexOptions {
+    const tree: SyncTree = index.tree || {};
+    const otherTrees: SyncTree[] = others.map(other => other.tree || {});
+
+    const seenListIds = new Set<string>();
+    const root: SyncTree = { ...tree, items: pruneTree(tree.items || [], new Set(listIds), seenListIds) };
+
+    unique([...otherTrees.map(flattenTree).reduce((ids, treeIds) => ids.concat(treeIds), []), ...listIds])
+        .filter(listId => listIds.includes(listId) && !seenListIds.has(listId))
+        .forEach(listId => {
+            // lists at the top level of the other tree and the ones in neither tree are added at the top level
+            const parentId = otherTrees.map(otherTree => findParentId(otherTree, listId)).find(id => id !== null) || null;
+            const parent = (parentId !== null && findNode(root, parentId)) || root;
+
+            parent.items = [...(parent.items || []), { listId, expanded: true, items: [] }];
+            seenListIds.add(listId);
+        });
+
+    let defaultListId = index.defaultListId || null;
+    if (defaultListId === null || !listIds.includes(defaultListId)) {
+        defaultListId = root.items!.length !== 0 ? root.items![0].listId! : null;
+    }
+
+    return { ...index, defaultListId, tree: root as CollectionTree };
+}
+
+/**
+ * Removes the nodes of the lists not in the set and the repeated nodes of the same list; the children of a removed node take its place.
+ *
+ * @param {SyncTree[]} items
+ * @param {Set<string>} listIds
+ * @param {Set<string>} seenListIds
+ * @returns {SyncTree[]}
+ */
+function pruneTree(items: SyncTree[], listIds: Set<string>, seenListIds: Set<string>): SyncTree[] {
+    return items.reduce((pruned: SyncTree[], item) => {
+        const isKept = listIds.has(item.listId!) && !seenListIds.has(item.listId!);
+        if (isKept) {
+            seenListIds.add(item.listId!);
+        }
+
+        const children = pruneTree(item.items || [], listIds, seenListIds);
+
+        return isKept ? [...pruned, { ...item, items: children }] : [...pruned, ...children];
+    }, []);
+}
+
+function flattenTree(tree: SyncTree): string[] {
+    return (tree.items || []).reduce((ids: string[], item) => [...ids, item.listId!, ...flattenTree(item)], []);
+}
+
+function findNode(tree: SyncTree, listId: string): SyncTree | undefined {
+    return (tree.items || []).reduce(
+        (found: SyncTree | undefined, item) => found || (item.listId === listId ? item : findNode(item, listId)),
+        undefined
+    );
+}
+
+/**
+ * Returns the id of the list the list is nested in; `undefined` if it's at the top level, `null` if it's not in the tree.
+ *
+ * @param {SyncTree} tree
+ * @param {string} listId
+ * @returns {(string | undefined | null)}
+ */
+function findParentId(tree: SyncTree, listId: string, parentId?: string): string | undefined | null {
+    for (const item of tree.items || []) {
+        const found = item.listId === listId ? parentId : findParentId(item, listId, item.listId);
+        if (found !== null) {
+            return found;
+        }
+    }
+
+    return null;
+}
+
+function indexProperties(index: CollectionIndexOptions): object {
+    return { defaultListId: index.defaultListId, tree: index.tree };
+}
+
+/**
+ * Returns the list options edited by the user, that is, everything but the words, their order, the id and the timestamps.
+ *
+ * @export
+ * @param {CollectionListOptions} list
+ * @returns {CollectionListOptions}
+ */
+export function listProperties(list: CollectionListOptions): CollectionListOptions {
+    const { name, display, pinned, hidden, colour, sortBy, sortDirection, notes, query } = list;
+    return { name, display, pinned, hidden, colour, sortBy, sortDirection, notes, query };
+}
+
+function describeList(list: CollectionListOptions | undefined): SyncConflictVersion | null {
+    return list !== undefined ? { name: listName(list), dateModified: list.dateModified || 0 } : null;
+}
+
+function describeWord(word: CollectionWordOptions | undefined): SyncConflictVersion | null {
+    return word !== undefined ? { name: word.text || '', dateModified: word.dateModified || 0 } : null;
+}
+
+function listName(list: CollectionListOptions | undefined): string {
+    return (list && list.name) || CollectionList.DEFAULT_NAME;
+}
+
+function defaultResolution(local: SyncConflictVersion | null, remote: SyncConflictVersion | null): SyncSide {
+    if (local === null || remote === null) {
+        return local !== null ? 'local' : 'remote';
+    }
+
+    return local.dateModified >= remote.dateModified ? 'local' : 'remote';
+}
+
+function isSame(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function unique(values: string[]): string[] {
+    return values.filter((value, index) => values.indexOf(value) === index);
+}
@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+
+import { WebDavClient, WebDavEtags } from './webdav';
+import { mergeSnapshots, SyncMergeResult, SyncResolutions, SyncSnapshot } from './merge';
+import { fromSyncFiles, isSyncFileName, toSyncFiles, SyncFiles } from './files';
+import { makeFoldersSync, writeFileAtomic } from '../storage/files';
+import { decryptPayload, encryptPayload } from '../storage/encryption';
+import { getActiveProfile } from '../storage/profiles';
+
+export type WebDavPendingFiles = { [fileName: string]: string | null };
+
+/**
+ * The WebDAV folder the collection of the active profile is synced with, the collection as of the last sync,
+ * and the files of that collection still to be written to the server.
+ *
+ * @export
+ * @interface WebDavSyncRecord
+ */
+export interface WebDavSyncRecord {
+    url: string;
+
+    date: number | null;
+    base: SyncSnapshot | null;
+
+    /**
+     * ETags of the files on the server as of the last sync, updated as the pending files are written.
+     *
+     * @type {WebDavEtags}
+     * @memberof WebDavSyncRecord
+     */
+    etags: WebDavEtags;
+
+    /**
+     * Files of the base not written to the server yet, for example, because the server could not be reached, with their contents
+     * on the server as last known, or `null` if there was no such file. The files missing from the base are to be deleted.
+     *
+     * @type {WebDavPendingFiles}
+     * @memberof WebDavSyncRecord
+     */
+    pending: WebDavPendingFiles;
+}
+
+export interface WebDavPull {
+    /**
+     * Files on the server as merged, with the files changed since the last sync downloaded and the rest as last known.
+     *
+     * @type {SyncFiles}
+     * @memberof WebDavPull
+     */
+    files: SyncFiles;
+    etags: WebDavEtags;
+    result: SyncMergeResult;
+}
+
+function recordFileName(): string {
+    return path.join(getActiveProfile().dataPath, 'sync', 'webdav.json');
+}
+
+export function createWebDavSyncRecord(url: string): WebDavSyncRecord {
+    return { url, date: null, base: null, etags: {}, pending: {} };
+}
+
+export function loadWebDavSyncRecord(): Promise<WebDavSyncRecord | null> {
+    return new Promise<WebDavSyncRecord | null>((resolve, reject) => {
+        fs.readFile(recordFileName(), 'utf8', (error, data) => {
+            if (error) {
+                return error.code === 'ENOENT' ? resolve(null) : reject(error);
+            }
+
+            try {
+                resolve(decryptPayload<WebDavSyncRecord>(JSON.parse(data)));
+            } catch (error) {
+                reject(error);
+            }
+        });
+    });
+}
+
+export async function saveWebDavSyncRecord(record: WebDavSyncRecord): Promise<void> {
+    makeFoldersSync(path.dirname(recordFileName()));
+    await writeFileAtomic(recordFileName(), JSON.stringify(encryptPayload(record)));
+}
+
+export function deleteWebDavSyncRecord(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.unlink(recordFileName(), error => (error && error.code !== 'ENOENT' ? reject(error) : resolve()));
+    });
+}
+
+export async function rewriteWebDavSyncRecord(): Promise<void> {
+    const record = await loadWebDavSyncRecord();
+    if (record !== null) {
+        await saveWebDavSyncRecord(record);
+    }
+}
+
+/**
+ * Downloads the files changed on the server since the last sync and merges the collection on the server with the local one.
+ * The files with the same ETag as recorded are not downloaded, as their contents are known; creates the folder if it does not exist.
+ *
+ * @export
+ * @param {WebDavClient} client
+ * @param {WebDavSyncRecord} record
+ * @param {SyncSnapshot} local
+ * @param {SyncResolutions} [resolutions={}]
+ * @returns {Promise<WebDavPull>}
+ */
+export async function pullWebDav(
+    client: WebDavClient,
+    record: WebDavSyncRecord,
+    local: SyncSnapshot,
+    resolutions: SyncResolutions = {}
+): Promise<WebDavPull> {
+    const listing = await client.list();
+    if (listing === null) {
+        await client.createFolder();
+    }
+
+    const knownFiles = getKnownFiles(record);
+    const files: SyncFiles = {};
+    const etags: WebDavEtags = {};
+
+    for (const fileName of Object.keys(listing || {}).filter(isSyncFileName)) {
+        etags[fileName] = listing![fileName];
+
+        if (etags[fileName] === record.etags[fileName] && knownFiles[fileName] !== undefined) {
+            files[fileName] = knownFiles[fileName];
+        } else {
+            const file = await client.load(fileName);
+
+            files[fileName] = file.content;
+            etags[fileName] = file.etag || etags[fileName];
+        }
+    }
+
+    // the common base of the files not written yet is their last known version on the server, not the one waiting to be written
+    const base = record.base !== null ? fromSyncFiles(knownFiles) : null;
+    const remote = fromSyncFiles(files);
+    const result = remote !== null ? mergeSnapshots(base, local, remote, resolutions) : { snapshot: local, conflicts: [] };
+
+    return { files, etags, result };
+}
+
+/**
+ * Returns the record of the merged collection, with the files which differ from the server queued to be written.
+ *
+ * @export
+ * @param {WebDavSyncRecord} record
+ * @param {WebDavPull} pull
+ * @returns {WebDavSyncRecord}
+ */
+export function queueWebDavPush(record: WebDavSyncRecord, { files, etags, result }: WebDavPull): WebDavSyncRecord {
+    const resultFiles = toSyncFiles(result.snapshot);
+
+    const pending = [...Object.keys(resultFiles), ...Object.keys(files)]
+        .filter(fileName => resultFiles[fileName] !== files[fileName])
+        .reduce((map: WebDavPendingFiles, fileName) => {
+            map[fileName] = files[fileName] !== undefined ? files[fileName] : null;
+            return map;
+        }, {});
+
+    return { url: record.url, date: Date.now(), base: result.snapshot, etags, pending };
+}
+
+/**
+ * Writes the pending files to the server, each on the condition it was not changed there since it was read.
+ * The record is passed to `onWrite` after every written file, so the files written before the server stops responding
+ * are not written again; resolves to the record with no pending files.
+ *
+ * @export
+ * @param {WebDavClient} client
+ * @param {WebDavSyncRecord} record
+ * @param {(record: WebDavSyncRecord) => Promise<void>} [onWrite]
+ * @returns {Promise<WebDavSyncRecord>}
+ */
+export async function pushWebDav(
+    client: WebDavClient,
+    record: WebDavSyncRecord,
+    onWrite?: (record: WebDavSyncRecord) => Promise<void>
+): Promise<WebDavSyncRecord> {
+    const files = record.base !== null ? toSyncFiles(record.base) : {};
+    let current = record;
+
+    for (const fileName of Object.keys(record.pending)) {
+        const etags = { ...current.etags };
+        const etag = etags[fileName] !== undefined ? etags[fileName] : null;
+
+        if (files[fileName] !== undefined) {
+            const newEtag = await client.save(fileName, files[fileName], etag);
+
+            // without the new ETag, the next sync downloads the file to learn it
+            if (newEtag !== null) {
+                etags[fileName] = newEtag;
+            } else {
+                delete etags[fileName];
+            }
+        } else if (etag !== null) {
+            await client.delete(fileName, etag);
+            delete etags[fileName];
+        }
+
+        const pending = { ...current.pending };
+        delete pending[fileName];
+
+        current = { ...current, etags, pending };
+
+        if (onWrite) {
+            await onWrite(current);
+        }
+    }
+
+    return current;
+}
+
+// the files as last known on the server: the base, except for the files not written yet
+function getKnownFiles(record: WebDavSyncRecord): SyncFiles {
+    const files = record.base !== null ? toSyncFiles(record.base) : {};
+
+    Object.entries(record.pending).forEach(([fileName, content]) =>
+        content !== null ? (files[fileName] = content) : delete files[fileName]
+    );
+
+    return files;
+}
@@ -0,0 +1,153 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * ETags of the files in the WebDAV folder by file name.
+ */
+export type WebDavEtags = { [fileName: string]: string };
+
+export interface WebDavFile {
+    content: string;
+    etag: string | null;
+}
+
+/**
+ * Codes of the errors the sync handles on its own, set as the `code` of the error like the codes of the node errors.
+ */
+export const WEBDAV_CONFLICT: string = 'EWEBDAVCONFLICT';
+export const WEBDAV_OFFLINE: string = 'EWEBDAVOFFLINE';
+
+const propfindBody: string = '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:getetag/></d:prop></d:propfind>';
+
+/**
+ * A minimal WebDAV client reading and writing the files of a single folder, for example, a folder of a Nextcloud server.
+ * Writes are conditional on the ETags read before, so the changes made from another computer in the meantime are not overwritten.
+ *
+ * @export
+ * @class WebDavClient
+ */
+export class WebDavClient {
+    private http: AxiosInstance;
+
+    constructor(folderUrl: string, username: string, password: string) {
+        this.http = axios.create({
+            baseURL: `${folderUrl.replace(/\/+$/, '')}/`,
+            auth: username !== '' ? { username, password } : undefined,
+            // the files are JSON, which is kept as text
+            responseType: 'text',
+            transformResponse: [(data: string) => data],
+            // forces the node adapter, so the requests are not subject to the CORS checks of the renderer
+            adapter: require('axios/lib/adapters/http')
+        });
+    }
+
+    /**
+     * Lists the files of the folder with their ETags; resolves to `null` if the folder does not exist.
+     *
+     * @returns {(Promise<WebDavEtags | null>)}
+     * @memberof WebDavClient
+     */
+    async list(): Promise<WebDavEtags | null> {
+        const response = await this.request(
+            { method: 'PROPFIND', url: '', data: propfindBody, headers: { Depth: '1', 'Content-Type': 'application/xml' } },
+            [404]
+        );
+
+        return response.status !== 404 ? parseEtags(response.data) : null;
+    }
+
+    async createFolder(): Promise<void> {
+        // 405 means the folder exists already
+        await this.request({ method: 'MKCOL', url: '' }, [405]);
+    }
+
+    async load(fileName: string): Promise<WebDavFile> {
+        const response = await this.request({ method: 'GET', url: encodeURIComponent(fileName) });
+        return { content: response.data, etag: response.headers.etag || null };
+    }
+
+    /**
+     * Writes the file if its ETag on the server is still the given one, or, if the ETag is `null`, if there is no such file yet.
+     * Resolves to the new ETag of the file, if the server reports it.
+     *
+     * @param {string} fileName
+     * @param {string} content
+     * @param {(string | null)} etag
+     * @returns {(Promise<string | null>)}
+     * @memberof WebDavClient
+     */
+    async save(fileName: string, content: string, etag: string | null): Promise<string | null> {
+        const headers = { 'Content-Type': 'application/json', ...conditionHeaders(etag) };
+        const response = await this.request({ method: 'PUT', url: encodeURIComponent(fileName), data: content, headers }, [], fileName);
+
+        return response.headers.etag || null;
+    }
+
+    async delete(fileName: string, etag: string): Promise<void> {
+        // 404 means the file is deleted already
+        await this.request({ method: 'DELETE', url: encodeURIComponent(fileName), headers: conditionHeaders(etag) }, [404], fileName);
+    }
+
+    private async request(config: AxiosRequestConfig, allowedStatuses: number[] = [], fileName?: string): Promise<AxiosResponse<string>> {
+        try {
+            return await this.http.request<string>({
+                ...config,
+                validateStatus: status => isSuccess(status) || allowedStatuses.includes(status)
+            });
+        } catch (error) {
+            throw describeError(error, fileName);
+        }
+    }
+}
+
+function conditionHeaders(etag: string | null): { [name: string]: string } {
+    return etag !== null ? { 'If-Match': etag } : { 'If-None-Match': '*' };
+}
+
+function isSuccess(status: number): boolean {
+    return status >= 200 && status < 300;
+}
+
+// the multistatus response lists the folder itself and its files; the namespace prefix differs between servers
+function parseEtags(xml: string): WebDavEtags {
+    const responses = xml.match(/<(\w+:)?response\b[\s\S]*?<\/(\w+:)?response>/g) || [];
+
+    return responses.reduce((etags: WebDavEtags, response) => {
+        const href = /<(?:\w+:)?href>([^<]*)</.exec(response);
+        const etag = /<(?:\w+:)?getetag>([^<]*)</.exec(response);
+
+        if (href !== null && etag !== null && !href[1].endsWith('/')) {
+            const fileName = decodeURIComponent(href[1].split('/').pop()!);
+            etags[fileName] = decodeEntities(etag[1]);
+        }
+
+        return etags;
+    }, {});
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&');
+}
+
+function describeError(error: any, fileName?: string): Error {
+    if (!error.response) {
+        return Object.assign(new Error(`The server cannot be reached: ${error.message}`), { code: WEBDAV_OFFLINE });
+    }
+
+    const status = error.response.status;
+
+    if (status === 401) {
+        return new Error('The user name or the password was rejected');
+    }
+
+    // the file was changed or deleted on the server after its ETag was read
+    if (status === 412 && fileName !== undefined) {
+        return Object.assign(new Error(`${fileName} was changed on the server during the sync; sync again`), { code: WEBDAV_CONFLICT });
+    }
+
+    return new Error(`The WebDAV request failed with status ${status}`);
+}
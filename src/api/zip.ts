@@ -0,0 +1,111 @@
+import fs from 'fs';
+import zlib from 'zlib';
+
+export interface ZipEntry {
+    name: string;
+    data: Buffer;
+}
+
+// the general purpose flag marking the entry names as UTF-8
+const UTF8_FLAG: number = 0x0800;
+const DEFLATE_METHOD: number = 8;
+const VERSION: number = 20;
+
+let crcTable: number[] | null = null;
+
+/**
+ * Writes a zip archive with the entries deflated. It covers only what the app writes itself,
+ * so there is no support for folders, large archives or data descriptors.
+ *
+ * @export
+ * @param {string} fileName
+ * @param {ZipEntry[]} entries
+ * @param {Date} [date=new Date()] modification date of the entries
+ * @returns {Promise<void>}
+ */
+export async function writeZip(fileName: string, entries: ZipEntry[], date: Date = new Date()): Promise<void> {
+    const time = ((date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)) & 0xffff;
+    const day = (((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()) & 0xffff;
+
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, 'utf8');
+        const data = await deflate(entry.data);
+        const crc = crc32(entry.data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(VERSION, 4);
+        local.writeUInt16LE(UTF8_FLAG, 6);
+        local.writeUInt16LE(DEFLATE_METHOD, 8);
+        local.writeUInt16LE(time, 10);
+        local.writeUInt16LE(day, 12);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(VERSION, 4);
+        central.writeUInt16LE(VERSION, 6);
+        central.writeUInt16LE(UTF8_FLAG, 8);
+        central.writeUInt16LE(DEFLATE_METHOD, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(day, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        localParts.push(local, name, data);
+        centralParts.push(central, name);
+        offset += local.length + name.length + data.length;
+    }
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+
+    await new Promise<void>((resolve, reject) => {
+        fs.writeFile(fileName, Buffer.concat([...localParts, ...centralParts, end]), error => (error ? reject(error) : resolve()));
+    });
+}
+
+function deflate(data: Buffer): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        zlib.deflateRaw(data, (error, result) => (error ? reject(error) : resolve(result)));
+    });
+}
+
+function crc32(data: Buffer): number {
+    if (crcTable === null) {
+        crcTable = Array.from({ length: 256 }, (_, index) => {
+            let value = index;
+
+            for (let bit = 0; bit < 8; bit++) {
+                value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+            }
+
+            return value >>> 0;
+        });
+    }
+
+    let crc = 0xffffffff;
+
+    for (let index = 0; index < data.length; index++) {
+        crc = crcTable[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+    }
+
+    return (crc ^ 0xffffffff) >>> 0;
+}
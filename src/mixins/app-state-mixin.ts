@@ -16,6 +16,18 @@ const ActionAP = namespace(STORE, Action);
 @Component
 export default class AppStateMixin extends Vue {
     @StateAP isCollectionViewOpen: boolean;
+    @StateAP isReviewViewOpen: boolean;
+    @StateAP isTrashViewOpen: boolean;
+    @StateAP isSettingsViewOpen: boolean;
+    @StateAP historyListId: string | null;
+    @StateAP importListId: string | null;
+    @StateAP exportListIds: string[] | null;
 
     @ActionAP openCollectionView: (value: { value: boolean }) => {};
+    @ActionAP openReviewView: (value: { value: boolean }) => {};
+    @ActionAP openTrashView: (value: { value: boolean }) => {};
+    @ActionAP openSettingsView: (value: { value: boolean }) => {};
+    @ActionAP openHistoryView: (value: { listId?: string }) => {};
+    @ActionAP openImportView: (value: { listId?: string }) => {};
+    @ActionAP openExportView: (value: { listIds?: string[] }) => {};
 }
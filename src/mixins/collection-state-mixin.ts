@@ -49,5 +49,8 @@ export default class CollectionStateMixin extends Vue {
     @collection.Action
     moveWord: (payload: { wordId: string; listId: string }) => void;
 
+    @collection.Action
+    addWordToList: (payload: { wordId: string; listId: string }) => void;
+
     // #endregion Action
 }
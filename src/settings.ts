@@ -3,6 +3,15 @@ import settings from 'electron-settings';
 const gistTokenKey: string = 'gist.token';
 const gistIdKey: string = 'gist.id';
 const gistFileNameKey: string = 'gist.fileName';
+const gistApiUrlKey: string = 'gist.apiUrl';
+const webdavUsernameKey: string = 'webdav.username';
+const webdavPasswordKey: string = 'webdav.password';
+const trashRetentionKey: string = 'trash.retentionDays';
+const storageIdKey: string = 'storage.id';
+const snapshotIntervalKey: string = 'snapshots.intervalHours';
+const snapshotRetentionKey: string = 'snapshots.retention';
+const profilesKey: string = 'profiles.list';
+const profileIdKey: string = 'profiles.activeId';
 
 export class Setting {
     constructor(
@@ -32,6 +41,28 @@ export const gistTokenSetting = new Setting(gistTokenKey);
 export const gistIdSetting = new Setting(gistIdKey);
 export const gistFileNameSetting = new Setting(gistFileNameKey);
 
+// base URL of the Gists API the collection is synced through, for example, of a GitHub Enterprise server
+export const gistApiUrlSetting = new Setting(gistApiUrlKey, 'https://api.github.com');
+
+// credentials of the WebDAV server the collection is synced with
+export const webdavUsernameSetting = new Setting(webdavUsernameKey);
+export const webdavPasswordSetting = new Setting(webdavPasswordKey);
+
+// number of days deleted lists and words are kept in the trash; '0' keeps them until the trash is emptied manually
+export const trashRetentionSetting = new Setting(trashRetentionKey, '30', '0');
+
+// id of the storage backend the collection is read from and written to
+export const storageIdSetting = new Setting(storageIdKey, 'local');
+
+// hours between scheduled snapshots of the collection and the number of snapshots kept;
+// '0' turns off the schedule and the rotation respectively
+export const snapshotIntervalSetting = new Setting(snapshotIntervalKey, '6', '0');
+export const snapshotRetentionSetting = new Setting(snapshotRetentionKey, '20', '0');
+
+// collections (profiles) as a JSON array, and the id of the last opened one
+export const profilesSetting = new Setting(profilesKey, '[]');
+export const profileIdSetting = new Setting(profileIdKey, 'default');
+
 function areSettingsValid(): boolean {
     return [gistTokenSetting, gistIdSetting, gistFileNameSetting].every(
         setting => setting.has() && setting.get() !== setting.nullValue
@@ -6,4 +6,52 @@ export interface AppState {
      * @memberof AppState
      */
     isCollectionViewOpen: boolean;
+
+    /**
+     * Specifies if the review session view is shown instead of the pool and the word editor.
+     *
+     * @type {boolean}
+     * @memberof AppState
+     */
+    isReviewViewOpen: boolean;
+
+    /**
+     * Specifies if the trash view is shown instead of the pool and the word editor.
+     *
+     * @type {boolean}
+     * @memberof AppState
+     */
+    isTrashViewOpen: boolean;
+
+    /**
+     * Specifies if the settings view is shown instead of the pool and the word editor.
+     *
+     * @type {boolean}
+     * @memberof AppState
+     */
+    isSettingsViewOpen: boolean;
+
+    /**
+     * Id of the list whose past versions are shown instead of the pool and the word editor; `null` when the history view is closed.
+     *
+     * @type {(string | null)}
+     * @memberof AppState
+     */
+    historyListId: string | null;
+
+    /**
+     * Id of the list words are imported into from a CSV or TSV file; `null` when the import view is closed.
+     *
+     * @type {(string | null)}
+     * @memberof AppState
+     */
+    importListId: string | null;
+
+    /**
+     * Ids of the lists exported into a CSV or TSV file; `null` when the export view is closed.
+     *
+     * @type {(string[] | null)}
+     * @memberof AppState
+     */
+    exportListIds: string[] | null;
 }
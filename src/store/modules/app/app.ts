@@ -7,28 +7,165 @@ import { RootState } from '@/store/state';
 type AppContext = ActionContext<AppState, RootState>;
 
 const state: AppState = {
-    isCollectionViewOpen: true
+    isCollectionViewOpen: true,
+    isReviewViewOpen: false,
+    isTrashViewOpen: false,
+    isSettingsViewOpen: false,
+    historyListId: null,
+    importListId: null,
+    exportListIds: null
 };
 
 enum Action {
-    openCollectionView = 'openCollectionView'
+    openCollectionView = 'openCollectionView',
+    openReviewView = 'openReviewView',
+    openTrashView = 'openTrashView',
+    openSettingsView = 'openSettingsView',
+    openHistoryView = 'openHistoryView',
+    openImportView = 'openImportView',
+    openExportView = 'openExportView'
 }
 
 enum Mutation {
-    SET_COLLECTION_VIEW_OPEN_STATE = 'SET_COLLECTION_VIEW_OPEN_STATE'
+    SET_COLLECTION_VIEW_OPEN_STATE = 'SET_COLLECTION_VIEW_OPEN_STATE',
+    SET_REVIEW_VIEW_OPEN_STATE = 'SET_REVIEW_VIEW_OPEN_STATE',
+    SET_TRASH_VIEW_OPEN_STATE = 'SET_TRASH_VIEW_OPEN_STATE',
+    SET_SETTINGS_VIEW_OPEN_STATE = 'SET_SETTINGS_VIEW_OPEN_STATE',
+    SET_HISTORY_VIEW_OPEN_STATE = 'SET_HISTORY_VIEW_OPEN_STATE',
+    SET_IMPORT_VIEW_OPEN_STATE = 'SET_IMPORT_VIEW_OPEN_STATE',
+    SET_EXPORT_VIEW_OPEN_STATE = 'SET_EXPORT_VIEW_OPEN_STATE'
 }
 
+// views replacing the pool and the word editor
+const mainViewMutations: Mutation[] = [
+    Mutation.SET_REVIEW_VIEW_OPEN_STATE,
+    Mutation.SET_TRASH_VIEW_OPEN_STATE,
+    Mutation.SET_SETTINGS_VIEW_OPEN_STATE,
+    Mutation.SET_HISTORY_VIEW_OPEN_STATE,
+    Mutation.SET_IMPORT_VIEW_OPEN_STATE,
+    Mutation.SET_EXPORT_VIEW_OPEN_STATE
+];
+
 const getters = {};
 
 const actions = {
     [Action.openCollectionView](context: AppContext, { value }: { value: boolean }): void {
         context.commit(Mutation.SET_COLLECTION_VIEW_OPEN_STATE, { value });
+    },
+
+    [Action.openReviewView](context: AppContext, { value }: { value: boolean }): void {
+        helpers.openMainView(context, Mutation.SET_REVIEW_VIEW_OPEN_STATE, value);
+    },
+
+    [Action.openTrashView](context: AppContext, { value }: { value: boolean }): void {
+        helpers.openMainView(context, Mutation.SET_TRASH_VIEW_OPEN_STATE, value);
+    },
+
+    [Action.openSettingsView](context: AppContext, { value }: { value: boolean }): void {
+        helpers.openMainView(context, Mutation.SET_SETTINGS_VIEW_OPEN_STATE, value);
+    },
+
+    /**
+     * Shows the past versions of the list; closes the history view if `listId` is not provided.
+     *
+     * @param {AppContext} context
+     * @param {{ listId?: string }} { listId }
+     */
+    [Action.openHistoryView](context: AppContext, { listId }: { listId?: string }): void {
+        if (listId !== undefined) {
+            helpers.openMainView(context, Mutation.SET_HISTORY_VIEW_OPEN_STATE, true);
+        }
+
+        context.commit(Mutation.SET_HISTORY_VIEW_OPEN_STATE, { value: listId !== undefined, listId });
+    },
+
+    /**
+     * Shows the import of words from a CSV or TSV file into the list; closes the import view if `listId` is not provided.
+     *
+     * @param {AppContext} context
+     * @param {{ listId?: string }} { listId }
+     */
+    [Action.openImportView](context: AppContext, { listId }: { listId?: string }): void {
+        if (listId !== undefined) {
+            helpers.openMainView(context, Mutation.SET_IMPORT_VIEW_OPEN_STATE, true);
+        }
+
+        context.commit(Mutation.SET_IMPORT_VIEW_OPEN_STATE, { value: listId !== undefined, listId });
+    },
+
+    /**
+     * Shows the export of the lists into a CSV or TSV file; closes the export view if `listIds` are not provided.
+     *
+     * @param {AppContext} context
+     * @param {{ listIds?: string[] }} { listIds }
+     */
+    [Action.openExportView](context: AppContext, { listIds }: { listIds?: string[] }): void {
+        if (listIds !== undefined) {
+            helpers.openMainView(context, Mutation.SET_EXPORT_VIEW_OPEN_STATE, true);
+        }
+
+        context.commit(Mutation.SET_EXPORT_VIEW_OPEN_STATE, { value: listIds !== undefined, listIds });
+    }
+};
+
+const helpers = {
+    /**
+     * Review, trash, settings, history, import and export views replace the pool and the word editor, so only one of them can be open at a time.
+     *
+     * @param {AppContext} context
+     * @param {Mutation} mutation mutation setting the open state of the view
+     * @param {boolean} value
+     */
+    openMainView(context: AppContext, mutation: Mutation, value: boolean): void {
+        if (value) {
+            mainViewMutations
+                .filter(otherMutation => otherMutation !== mutation)
+                .forEach(otherMutation => context.commit(otherMutation, { value: false }));
+        }
+
+        context.commit(mutation, { value });
     }
 };
 
 const mutations = {
     [Mutation.SET_COLLECTION_VIEW_OPEN_STATE](state: AppState, { value }: { value: boolean }): void {
         state.isCollectionViewOpen = value;
+    },
+
+    [Mutation.SET_REVIEW_VIEW_OPEN_STATE](state: AppState, { value }: { value: boolean }): void {
+        state.isReviewViewOpen = value;
+    },
+
+    [Mutation.SET_TRASH_VIEW_OPEN_STATE](state: AppState, { value }: { value: boolean }): void {
+        state.isTrashViewOpen = value;
+    },
+
+    [Mutation.SET_SETTINGS_VIEW_OPEN_STATE](state: AppState, { value }: { value: boolean }): void {
+        state.isSettingsViewOpen = value;
+    },
+
+    [Mutation.SET_HISTORY_VIEW_OPEN_STATE](state: AppState, { value, listId }: { value: boolean; listId?: string }): void {
+        if (!value) {
+            state.historyListId = null;
+        } else if (listId !== undefined) {
+            state.historyListId = listId;
+        }
+    },
+
+    [Mutation.SET_IMPORT_VIEW_OPEN_STATE](state: AppState, { value, listId }: { value: boolean; listId?: string }): void {
+        if (!value) {
+            state.importListId = null;
+        } else if (listId !== undefined) {
+            state.importListId = listId;
+        }
+    },
+
+    [Mutation.SET_EXPORT_VIEW_OPEN_STATE](state: AppState, { value, listIds }: { value: boolean; listIds?: string[] }): void {
+        if (!value) {
+            state.exportListIds = null;
+        } else if (listIds !== undefined) {
+            state.exportListIds = listIds;
+        }
     }
 };
 
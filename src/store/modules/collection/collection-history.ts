@@ -0,0 +1,176 @@
+import {
+    CollectionIndex,
+    CollectionIndexOptions,
+    CollectionList,
+    CollectionListOptions,
+    CollectionWordMap,
+    CollectionWordOptions
+} from './collection-state';
+import { CollectionTrash, CollectionTrashItem } from './collection-trash';
+
+/**
+ * A partial copy of the collection taken before or after an undoable edit.
+ * Only the lists touched by the edit are included; a `null` value means the list did not exist at that moment.
+ * To keep snapshots small, a list snapshot can include just a subset of its words - the ones affected by the edit.
+ * Trash items are immutable, so the trash is recorded by reference, and only when the edit moves items in or out of the trash.
+ *
+ * @export
+ * @interface CollectionSnapshot
+ */
+export interface CollectionSnapshot {
+    index: CollectionIndexOptions;
+    lists: { [name: string]: CollectionListOptions | null };
+    trash?: CollectionTrashItem[];
+}
+
+/**
+ * A single undoable edit with the collection state before and after the edit was made.
+ *
+ * @export
+ * @interface CollectionHistoryEntry
+ */
+export interface CollectionHistoryEntry {
+    /**
+     * A human-readable name of the edit, e.g. "delete word".
+     *
+     * @type {string}
+     * @memberof CollectionHistoryEntry
+     */
+    name: string;
+
+    before: CollectionSnapshot;
+    after: CollectionSnapshot;
+}
+
+/**
+ * Specifies which parts of the collection an edit touches.
+ * `wordIds` lists the words to include in each list snapshot; `'all'` includes every word (used when whole lists are added or deleted).
+ * `trash` includes the trash items in the snapshot.
+ *
+ * @export
+ * @interface CollectionHistoryScope
+ */
+export interface CollectionHistoryScope {
+    listIds: string[];
+    wordIds: string[] | 'all';
+    trash?: boolean;
+}
+
+export class CollectionHistory {
+    static readonly MAX_SIZE: number = 100;
+
+    readonly undoStack: CollectionHistoryEntry[] = [];
+    readonly redoStack: CollectionHistoryEntry[] = [];
+
+    get canUndo(): boolean {
+        return this.undoStack.length !== 0;
+    }
+
+    get canRedo(): boolean {
+        return this.redoStack.length !== 0;
+    }
+
+    /**
+     * Adds a new entry to the undo stack. Any redoable entries are discarded since they no longer apply to the new state.
+     *
+     * @param {CollectionHistoryEntry} entry
+     * @memberof CollectionHistory
+     */
+    push(entry: CollectionHistoryEntry): void {
+        this.undoStack.push(entry);
+        this.redoStack.splice(0);
+
+        if (this.undoStack.length > CollectionHistory.MAX_SIZE) {
+            this.undoStack.shift();
+        }
+    }
+
+    clear(): void {
+        this.undoStack.splice(0);
+        this.redoStack.splice(0);
+    }
+}
+
+/**
+ * Takes a snapshot of the collection index and the specified lists.
+ *
+ * @export
+ * @param {CollectionIndex} index
+ * @param {{ [name: string]: CollectionList }} lists
+ * @param {CollectionTrash} trash
+ * @param {CollectionHistoryScope} { listIds, wordIds, trash }
+ * @returns {CollectionSnapshot}
+ */
+export function takeSnapshot(
+    index: CollectionIndex,
+    lists: { [name: string]: CollectionList },
+    trash: CollectionTrash,
+    { listIds, wordIds, trash: includeTrash = false }: CollectionHistoryScope
+): CollectionSnapshot {
+    const snapshot: CollectionSnapshot = {
+        index: clone(index.safeJSON),
+        lists: {}
+    };
+
+    if (includeTrash) {
+        snapshot.trash = trash.items.slice();
+    }
+
+    listIds.forEach(listId => {
+        const list = lists[listId];
+        if (!list) {
+            snapshot.lists[listId] = null;
+            return;
+        }
+
+        const listJSON = clone(list.safeJSON);
+
+        // keep only the affected words; the list index is always kept in full to preserve word order
+        if (wordIds !== 'all') {
+            listJSON.words = wordIds.reduce<{ [name: string]: CollectionWordOptions }>((map, wordId) => {
+                if (listJSON.words![wordId]) {
+                    map[wordId] = listJSON.words![wordId];
+                }
+
+                return map;
+            }, {}) as CollectionWordMap;
+        }
+
+        snapshot.lists[listId] = listJSON;
+    });
+
+    return snapshot;
+}
+
+/**
+ * Rebuilds a list from its (possibly partial) snapshot.
+ * Words missing from the snapshot are taken from the current list; words not referenced by the snapshot index are dropped.
+ *
+ * @export
+ * @param {CollectionListOptions} listJSON
+ * @param {CollectionList} [current]
+ * @returns {CollectionList}
+ */
+export function restoreList(listJSON: CollectionListOptions, current?: CollectionList): CollectionList {
+    const restored = CollectionList.fromJSON(clone(listJSON));
+
+    const index = listJSON.index || [];
+    const words = index.reduce<CollectionWordMap>((map, wordId) => {
+        const word = restored.words[wordId] || (current ? current.words[wordId] : undefined);
+        if (word) {
+            map[wordId] = word;
+        }
+
+        return map;
+    }, {});
+
+    return new CollectionList({
+        ...listJSON,
+        index: index.filter(wordId => words[wordId] !== undefined),
+        words
+    });
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,218 @@
+import { CollectionIndex, CollectionList, CollectionListMap, CollectionTree } from './collection-state';
+
+/**
+ * Kinds of inconsistencies the collection can end up with, for example, after an interrupted write or an edit made outside the app:
+ * - `missing-list`: a node of the collection tree refers to a list which does not exist;
+ * - `duplicate-list`: a list appears in the collection tree more than once;
+ * - `orphaned-list`: a stored list the collection tree does not refer to;
+ * - `invalid-default-list`: the default list is not set or is not in the collection tree;
+ * - `missing-word`: the list index refers to a word the list does not have;
+ * - `unindexed-word`: the list has a word its index does not refer to;
+ * - `duplicate-word`: the list index refers to the same word more than once.
+ */
+export type CollectionProblemKind =
+    | 'missing-list'
+    | 'duplicate-list'
+    | 'orphaned-list'
+    | 'invalid-default-list'
+    | 'missing-word'
+    | 'unindexed-word'
+    | 'duplicate-word';
+
+/**
+ * An inconsistency found by `checkCollection`, described along with the fix `repairCollection` applies to it.
+ *
+ * @export
+ * @interface CollectionProblem
+ */
+export interface CollectionProblem {
+    kind: CollectionProblemKind;
+    listId: string | null;
+    wordId?: string;
+
+    description: string;
+    fix: string;
+}
+
+/**
+ * Name of the list the orphaned lists are put under when the collection is repaired.
+ */
+export const RECOVERED_LIST_NAME: string = 'Recovered';
+
+/**
+ * Scans the collection tree and the lists for inconsistencies. Words are checked only in the lists which are loaded.
+ *
+ * @export
+ * @param {CollectionIndex} index
+ * @param {CollectionListMap} lists
+ * @param {string[]} [storedListIds=[]] ids of all the lists in the storage, to find the ones the tree does not refer to
+ * @returns {CollectionProblem[]}
+ */
+export function checkCollection(index: CollectionIndex, lists: CollectionListMap, storedListIds: string[] = []): CollectionProblem[] {
+    const problems: CollectionProblem[] = [];
+    const treeListIds = new Set<string>();
+
+    index.flatTree.forEach(listId => {
+        if (treeListIds.has(listId)) {
+            problems.push({
+                kind: 'duplicate-list',
+                listId,
+                description: `List "${listName(lists, listId)}" appears in the collection tree more than once`,
+                fix: 'Remove the extra entry'
+            });
+        } else if (lists[listId] === undefined) {
+            problems.push({
+                kind: 'missing-list',
+                listId,
+                description: `The collection tree refers to list "${listId}", which does not exist`,
+                fix: 'Remove the entry; its child lists take its place'
+            });
+        }
+
+        treeListIds.add(listId);
+    });
+
+    Array.from(new Set([...Object.keys(lists), ...storedListIds]))
+        .filter(listId => !treeListIds.has(listId))
+        .forEach(listId =>
+            problems.push({
+                kind: 'orphaned-list',
+                listId,
+                description: `List "${listName(lists, listId)}" is not in the collection tree`,
+                fix: `Put it under "${RECOVERED_LIST_NAME}"`
+            })
+        );
+
+    const { defaultListId } = index;
+    if (treeListIds.size !== 0 && (defaultListId === null || !treeListIds.has(defaultListId) || lists[defaultListId] === undefined)) {
+        problems.push({
+            kind: 'invalid-default-list',
+            listId: defaultListId,
+            description: defaultListId === null ? 'The default list is not set' : `The default list "${defaultListId}" does not exist`,
+            fix: 'Make the first list the default one'
+        });
+    }
+
+    Object.values(lists)
+        .filter(list => list.isLoaded && !list.isSmart)
+        .forEach(list => problems.push(...checkList(list)));
+
+    return problems;
+}
+
+/**
+ * Fixes all the problems `checkCollection` reports, in place. The orphaned lists are put under a new "Recovered" list;
+ * the ones not in memory are loaded by the caller and passed in.
+ *
+ * @export
+ * @param {CollectionIndex} index
+ * @param {CollectionListMap} lists
+ * @param {CollectionList[]} [storedLists=[]] orphaned lists loaded from the storage
+ */
+export function repairCollection(index: CollectionIndex, lists: CollectionListMap, storedLists: CollectionList[] = []): void {
+    storedLists.forEach(list => (lists[list.id] = list));
+
+    repairTree(index.tree, lists, new Set<string>());
+
+    const treeListIds = index.flatTree;
+    const orphanedLists = Object.values(lists).filter(list => !treeListIds.includes(list.id));
+
+    if (orphanedLists.length !== 0) {
+        const recoveredList = new CollectionList({ name: RECOVERED_LIST_NAME });
+
+        lists[recoveredList.id] = recoveredList;
+        index.tree.addList(recoveredList);
+
+        const recoveredTree = index.tree.items[index.tree.items.length - 1];
+        orphanedLists.forEach(list => recoveredTree.addList(list));
+    }
+
+    const { defaultListId } = index;
+    if (defaultListId === null || lists[defaultListId] === undefined) {
+        index.defaultListId = index.tree.items.length !== 0 ? index.tree.items[0].listId : null;
+    }
+
+    Object.values(lists)
+        .filter(list => list.isLoaded && !list.isSmart)
+        .forEach(list => {
+            const wordIds = Array.from(new Set(list.index)).filter(wordId => list.words[wordId] !== undefined);
+            const unindexedWordIds = Object.keys(list.words).filter(wordId => !wordIds.includes(wordId));
+
+            if (unindexedWordIds.length !== 0 || wordIds.length !== list.index.length) {
+                list.reorder([...wordIds, ...unindexedWordIds]);
+            }
+        });
+}
+
+function checkList(list: CollectionList): CollectionProblem[] {
+    const problems: CollectionProblem[] = [];
+    const wordIds = new Set<string>();
+
+    list.index.forEach(wordId => {
+        const word = list.words[wordId];
+
+        if (wordIds.has(wordId)) {
+            problems.push({
+                kind: 'duplicate-word',
+                listId: list.id,
+                wordId,
+                description: `"${word ? word.text : wordId}" appears in list "${list.name}" more than once`,
+                fix: 'Keep the first occurrence'
+            });
+        } else if (word === undefined) {
+            problems.push({
+                kind: 'missing-word',
+                listId: list.id,
+                wordId,
+                description: `List "${list.name}" refers to word "${wordId}", which is not in the list`,
+                fix: 'Remove the reference'
+            });
+        }
+
+        wordIds.add(wordId);
+    });
+
+    Object.values(list.words)
+        .filter(word => !wordIds.has(word.id))
+        .forEach(word =>
+            problems.push({
+                kind: 'unindexed-word',
+                listId: list.id,
+                wordId: word.id,
+                description: `"${word.text}" is in list "${list.name}" but not in its word order`,
+                fix: 'Add it to the end of the list'
+            })
+        );
+
+    return problems;
+}
+
+/**
+ * Removes the tree nodes of missing lists and the repeated nodes of the same list; the children of a removed node take its place.
+ *
+ * @param {CollectionTree} tree
+ * @param {CollectionListMap} lists
+ * @param {Set<string>} seenListIds
+ */
+function repairTree(tree: CollectionTree, lists: CollectionListMap, seenListIds: Set<string>): void {
+    let position = 0;
+
+    while (position < tree.items.length) {
+        const node = tree.items[position];
+
+        if (lists[node.listId] === undefined || seenListIds.has(node.listId)) {
+            tree.items.splice(position, 1, ...node.items);
+            tree.update();
+            continue;
+        }
+
+        seenListIds.add(node.listId);
+        repairTree(node, lists, seenListIds);
+
+        position++;
+    }
+}
+
+function listName(lists: CollectionListMap, listId: string): string {
+    return lists[listId] !== undefined ? lists[listId].name : listId;
+}
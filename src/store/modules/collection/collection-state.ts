@@ -4,6 +4,10 @@ import moment from 'moment';
 // import electron from 'electron';
 import WordList from '@/components/editor/word-editor.vue';
 
+import { CollectionHistory } from './collection-history';
+import { CollectionTrash } from './collection-trash';
+import { CollectionProblem } from './collection-integrity';
+
 // // remote module has a limitation which prevents preventing the close event
 // // see https://github.com/electron/electron/issues/4473 and https://github.com/electron/electron/issues/3362
 // electron.remote.getCurrentWindow().on('close', event => {
@@ -26,6 +30,12 @@ import WordList from '@/components/editor/word-editor.vue';
 
 // overloading constructors https://stackoverflow.com/a/40976608
 
+/**
+ * The version of the on-disk format of the collection index and list files.
+ * Bump it whenever the stored format changes and add a matching migration to `api/storage/migrations`.
+ */
+export const SCHEMA_VERSION: number = 4;
+
 /**
  * A result of the word lookup in the entire collection.
  *
@@ -44,10 +54,38 @@ export interface LookupResult {
     /**
      * Word matches found during the word lookup.
      *
-     * @type {{score: number, word: CollectionWord}[]}
+     * Each match also includes all the lists the word belongs to.
+     *
+     * @type {{score: number, word: CollectionWord, lists: CollectionList[]}[]}
      * @memberof LookupResult
      */
-    items: { score: number; word: CollectionWord }[];
+    items: { score: number; word: CollectionWord; lists: CollectionList[] }[];
+}
+
+/**
+ * Makes all the lists containing the same word hold the same CollectionWord instance, so an edit to the word is seen by every list.
+ * Each list file stores its own copy of the word; when the copies differ, the copy from the `preferred` lists wins,
+ * otherwise the most recently modified copy is used.
+ *
+ * @export
+ * @param {CollectionList[]} lists
+ * @param {CollectionList[]} [preferred=[]]
+ */
+export function shareWords(lists: CollectionList[], preferred: CollectionList[] = []): void {
+    const words = new Map<string, CollectionWord>();
+
+    lists.forEach(list =>
+        Object.values(list.words).forEach(word => {
+            const sharedWord = words.get(word.id);
+            if (!sharedWord || word.dateModified > sharedWord.dateModified) {
+                words.set(word.id, word);
+            }
+        })
+    );
+
+    preferred.forEach(list => Object.values(list.words).forEach(word => words.set(word.id, word)));
+
+    lists.forEach(list => Object.keys(list.words).forEach(wordId => (list.words[wordId] = words.get(wordId)!)));
 }
 
 export type CollectionListMap = { [name: string]: CollectionList };
@@ -58,6 +96,7 @@ export namespace CollectionState {
     export interface Untyped {
         index?: CollectionIndex;
         lists?: CollectionListMap;
+        trash?: CollectionTrash;
     }
 }
 
@@ -72,17 +111,52 @@ export class CollectionState {
      */
     lists: CollectionListMap;
 
+    /**
+     * Deleted lists and words which can be restored.
+     *
+     * @type {CollectionTrash}
+     * @memberof CollectionState
+     */
+    trash: CollectionTrash;
+
     readonly selectedLists: CollectionList[] = [];
     readonly selectedWords: CollectionWord[] = [];
 
+    /**
+     * Tags used to filter the pooled words. If empty, words are not filtered by tags.
+     *
+     * @type {string[]}
+     * @memberof CollectionState
+     */
+    readonly selectedTags: string[] = [];
+
     lookupValue: string = '';
     lookupResults: LookupResult[] = [];
 
+    /**
+     * Inconsistencies found by the last integrity check.
+     *
+     * @type {CollectionProblem[]}
+     * @memberof CollectionState
+     */
+    problems: CollectionProblem[] = [];
+
+    /**
+     * Undo/redo stacks of the collection edits.
+     *
+     * @type {CollectionHistory}
+     * @memberof CollectionState
+     */
+    readonly history: CollectionHistory = new CollectionHistory();
+
     constructor(options: CollectionState.Untyped = {}) {
-        const { index = new CollectionIndex(), lists = {} } = options;
+        const { index = new CollectionIndex(), lists = {}, trash = new CollectionTrash() } = options;
 
         this.index = index;
         this.lists = lists;
+        this.trash = trash;
+
+        shareWords(Object.values(lists));
     }
 
     // TODO: remove this function - move to the collection ADD_LIST function
@@ -91,9 +165,116 @@ export class CollectionState {
         this.lists[list.id] = list;
         //this.lists.set(list.id, list);
     }
+
+    /**
+     * Returns words of the list in the list order. Words of smart lists are computed from their queries.
+     *
+     * @param {CollectionList} list
+     * @returns {CollectionWord[]}
+     * @memberof CollectionState
+     */
+    getListWords(list: CollectionList): CollectionWord[] {
+        if (list.query !== null) {
+            return this.queryWords(list.query);
+        }
+
+        return list.index.map(wordId => list.words[wordId]);
+    }
+
+    /**
+     * Returns all the regular lists the word belongs to, in the collection tree order.
+     *
+     * @param {string} wordId
+     * @returns {CollectionList[]}
+     * @memberof CollectionState
+     */
+    getWordLists(wordId: string): CollectionList[] {
+        return this.index.flatTree.map(listId => this.lists[listId]).filter(list => list !== undefined && list.words[wordId] !== undefined);
+    }
+
+    /**
+     * Returns the regular lists the query draws its words from, in the collection tree order.
+     *
+     * @param {CollectionQuery} query
+     * @returns {CollectionList[]}
+     * @memberof CollectionState
+     */
+    getQueryLists(query: CollectionQuery): CollectionList[] {
+        const { listId = null, includeChildren = false } = query;
+
+        let listIds = this.index.flatTree;
+        if (listId !== null) {
+            const tree = this.index.findTree(listId);
+            listIds = !tree ? [] : includeChildren ? tree.flatTree : [listId];
+        }
+
+        return listIds.map(lId => this.lists[lId]).filter(list => list !== undefined && list.query === null);
+    }
+
+    /**
+     * Returns all the words in regular lists matching the provided query.
+     * If the query specifies a list, only that list (and optionally its descendants) is searched.
+     *
+     * @param {CollectionQuery} query
+     * @returns {CollectionWord[]}
+     * @memberof CollectionState
+     */
+    queryWords(query: CollectionQuery): CollectionWord[] {
+        const matches = matchQuery(query);
+        const words = new Map<string, CollectionWord>();
+
+        this.getQueryLists(query).forEach(list =>
+            list.index
+                .map(wordId => list.words[wordId])
+                .filter(matches)
+                .forEach(word => words.set(word.id, word))
+        );
+
+        return Array.from(words.values());
+    }
+
+    /**
+     * Returns summaries of the list words, which are available before the list is loaded; for smart lists, of the words matching the query.
+     * Loaded words are returned as they are, since they have all the summary fields.
+     *
+     * @param {CollectionList} list
+     * @returns {CollectionWordSummary[]}
+     * @memberof CollectionState
+     */
+    getWordSummaries(list: CollectionList): CollectionWordSummary[] {
+        if (list.query === null) {
+            return list.wordSummaries;
+        }
+
+        const matches = matchQuery(list.query);
+        const words = new Map<string, CollectionWordSummary>();
+
+        this.getQueryLists(list.query).forEach(l => l.wordSummaries.filter(matches).forEach(word => words.set(word.id, word)));
+
+        return Array.from(words.values());
+    }
+}
+
+/**
+ * Returns a filter of the words matching the query criteria; the list criteria are applied by `CollectionState.getQueryLists`.
+ *
+ * @param {CollectionQuery} query
+ * @returns {(word: CollectionWordSummary) => boolean}
+ */
+function matchQuery(query: CollectionQuery): (word: CollectionWordSummary) => boolean {
+    const { favourite, hasNotes, archived, addedWithinDays, tags = [] } = query;
+    const dateLimit = addedWithinDays !== undefined ? moment.now() - addedWithinDays * 24 * 60 * 60 * 1000 : 0;
+
+    return word =>
+        (favourite === undefined || word.favourite === favourite) &&
+        (hasNotes === undefined || word.hasNotes === hasNotes) &&
+        (archived === undefined || word.archived === archived) &&
+        word.dateAdded >= dateLimit &&
+        (tags.length === 0 || word.tags.some(tag => tags.includes(tag)));
 }
 
 export interface CollectionIndexOptions {
+    version?: number;
     id?: string;
     defaultListId?: string | null;
     tree?: CollectionTree;
@@ -173,12 +354,36 @@ export class CollectionIndex {
         return array;
     }
 
+    /**
+     * Finds the tree node of the list with the provided id.
+     *
+     * @param {string} listId
+     * @returns {(CollectionTree | undefined)}
+     * @memberof CollectionIndex
+     */
+    findTree(listId: string): CollectionTree | undefined {
+        const stack: CollectionTree[] = [...this.tree.items];
+
+        while (stack.length !== 0) {
+            const node = stack.pop()!;
+
+            if (node.listId === listId) {
+                return node;
+            }
+
+            stack.push.apply(stack, node.items);
+        }
+
+        return undefined;
+    }
+
     update(): void {
         this.dateModified = moment.now();
     }
 
     get safeJSON(): CollectionIndexOptions {
         return {
+            version: SCHEMA_VERSION,
             id: this.id,
             defaultListId: this.defaultListId,
             tree: this.tree.safeJSON as CollectionTree,
@@ -216,6 +421,18 @@ export class CollectionTree {
         this.update();
     }
 
+    /**
+     * Inserts a subtree at the provided position among the children of this node.
+     *
+     * @param {CollectionTreeOptions} options
+     * @param {number} [position=this.items.length]
+     * @memberof CollectionTree
+     */
+    insertTree(options: CollectionTreeOptions, position: number = this.items.length): void {
+        this.items.splice(position, 0, new CollectionTree(options, this.root));
+        this.update();
+    }
+
     deleteList(list: CollectionList): void {
         const index = this.items.findIndex(item => item.listId === list.id);
         if (index === -1) {
@@ -226,6 +443,27 @@ export class CollectionTree {
         this.update();
     }
 
+    /**
+     * Returns ids of this node's list and all its descendants in the pre-order.
+     *
+     * @readonly
+     * @type {string[]}
+     * @memberof CollectionTree
+     */
+    get flatTree(): string[] {
+        const stack: CollectionTree[] = [this];
+        const array: string[] = [];
+
+        while (stack.length !== 0) {
+            const node = stack.pop()!;
+
+            array.push(node.listId);
+            stack.push.apply(stack, node.items.slice().reverse());
+        }
+
+        return array;
+    }
+
     get expanded(): boolean {
         return this._expanded;
     }
@@ -247,7 +485,11 @@ export class CollectionTree {
     }
 }
 
-export type CollectionSortBy = 'name' | 'date';
+/**
+ * Word sort orders of a list: `date` sorts by the date added, `favourite` puts favourite words first,
+ * `manual` keeps the order of the list index, which the user can change by dragging words.
+ */
+export type CollectionSortBy = 'name' | 'date' | 'dateModified' | 'favourite' | 'length' | 'manual';
 export enum CollectionDisplay {
     all = 0,
     active = 1,
@@ -257,7 +499,74 @@ export enum CollectionDisplay {
 export type CollectionSortDirection = 'asc' | 'des';
 export type CollectionWordMap = { [name: string]: CollectionWord };
 
+const wordComparers: { [name in Exclude<CollectionSortBy, 'manual'>]: (a: CollectionWord, b: CollectionWord) => number } = {
+    name: (a, b) => a.text.localeCompare(b.text),
+    date: (a, b) => a.dateAdded - b.dateAdded,
+    dateModified: (a, b) => a.dateModified - b.dateModified,
+    favourite: (a, b) => Number(b.favourite) - Number(a.favourite),
+    length: (a, b) => a.text.length - b.text.length
+};
+
+/**
+ * Returns a sorted copy of the words. The manual order keeps the words as provided and ignores the direction.
+ * Words which compare equal are ordered by name, so the result does not depend on the order of the input.
+ *
+ * @export
+ * @param {CollectionWord[]} words
+ * @param {CollectionSortBy} sortBy
+ * @param {CollectionSortDirection} sortDirection
+ * @returns {CollectionWord[]}
+ */
+export function sortWords(words: CollectionWord[], sortBy: CollectionSortBy, sortDirection: CollectionSortDirection): CollectionWord[] {
+    if (sortBy === 'manual') {
+        return words.slice();
+    }
+
+    const compare = wordComparers[sortBy];
+    const sign = sortDirection === 'asc' ? 1 : -1;
+
+    return words.slice().sort((a, b) => sign * compare(a, b) || a.text.localeCompare(b.text));
+}
+
+/**
+ * A saved filter defining the contents of a smart list. Omitted criteria are not applied.
+ *
+ * @export
+ * @interface CollectionQuery
+ */
+export interface CollectionQuery {
+    favourite?: boolean;
+    hasNotes?: boolean;
+
+    /**
+     * `true` to match only archived words, `false` to match only active words.
+     *
+     * @type {boolean}
+     * @memberof CollectionQuery
+     */
+    archived?: boolean;
+    addedWithinDays?: number;
+
+    /**
+     * Matches words with at least one of the provided tags.
+     *
+     * @type {string[]}
+     * @memberof CollectionQuery
+     */
+    tags?: string[];
+
+    /**
+     * If specified, only words in this list are matched.
+     *
+     * @type {(string | null)}
+     * @memberof CollectionQuery
+     */
+    listId?: string | null;
+    includeChildren?: boolean;
+}
+
 export interface CollectionListOptions {
+    version?: number;
     id?: string;
     name?: string;
     dateCreated?: number;
@@ -275,6 +584,61 @@ export interface CollectionListOptions {
     //words?: Map<string, CollectionWord>;
     words?: CollectionWordMap;
     notes?: string;
+    query?: CollectionQuery | null;
+}
+
+/**
+ * The fields of a word needed to count, look up and query it without loading its list.
+ *
+ * @export
+ * @interface CollectionWordSummary
+ */
+export interface CollectionWordSummary {
+    id: string;
+    text: string;
+    archived: boolean;
+    favourite: boolean;
+    hasNotes: boolean;
+    dateAdded: number;
+    tags: string[];
+}
+
+/**
+ * A list as loaded at startup: the list fields without the words, and a summary of each word in the list order.
+ *
+ * @export
+ * @interface CollectionListSummary
+ */
+export interface CollectionListSummary {
+    list: CollectionListOptions;
+    words: CollectionWordSummary[];
+}
+
+/**
+ * Summarizes the stored list, so it can be shown and searched before its words are loaded.
+ *
+ * @export
+ * @param {CollectionListOptions} data
+ * @returns {CollectionListSummary}
+ */
+export function summarizeList(data: CollectionListOptions): CollectionListSummary {
+    const { index = [], words = {}, ...list } = data;
+
+    return {
+        list,
+        words: index
+            .map(wordId => words[wordId] as CollectionWordOptions)
+            .filter(word => word !== undefined)
+            .map(word => ({
+                id: word.id!,
+                text: word.text || '',
+                archived: !!word.archived,
+                favourite: !!word.favourite,
+                hasNotes: !!word.notes,
+                dateAdded: word.dateAdded || 0,
+                tags: word.tags || []
+            }))
+    };
 }
 
 export class CollectionList {
@@ -310,6 +674,16 @@ export class CollectionList {
      */
     readonly words: CollectionWordMap;
     private _notes: string;
+    private _query: CollectionQuery | null;
+
+    /**
+     * Summary of the list words while they are not loaded; `null` once the list is loaded.
+     * A list which is not loaded cannot be edited or written, as its words are only in the storage.
+     *
+     * @type {(CollectionListSummary | null)}
+     * @memberof CollectionList
+     */
+    summary: CollectionListSummary | null = null;
 
     constructor(options: CollectionListOptions = {}) {
         const {
@@ -321,17 +695,17 @@ export class CollectionList {
             pinned = false,
             hidden = false,
             colour = '#fff',
-            sortBy = 'name',
+            sortBy = 'manual',
             sortDirection = 'asc',
             index = [] as string[],
             words = {},
-            notes = ''
+            notes = '',
+            query = null
         } = options;
 
         this.id = id;
         this.name = name;
         this.dateCreated = dateCreated;
-        this.dateModified = dateModified;
         this.display = display;
         this.pinned = pinned;
         this.hidden = hidden;
@@ -341,6 +715,42 @@ export class CollectionList {
         this.words = words;
         this.index = index;
         this.notes = notes;
+        this.query = query;
+        // set last, as the setters above bump the modified date
+        this.dateModified = dateModified;
+    }
+
+    /**
+     * Creates a CollectionList from its plain JSON representation converting the word dictionary into proper CollectionWord objects.
+     *
+     * @static
+     * @param {CollectionListOptions} options
+     * @returns {CollectionList}
+     * @memberof CollectionList
+     */
+    static fromJSON(options: CollectionListOptions): CollectionList {
+        const words = Object.values(options.words || {}).reduce((map: CollectionWordMap, wordOptions: CollectionWordOptions) => {
+            const word = new CollectionWord(wordOptions);
+            map[word.id] = word;
+            return map;
+        }, {});
+
+        return new CollectionList({ ...options, words });
+    }
+
+    /**
+     * Creates a list which is not loaded yet from its summary; the words are loaded with `storage.loadList` when needed.
+     *
+     * @static
+     * @param {CollectionListSummary} summary
+     * @returns {CollectionList}
+     * @memberof CollectionList
+     */
+    static fromSummary(summary: CollectionListSummary): CollectionList {
+        const list = new CollectionList({ ...summary.list, index: [], words: {} });
+        list.summary = summary;
+
+        return list;
     }
 
     /**
@@ -424,6 +834,39 @@ export class CollectionList {
         return this.notes !== '';
     }
 
+    /**
+     * A saved filter of a smart list. Smart lists do not store words; their contents are computed from the query.
+     *
+     * @memberof CollectionList
+     */
+    set query(value: CollectionQuery | null) {
+        this._query = value;
+        this.update();
+    }
+
+    get query(): CollectionQuery | null {
+        return this._query;
+    }
+
+    get isSmart(): boolean {
+        return this.query !== null;
+    }
+
+    get isLoaded(): boolean {
+        return this.summary === null;
+    }
+
+    /**
+     * Words of the list in the list order or, if the list is not loaded yet, their summaries.
+     *
+     * @readonly
+     * @type {CollectionWordSummary[]}
+     * @memberof CollectionList
+     */
+    get wordSummaries(): CollectionWordSummary[] {
+        return this.summary !== null ? this.summary.words : this.index.map(id => this.words[id]);
+    }
+
     /**
      * Returns the number of words corresponding to the provided display mode.
      * For `mixed` and `all` returns the total count.
@@ -433,7 +876,7 @@ export class CollectionList {
      * @memberof CollectionList
      */
     countWords(mode: CollectionDisplay): number {
-        const l = this.index.map(id => this.words[id]);
+        const l = this.wordSummaries;
 
         switch (mode) {
             case CollectionDisplay.active:
@@ -446,13 +889,24 @@ export class CollectionList {
         return l.length;
     }
 
-    addWord(word: CollectionWord): void {
-        this.index.push(word.id);
+    addWord(word: CollectionWord, position: number = this.index.length): void {
+        this.index.splice(position, 0, word.id);
         //this.words.set(word.id, word);
         this.words[word.id] = word;
         this.update();
     }
 
+    /**
+     * Replaces the order of words in the list; the new order must contain the same word ids.
+     *
+     * @param {string[]} index
+     * @memberof CollectionList
+     */
+    reorder(index: string[]): void {
+        this.index.splice(0, this.index.length, ...index);
+        this.update();
+    }
+
     /**
      * Deletes the worf from the list.
      *
@@ -495,6 +949,7 @@ export class CollectionList {
         );
 
         return {
+            version: SCHEMA_VERSION,
             id: this.id,
             name: this.name,
             dateCreated: this.dateCreated,
@@ -507,7 +962,8 @@ export class CollectionList {
             sortDirection: this.sortDirection,
             index: this.index,
             words: safeWords as CollectionWordMap,
-            notes: this.notes
+            notes: this.notes,
+            query: this.query
         };
     }
 }
@@ -519,11 +975,73 @@ export interface CollectionWordOptions {
     archived?: boolean;
     favourite?: boolean;
     notes?: string;
+    tags?: string[];
+    review?: CollectionReviewOptions;
+    history?: CollectionWordEvent[];
 
     dateAdded?: number;
     dateModified?: number;
 }
 
+export type CollectionWordEventType =
+    | 'add'
+    | 'copy'
+    | 'move'
+    | 'remove'
+    | 'restore'
+    | 'rename'
+    | 'archive'
+    | 'unarchive'
+    | 'favourite'
+    | 'unfavourite'
+    | 'notes';
+
+/**
+ * Details of a word history event. Lists are stored with their names at the time of the event, so the history stays readable
+ * after the lists are renamed or deleted.
+ *
+ * @export
+ * @interface CollectionWordEventDetails
+ */
+export interface CollectionWordEventDetails {
+    /**
+     * The new text of a renamed word.
+     *
+     * @type {string}
+     * @memberof CollectionWordEventDetails
+     */
+    value?: string;
+
+    /**
+     * The previous text of a renamed word.
+     *
+     * @type {string}
+     * @memberof CollectionWordEventDetails
+     */
+    previousValue?: string;
+
+    /**
+     * The list the word was added, copied, moved or restored to, or removed from.
+     *
+     * @type {{ id: string; name: string }}
+     * @memberof CollectionWordEventDetails
+     */
+    list?: { id: string; name: string };
+
+    /**
+     * The list the word was moved from.
+     *
+     * @type {{ id: string; name: string }}
+     * @memberof CollectionWordEventDetails
+     */
+    fromList?: { id: string; name: string };
+}
+
+export interface CollectionWordEvent extends CollectionWordEventDetails {
+    type: CollectionWordEventType;
+    date: number;
+}
+
 export class CollectionWord {
     readonly id: string;
 
@@ -531,6 +1049,9 @@ export class CollectionWord {
     _archived: boolean;
     _favourite: boolean;
     _notes: string;
+    _tags: string[];
+    _review: CollectionReview;
+    _history: CollectionWordEvent[];
     //noteIds: string[];
 
     readonly dateAdded: number;
@@ -543,6 +1064,9 @@ export class CollectionWord {
             archived = false,
             favourite = false,
             notes = '',
+            tags = [],
+            review = {},
+            history = [],
             dateAdded = moment.now(),
             dateModified = moment.now()
         } = options;
@@ -552,8 +1076,12 @@ export class CollectionWord {
         this.archived = archived;
         this.favourite = favourite;
         this.notes = notes;
+        this.tags = tags;
+        this.review = new CollectionReview(review);
+        this._history = history.slice();
         this.dateAdded = dateAdded;
-        this.dateAdded = dateModified;
+        // set last, as the setters above bump the modified date
+        this.dateModified = dateModified;
     }
 
     set text(value: string) {
@@ -596,6 +1124,58 @@ export class CollectionWord {
         return this.notes !== '';
     }
 
+    /**
+     * Free-form labels used to group words across lists.
+     *
+     * @memberof CollectionWord
+     */
+    set tags(value: string[]) {
+        this._tags = value;
+        this.update();
+    }
+
+    get tags(): string[] {
+        return this._tags;
+    }
+
+    /**
+     * Spaced-repetition schedule of the word.
+     *
+     * @memberof CollectionWord
+     */
+    set review(value: CollectionReview) {
+        this._review = value;
+        this.update();
+    }
+
+    get review(): CollectionReview {
+        return this._review;
+    }
+
+    /**
+     * Append-only log of changes made to the word, the oldest first.
+     *
+     * @readonly
+     * @type {CollectionWordEvent[]}
+     * @memberof CollectionWord
+     */
+    get history(): CollectionWordEvent[] {
+        return this._history;
+    }
+
+    /**
+     * Appends an event to the word history.
+     *
+     * @param {CollectionWordEventType} type
+     * @param {CollectionWordEventDetails} [details={}]
+     * @param {number} [date=moment.now()]
+     * @memberof CollectionWord
+     */
+    addEvent(type: CollectionWordEventType, details: CollectionWordEventDetails = {}, date: number = moment.now()): void {
+        this._history.push({ ...details, type, date });
+        this.update();
+    }
+
     private update(): void {
         this.dateModified = moment.now();
     }
@@ -607,8 +1187,139 @@ export class CollectionWord {
             archived: this.archived,
             favourite: this.favourite,
             notes: this.notes,
+            tags: this.tags,
+            review: this.review.safeJSON,
+            history: this.history.slice(),
             dateAdded: this.dateAdded,
             dateModified: this.dateModified
         };
     }
 }
+
+/**
+ * Answer grades used by the review session; values correspond to the SM-2 response quality (0-5).
+ *
+ * @export
+ * @enum {number}
+ */
+export enum CollectionReviewGrade {
+    again = 1,
+    hard = 3,
+    good = 4,
+    easy = 5
+}
+
+export interface CollectionReviewRecord {
+    date: number;
+    grade: CollectionReviewGrade;
+    interval: number;
+    ease: number;
+}
+
+export interface CollectionReviewOptions {
+    ease?: number;
+    interval?: number;
+    repetitions?: number;
+    due?: number | null;
+    history?: CollectionReviewRecord[];
+}
+
+/**
+ * An SM-2 style review schedule of a word. The schedule is immutable; grading an answer returns a new schedule.
+ *
+ * @export
+ * @class CollectionReview
+ */
+export class CollectionReview {
+    static readonly DEFAULT_EASE: number = 2.5;
+    static readonly MIN_EASE: number = 1.3;
+
+    readonly ease: number;
+
+    /**
+     * The number of days until the next review.
+     *
+     * @type {number}
+     * @memberof CollectionReview
+     */
+    readonly interval: number;
+
+    /**
+     * The number of consecutive successful reviews.
+     *
+     * @type {number}
+     * @memberof CollectionReview
+     */
+    readonly repetitions: number;
+
+    /**
+     * The date of the next review; `null` if the word has never been reviewed.
+     *
+     * @type {(number | null)}
+     * @memberof CollectionReview
+     */
+    readonly due: number | null;
+
+    readonly history: CollectionReviewRecord[];
+
+    constructor(options: CollectionReviewOptions = {}) {
+        const { ease = CollectionReview.DEFAULT_EASE, interval = 0, repetitions = 0, due = null, history = [] } = options;
+
+        this.ease = ease;
+        this.interval = interval;
+        this.repetitions = repetitions;
+        this.due = due;
+        this.history = history;
+    }
+
+    get isNew(): boolean {
+        return this.due === null;
+    }
+
+    isDue(date: number = moment.now()): boolean {
+        return this.due === null || this.due <= date;
+    }
+
+    /**
+     * Returns a new schedule after the answer with the provided grade.
+     * A failed answer restarts the repetitions; a successful one extends the interval by the ease factor.
+     *
+     * @param {CollectionReviewGrade} grade
+     * @param {number} [date=moment.now()] date of the answer
+     * @returns {CollectionReview}
+     * @memberof CollectionReview
+     */
+    grade(grade: CollectionReviewGrade, date: number = moment.now()): CollectionReview {
+        let { interval, repetitions } = this;
+
+        if (grade < CollectionReviewGrade.hard) {
+            repetitions = 0;
+            interval = 1;
+        } else {
+            interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * this.ease);
+            repetitions++;
+        }
+
+        const ease = Math.max(CollectionReview.MIN_EASE, this.ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+        return new CollectionReview({
+            ease,
+            interval,
+            repetitions,
+            due: moment(date)
+                .add(interval, 'days')
+                .valueOf(),
+            history: [...this.history, { date, grade, interval, ease }]
+        });
+    }
+
+    get safeJSON(): CollectionReviewOptions {
+        return {
+            ease: this.ease,
+            interval: this.interval,
+            repetitions: this.repetitions,
+            due: this.due,
+            history: this.history
+        };
+    }
+}
@@ -0,0 +1,199 @@
+import uniqid from 'uniqid';
+import moment from 'moment';
+
+import {
+    CollectionList,
+    CollectionListOptions,
+    CollectionTree,
+    CollectionTreeOptions,
+    CollectionWord,
+    CollectionWordOptions,
+    SCHEMA_VERSION
+} from './collection-state';
+
+export type CollectionTrashKind = 'list' | 'word';
+
+export interface CollectionTrashItemOptions {
+    id?: string;
+    kind: CollectionTrashKind;
+    dateDeleted?: number;
+
+    /**
+     * For a deleted list, the id of its parent list in the collection tree (`null` if the list was at the top level);
+     * for a deleted word, the id of the list it was deleted from.
+     *
+     * @type {(string | null)}
+     * @memberof CollectionTrashItemOptions
+     */
+    parentId: string | null;
+
+    /**
+     * Position of the item among its parent's children or in the list index, used to put the item back where it was.
+     *
+     * @type {number}
+     * @memberof CollectionTrashItemOptions
+     */
+    position: number;
+
+    tree?: CollectionTreeOptions;
+    lists?: CollectionListOptions[];
+    word?: CollectionWordOptions;
+}
+
+/**
+ * A deleted list (together with its subtree) or a deleted word.
+ * Trash items are never modified once created, so they can be safely shared between the trash and history snapshots.
+ *
+ * @export
+ * @class CollectionTrashItem
+ */
+export class CollectionTrashItem {
+    readonly id: string;
+    readonly kind: CollectionTrashKind;
+    readonly dateDeleted: number;
+    readonly parentId: string | null;
+    readonly position: number;
+
+    readonly tree?: CollectionTreeOptions;
+    readonly lists?: CollectionListOptions[];
+    readonly word?: CollectionWordOptions;
+
+    constructor(options: CollectionTrashItemOptions) {
+        const { id = uniqid.time(), kind, dateDeleted = moment.now(), parentId, position, tree, lists, word } = options;
+
+        this.id = id;
+        this.kind = kind;
+        this.dateDeleted = dateDeleted;
+        this.parentId = parentId;
+        this.position = position;
+        this.tree = tree;
+        this.lists = lists;
+        this.word = word;
+    }
+
+    /**
+     * Creates a trash item holding the list subtree and all the lists in it.
+     *
+     * @static
+     * @param {CollectionTree} tree
+     * @param {CollectionList[]} lists
+     * @param {(string | null)} parentId
+     * @param {number} position
+     * @returns {CollectionTrashItem}
+     * @memberof CollectionTrashItem
+     */
+    static fromTree(tree: CollectionTree, lists: CollectionList[], parentId: string | null, position: number): CollectionTrashItem {
+        return new CollectionTrashItem({
+            kind: 'list',
+            parentId,
+            position,
+            tree: clone(tree.safeJSON),
+            lists: clone(lists.map(list => list.safeJSON))
+        });
+    }
+
+    static fromWord(word: CollectionWord, listId: string, position: number): CollectionTrashItem {
+        return new CollectionTrashItem({
+            kind: 'word',
+            parentId: listId,
+            position,
+            word: clone(word.safeJSON)
+        });
+    }
+
+    /**
+     * Returns the name of the deleted list or the text of the deleted word.
+     *
+     * @readonly
+     * @type {string}
+     * @memberof CollectionTrashItem
+     */
+    get name(): string {
+        if (this.kind === 'word') {
+            return this.word!.text || '';
+        }
+
+        const list = this.lists!.find(list => list.id === this.tree!.listId);
+        return list ? list.name || CollectionList.DEFAULT_NAME : CollectionList.DEFAULT_NAME;
+    }
+
+    /**
+     * Checks if the item has been in the trash longer than the retention period.
+     *
+     * @param {number} retentionDays number of days to keep the item; `0` keeps it indefinitely
+     * @param {number} [date=moment.now()]
+     * @returns {boolean}
+     * @memberof CollectionTrashItem
+     */
+    isExpired(retentionDays: number, date: number = moment.now()): boolean {
+        if (retentionDays <= 0) {
+            return false;
+        }
+
+        return moment(this.dateDeleted)
+            .add(retentionDays, 'days')
+            .isBefore(date);
+    }
+
+    get safeJSON(): CollectionTrashItemOptions {
+        return {
+            id: this.id,
+            kind: this.kind,
+            dateDeleted: this.dateDeleted,
+            parentId: this.parentId,
+            position: this.position,
+            tree: this.tree,
+            lists: this.lists,
+            word: this.word
+        };
+    }
+}
+
+export interface CollectionTrashOptions {
+    version?: number;
+    items?: CollectionTrashItemOptions[];
+}
+
+export class CollectionTrash {
+    /**
+     * Trash items, the most recently deleted first.
+     *
+     * @type {CollectionTrashItem[]}
+     * @memberof CollectionTrash
+     */
+    readonly items: CollectionTrashItem[];
+
+    constructor(options: CollectionTrashOptions = {}) {
+        const { items = [] } = options;
+
+        this.items = items.map(item => new CollectionTrashItem(item));
+    }
+
+    add(item: CollectionTrashItem): void {
+        this.items.unshift(item);
+    }
+
+    remove(item: CollectionTrashItem): void {
+        const index = this.items.indexOf(item);
+        if (index === -1) {
+            return;
+        }
+
+        this.items.splice(index, 1);
+    }
+
+    find(itemId: string): CollectionTrashItem | undefined {
+        return this.items.find(item => item.id === itemId);
+    }
+
+    get safeJSON(): CollectionTrashOptions {
+        return {
+            version: SCHEMA_VERSION,
+            items: this.items.map(item => item.safeJSON)
+        };
+    }
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
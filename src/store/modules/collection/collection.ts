@@ -1,6 +1,6 @@
 import { ActionContext } from 'vuex';
 
-import storage from '@/api/storage';
+import storage, { writeQueue, StorageChange } from '@/api/storage';
 import {
     CollectionState,
     CollectionIndex,
@@ -9,25 +9,66 @@ import {
     CollectionWord,
     CollectionListMap,
     LookupResult,
-    CollectionDisplay
+    CollectionDisplay,
+    CollectionReview,
+    CollectionReviewGrade,
+    CollectionQuery,
+    CollectionSortBy,
+    CollectionSortDirection,
+    CollectionWordEventType,
+    CollectionWordEventDetails,
+    shareWords,
+    sortWords
 } from './collection-state';
+import { CollectionHistoryEntry, CollectionHistoryScope, CollectionSnapshot, takeSnapshot, restoreList } from './collection-history';
+import { CollectionTrash, CollectionTrashItem } from './collection-trash';
+import { CollectionProblem, checkCollection, repairCollection } from './collection-integrity';
 import { RootState } from '@/store/state';
+import { trashRetentionSetting } from '@/settings';
+import { DelimitedColumn, DelimitedImportRow, expandListIds, exportDelimited, writeDelimitedFile } from '@/api/delimited';
+import { AnkiLookup, collectAnkiDecks, lookUpWord, writeAnkiPackage } from '@/api/apkg';
 import { isArray } from 'util';
 
 import Fuse from 'fuse-js-latest';
+import moment from 'moment';
 
 type CollectionContext = ActionContext<CollectionState, RootState>;
 
 const state: CollectionState = new CollectionState();
 
+// lists being loaded by their ids, so a list requested again while it loads is read only once
+const listLoads: { [name: string]: Promise<CollectionList> } = {};
+
 export enum Action {
     performLookup = 'performLookup',
 
     setListDisplay = 'setListDisplay',
+    setListSort = 'setListSort',
+    reorderWord = 'reorderWord',
 
     addWord = 'addWord',
     deleteWord = 'deleteWord',
-    moveWord = 'moveWord'
+    moveWord = 'moveWord',
+    addWordToList = 'addWordToList',
+
+    addWordTag = 'addWordTag',
+    removeWordTag = 'removeWordTag',
+    selectTag = 'selectTag',
+
+    gradeWord = 'gradeWord',
+
+    restoreTrashItem = 'restoreTrashItem',
+    purgeTrashItem = 'purgeTrashItem',
+
+    checkIntegrity = 'checkIntegrity',
+    repairIntegrity = 'repairIntegrity',
+
+    importWords = 'importWords',
+    exportWords = 'exportWords',
+    exportAnkiPackage = 'exportAnkiPackage',
+
+    undo = 'undo',
+    redo = 'redo'
 }
 
 export enum Mutation {
@@ -52,15 +93,43 @@ export enum Mutation {
 
     SET_LIST_DISPLAY = 'SET_LIST_DISPLAY',
     SET_LIST_PINNED = 'SET_LIST_PINNED',
+    SET_LIST_QUERY = 'SET_LIST_QUERY',
+    SET_LIST_SORT = 'SET_LIST_SORT',
+    SET_LIST_ORDER = 'SET_LIST_ORDER',
     ADD_WORD = 'ADD_WORD',
     SET_WORD_FAVOURITE = 'SET_WORD_FAVOURITE',
     SET_WORD_ARCHIVED = 'SET_WORD_ARCHIVED',
-    SET_WORD_NOTES = 'SET_WORD_NOTES'
+    SET_WORD_NOTES = 'SET_WORD_NOTES',
+    ADD_WORD_TAG = 'ADD_WORD_TAG',
+    REMOVE_WORD_TAG = 'REMOVE_WORD_TAG',
+    SELECT_TAG = 'SELECT_TAG',
+    DESELECT_ALL_TAGS = 'DESELECT_ALL_TAGS',
+    SET_WORD_REVIEW = 'SET_WORD_REVIEW',
+    ADD_WORD_EVENT = 'ADD_WORD_EVENT',
+    REPLACE_WORD = 'REPLACE_WORD',
+
+    SET_TRASH = 'SET_TRASH',
+    ADD_TRASH_ITEM = 'ADD_TRASH_ITEM',
+    REMOVE_TRASH_ITEM = 'REMOVE_TRASH_ITEM',
+    RESTORE_TRASH_LIST = 'RESTORE_TRASH_LIST',
+    RESTORE_TRASH_WORD = 'RESTORE_TRASH_WORD',
+
+    RECORD_HISTORY = 'RECORD_HISTORY',
+    UNDO_HISTORY = 'UNDO_HISTORY',
+    REDO_HISTORY = 'REDO_HISTORY',
+    CLEAR_HISTORY = 'CLEAR_HISTORY',
+    RESTORE_SNAPSHOT = 'RESTORE_SNAPSHOT',
+
+    SET_PROBLEMS = 'SET_PROBLEMS',
+    REPAIR_COLLECTION = 'REPAIR_COLLECTION'
 }
 
 const getters = {
     /**
      * Returns a list of words from all the selected collections. Words can be filterd by the CollectionDisplay setting.
+     * If any tags are selected, only words with at least one of the selected tags are returned.
+     * When all the selected lists are sorted the same way, the whole pool is sorted; otherwise words of each list are sorted
+     * according to the list settings and the lists follow each other in the selection order.
      *
      * @param {CollectionState} state
      * @returns {CollectionWord[]}
@@ -74,10 +143,9 @@ const getters = {
 
         const pooledWords = ([] as CollectionWord[]).concat(
             ...state.selectedLists.map(list =>
-                // list.index.map(wordId => list.words.get(wordId)!)
-                list.index
-                    .map(wordId => list.words[wordId]!)
-                    .filter(word => {
+                sortWords(
+                    // list.index.map(wordId => list.words.get(wordId)!)
+                    state.getListWords(list).filter(word => {
                         // filter out words according to the collection display setting
                         switch (list.display) {
                             case CollectionDisplay.active:
@@ -89,20 +157,120 @@ const getters = {
                             default:
                                 return true;
                         }
-                    })
+                    }),
+                    list.sortBy,
+                    list.sortDirection
+                )
             )
         );
 
-        return pooledWords;
+        // a word can be pooled by several lists if it belongs to several of them or a smart list is selected along with a list it draws from
+        let uniqueWords = Array.from(new Set(pooledWords));
+
+        const [{ sortBy, sortDirection }] = state.selectedLists;
+        if (state.selectedLists.every(list => list.sortBy === sortBy && list.sortDirection === sortDirection)) {
+            uniqueWords = sortWords(uniqueWords, sortBy, sortDirection);
+        }
+
+        if (state.selectedTags.length === 0) {
+            return uniqueWords;
+        }
+
+        return uniqueWords.filter(word => word.tags.some(tag => state.selectedTags.includes(tag)));
+    },
+
+    /**
+     * Returns the number of words in the list corresponding to the provided display mode; works for regular and smart lists.
+     */
+    countListWords: (state: CollectionState) => (listId: string, mode: CollectionDisplay): number => {
+        const list = state.lists[listId];
+        if (!list) {
+            return 0;
+        }
+
+        if (!list.isSmart) {
+            return list.countWords(mode);
+        }
+
+        // smart lists are counted from the word summaries, so the lists they draw from need not be loaded
+        const words = state.getWordSummaries(list);
+
+        switch (mode) {
+            case CollectionDisplay.active:
+                return words.filter(word => !word.archived).length;
+
+            case CollectionDisplay.archived:
+                return words.filter(word => word.archived).length;
+        }
+
+        return words.length;
     },
 
     /**
-     * Check if the word exists in the whole collection.
+     * Returns active words from the selected lists which are due for review: overdue words first, then words never reviewed before.
+     *
+     * @param {CollectionState} state
+     * @returns {CollectionWord[]}
      */
-    doesExist: (state: CollectionState) => (value: string): boolean => {
-        return Object.values(state.lists).some(list => {
-            return Object.values(list.words).some(word => word.text === value);
+    getDueWords(state: CollectionState): CollectionWord[] {
+        const now = moment.now();
+        const words = new Map<string, CollectionWord>();
+
+        state.selectedLists.forEach(list =>
+            state.getListWords(list).forEach(word => {
+                if (!word.archived && word.review.isDue(now)) {
+                    words.set(word.id, word);
+                }
+            })
+        );
+
+        return Array.from(words.values()).sort((a, b) => {
+            if (a.review.due === b.review.due) {
+                return 0;
+            }
+
+            // words never reviewed go last
+            if (a.review.due === null) {
+                return 1;
+            }
+
+            if (b.review.due === null) {
+                return -1;
+            }
+
+            return a.review.due - b.review.due;
         });
+    },
+
+    /**
+     * Returns a sorted list of all the tags used in the collection.
+     *
+     * @param {CollectionState} state
+     * @returns {string[]}
+     */
+    getTags(state: CollectionState): string[] {
+        const tags = new Set<string>();
+
+        Object.values(state.lists).forEach(list => list.wordSummaries.forEach(word => word.tags.forEach(tag => tags.add(tag))));
+
+        return Array.from(tags).sort((a, b) => a.localeCompare(b));
+    },
+
+    /**
+     * Returns all the lists the word with the given id belongs to.
+     */
+    getWordLists: (state: CollectionState) => (wordId: string): CollectionList[] => {
+        return state.getWordLists(wordId);
+    },
+
+    /**
+     * Check if the word exists in the whole collection. Returns every list containing a word with this text; an empty array if there are none.
+     * Lists not loaded yet are checked by their word summaries.
+     */
+    doesExist: (state: CollectionState) => (value: string): CollectionList[] => {
+        return state.index.flatTree
+            .map(listId => state.lists[listId])
+            .filter(list => list !== undefined && list.wordSummaries.some(word => word.text === value));
     }
 };
 
@@ -110,20 +278,42 @@ const actions = {
     // #region EDIT INDEX
 
     async fetchIndex(context: CollectionContext): Promise<void> {
-        let index: CollectionIndex = state.index;
-        let lists: CollectionListMap = state.lists;
+        // an encrypted collection is loaded once it's unlocked with the passphrase
+        await context.dispatch('storage/fetchEncryption', undefined, { root: true });
+        if (context.rootState.storage.isLocked) {
+            return;
+        }
 
         const hasCollection = await storage.hasCollection();
 
+        // the selection refers to the previously loaded collection, for example, of another profile
+        context.commit(Mutation.DESELECT_ALL_WORDS);
+        context.commit(Mutation.DESELECT_ALL_TAGS);
+        context.commit(Mutation.DESELECT_ALL_LISTS);
+
         if (!hasCollection) {
+            // a new collection starts with a single empty list
+            context.commit(Mutation.SET_INDEX, new CollectionIndex());
+            context.commit(Mutation.SET_LISTS, {});
+            context.commit(Mutation.SET_TRASH, { trash: new CollectionTrash() });
+
             actions.addList(context, new CollectionList());
             actions.writeCollection(context);
         } else {
-            ({ index, lists } = await storage.loadCollection());
+            // the lists are loaded without their words, which are loaded once the lists are opened
+            const { index, lists, trash } = await storage.loadCollectionSummary!();
+
+            context.commit('SET_INDEX', index);
+            context.commit('SET_LISTS', lists);
+            context.commit(Mutation.SET_TRASH, { trash });
         }
 
-        context.commit('SET_INDEX', index);
-        context.commit('SET_LISTS', lists);
+        context.commit(Mutation.CLEAR_HISTORY);
+
+        actions.purgeExpiredTrash(context);
+
+        // the problems found are reported to be reviewed and repaired in the settings
+        await actions.checkIntegrity(context);
 
         if (state.index.defaultListId === null) {
             return;
@@ -135,15 +325,104 @@ const actions = {
             return;
         }
 
-        context.commit('SELECT_LIST', { list: defaultList });
+        await actions.loadLists(context, { listIds: helpers.getListSources(context, defaultList) });
+        context.commit('SELECT_LIST', { list: state.lists[defaultList.id] });
+    },
+
+    /**
+     * Loads the words of the lists not loaded yet, replacing the lists in the collection.
+     * Lists sharing words with them are loaded as well, so a word is either loaded in all its lists or in none,
+     * and an edit to a loaded word is written to every list holding it.
+     *
+     * @param {CollectionContext} context
+     * @param {{ listIds: string[] }} { listIds }
+     * @returns {Promise<void>}
+     */
+    async loadLists(context: CollectionContext, { listIds }: { listIds: string[] }): Promise<void> {
+        const unloadedLists = Object.values(state.lists).filter(list => !list.isLoaded);
+        const pendingLists = listIds.map(listId => state.lists[listId]).filter(list => list !== undefined && !list.isLoaded);
+
+        const listsToLoad = new Set<CollectionList>();
+        const wordIds = new Set<string>();
+
+        while (pendingLists.length !== 0) {
+            const list = pendingLists.pop()!;
+            if (listsToLoad.has(list)) {
+                continue;
+            }
+
+            listsToLoad.add(list);
+            list.wordSummaries.forEach(word => wordIds.add(word.id));
+
+            pendingLists.push(...unloadedLists.filter(l => !listsToLoad.has(l) && l.wordSummaries.some(word => wordIds.has(word.id))));
+        }
+
+        if (listsToLoad.size === 0) {
+            return;
+        }
+
+        const loadedLists = (await Promise.all(Array.from(listsToLoad).map(list => helpers.loadList(list.id)))).filter(
+            // the list might have been loaded by another call or deleted in the meantime
+            list => state.lists[list.id] !== undefined && !state.lists[list.id].isLoaded
+        );
+
+        if (loadedLists.length === 0) {
+            return;
+        }
+
+        const lists = { ...state.lists };
+        loadedLists.forEach(list => (lists[list.id] = list));
+
+        // words already in memory might have unsaved edits, so the loaded copies give way to them
+        const otherLists = Object.values(lists).filter(list => !loadedLists.includes(list));
+        shareWords(Object.values(lists), otherLists);
+
+        context.commit(Mutation.SET_LISTS, lists);
+        helpers.replaceSelection(context);
+    },
+
+    /**
+     * Replaces the whole collection, for example, with a restored snapshot. Lists missing from the new collection are removed
+     * from the storage, and the undo history is cleared as it refers to the replaced collection.
+     *
+     * @param {CollectionContext} context
+     * @param {{ value: CollectionState }} { value }
+     */
+    replaceCollection(context: CollectionContext, { value }: { value: CollectionState }): void {
+        Object.keys(state.lists)
+            .filter(listId => value.lists[listId] === undefined)
+            .forEach(listId => actions.removeList(context, listId));
+
+        context.commit(Mutation.DESELECT_ALL_WORDS);
+        context.commit(Mutation.DESELECT_ALL_TAGS);
+        context.commit(Mutation.DESELECT_ALL_LISTS);
+
+        context.commit(Mutation.SET_INDEX, value.index);
+        context.commit(Mutation.SET_LISTS, value.lists);
+        context.commit(Mutation.SET_TRASH, { trash: value.trash });
+        context.commit(Mutation.CLEAR_HISTORY);
+
+        actions.writeCollection(context);
+
+        const defaultList = state.index.defaultListId !== null ? state.lists[state.index.defaultListId] : undefined;
+        if (defaultList !== undefined) {
+            context.commit(Mutation.SELECT_LIST, { list: defaultList });
+        }
     },
 
     writeCollection(context: CollectionContext): void {
-        storage.saveCollection(state);
+        actions.writeList(context, Object.keys(state.lists));
+        actions.writeIndex(context);
+        actions.writeTrash(context);
     },
 
+    // writes go through the write queue, which coalesces them by key and always writes the latest state
     writeIndex(context: CollectionContext): void {
-        storage.saveIndex(state.index);
+        writeQueue.enqueue('index', () => storage.saveIndex(state.index));
+    },
+
+    writeTrash(context: CollectionContext): void {
+        writeQueue.enqueue('trash', () => storage.saveTrash(state.trash));
     },
 
     /**
@@ -162,13 +441,162 @@ const actions = {
 
         function _writeList(lId: string) {
             // const list = state.lists.get(lId);
-            const list = state.lists[lId];
-            if (!list) {
+            // a list not loaded yet has no changes to write, and its words are only in the storage
+            if (!state.lists[lId] || !state.lists[lId].isLoaded) {
+                return;
+            }
+
+            // the list is looked up when the write is performed, as it might be replaced by undo in the meantime
+            writeQueue.enqueue(`list-${lId}`, () => {
+                const list = state.lists[lId];
+                return list && list.isLoaded ? storage.saveList(list as CollectionList) : Promise.resolve();
+            });
+        }
+    },
+
+    /**
+     * Removes lists from the storage; a pending write of the same list is replaced by the removal.
+     *
+     * @param {CollectionContext} context
+     * @param {string} listId
+     */
+    removeList(context: CollectionContext, listId: string): void {
+        writeQueue.enqueue(`list-${listId}`, () => storage.deleteList(listId));
+    },
+
+    /**
+     * Merges the index, a list or the trash changed outside the app (for example, by a file sync client) into the collection.
+     * If the changed piece has unsaved edits in memory, the in-memory version is kept, to be written over the outside change,
+     * and a conflict is reported. The undo history is cleared, as it might refer to the replaced data.
+     *
+     * @param {CollectionContext} context
+     * @param {{ change: StorageChange }} { change }
+     * @returns {Promise<void>}
+     */
+    async applyStorageChange(context: CollectionContext, { change }: { change: StorageChange }): Promise<void> {
+        const key = change.type === 'list' ? `list-${change.listId}` : change.type;
+
+        if (writeQueue.hasPending(key)) {
+            const list = change.listId !== undefined ? state.lists[change.listId] : undefined;
+            const name = change.type === 'list' ? `List "${list ? list.name : change.listId}"` : `The collection ${change.type}`;
+
+            context.commit(
+                'storage/ADD_CONFLICT',
+                { value: `${name} was changed outside the app while it had unsaved changes; the changes made in the app are kept.` },
+                { root: true }
+            );
+            return;
+        }
+
+        if (change.removed && change.type !== 'list') {
+            // the index and the trash are written back from memory, as the collection cannot do without them
+            if (change.type === 'index') {
+                actions.writeIndex(context);
+            } else {
+                actions.writeTrash(context);
+            }
+
+            return;
+        }
+
+        if (change.type === 'trash') {
+            context.commit(Mutation.SET_TRASH, { trash: await storage.loadTrash() });
+        } else if (change.type === 'index') {
+            const index = await storage.loadIndex();
+
+            // lists added to the index outside the app are loaded; lists removed from it are dropped
+            const lists: CollectionListMap = {};
+            for (const listId of index.flatTree) {
+                lists[listId] = state.lists[listId] || (await storage.loadList(listId));
+            }
+
+            const addedLists = Object.values(lists).filter(list => state.lists[list.id] === undefined);
+            shareWords(Object.values(lists), addedLists);
+
+            context.commit(Mutation.SET_INDEX, index);
+            context.commit(Mutation.SET_LISTS, lists);
+        } else {
+            const listId = change.listId!;
+            const lists = { ...state.lists };
+
+            // a list file removed while the index still refers to the list is not dropped; it will be written again with the next edit
+            if (change.removed) {
+                if (state.index.flatTree.includes(listId)) {
+                    return;
+                }
+
+                delete lists[listId];
+            } else if (lists[listId] !== undefined && !lists[listId].isLoaded) {
+                // a list not loaded yet has nothing to merge; it's loaded with the change, along with the lists sharing its words
+                await actions.loadLists(context, { listIds: [listId] });
                 return;
+            } else {
+                lists[listId] = await storage.loadList(listId);
+                shareWords(Object.values(lists), [lists[listId]]);
             }
 
-            storage.saveList(list as CollectionList);
+            context.commit(Mutation.SET_LISTS, lists);
+        }
+
+        helpers.replaceSelection(context);
+        context.commit(Mutation.CLEAR_HISTORY);
+    },
+
+    /**
+     * Replaces a list with its past version, for example, loaded from the storage history; can be undone.
+     * Words shared with other lists take the restored state there as well.
+     *
+     * @param {CollectionContext} context
+     * @param {{ list: CollectionList }} { list }
+     */
+    async restoreListRevision(context: CollectionContext, { list }: { list: CollectionList }): Promise<void> {
+        await actions.loadLists(context, { listIds: [list.id, ...helpers.getSummaryListIds(context, list.index)] });
+
+        if (state.lists[list.id] === undefined) {
+            return;
+        }
+
+        const listIds = helpers.getWordListIds(context, Object.values(list.words), [list.id]);
+
+        helpers.record(context, 'restore list version', { listIds, wordIds: 'all' }, () => {
+            const lists = { ...state.lists, [list.id]: list };
+            shareWords(Object.values(lists), [list]);
+
+            context.commit(Mutation.SET_LISTS, lists);
+        });
+
+        helpers.replaceSelection(context);
+        actions.writeList(context, listIds);
+    },
+
+    /**
+     * Puts a past version of a word back into the list, replacing the current version of the word in all its lists; can be undone.
+     *
+     * @param {CollectionContext} context
+     * @param {{ listId: string; word: CollectionWord }} { listId, word }
+     */
+    async restoreWordRevision(context: CollectionContext, { listId, word }: { listId: string; word: CollectionWord }): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId, ...helpers.getSummaryListIds(context, [word.id])] });
+
+        const list = state.lists[listId];
+        if (list === undefined || list.isSmart) {
+            return;
         }
+
+        const listIds = helpers.getWordListIds(context, [word], [list.id]);
+
+        helpers.record(context, 'restore word version', { listIds, wordIds: [word.id] }, () => {
+            context.commit(Mutation.REPLACE_WORD, { word });
+
+            if (list.words[word.id] === undefined) {
+                context.commit(Mutation.ADD_WORD, { list, word });
+            }
+
+            context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'restore', details: { list: helpers.describeList(list) } });
+        });
+
+        helpers.replaceSelection(context);
+        actions.writeList(context, listIds);
     },
 
     /**
@@ -178,57 +606,84 @@ const actions = {
      * @param {{ tree: CollectionTree }} { tree }
      */
     setIndexTree(context: CollectionContext, { tree }: { tree: CollectionTree }): void {
-        context.commit('SET_INDEX_TREE', { tree });
+        helpers.record(context, 'reorder lists', { listIds: [], wordIds: [] }, () => context.commit('SET_INDEX_TREE', { tree }));
         actions.writeIndex(context);
     },
 
     addList(context: CollectionContext, list: CollectionList): void {
-        // context.commit('ADD_LIST', { tree: state.index.tree, list });
-        context.commit('ADD_LIST', {
-            tree: state.index.tree,
-            list
-        });
+        helpers.record(context, 'add list', { listIds: [list.id], wordIds: 'all' }, () => {
+            // context.commit('ADD_LIST', { tree: state.index.tree, list });
+            context.commit('ADD_LIST', {
+                tree: state.index.tree,
+                list
+            });
 
-        // if this is a first list added, make it default
-        if (!state.index.defaultListId) {
-            context.commit('SET_INDEX_DEFAULT_LIST', { list });
-        }
+            // if this is a first list added, make it default
+            if (!state.index.defaultListId) {
+                context.commit('SET_INDEX_DEFAULT_LIST', { list });
+            }
+        });
 
         actions.writeList(context, list.id);
         actions.writeIndex(context);
     },
 
-    deleteList(context: CollectionContext, { listId }: { listId: string }): void {
+    async deleteList(context: CollectionContext, { listId }: { listId: string }): Promise<void> {
+        const { listTree: deletedTree } = helpers.findTree(context, listId);
+
+        // the deleted lists go to the trash with their words
+        await actions.loadLists(context, { listIds: deletedTree ? deletedTree.flatTree : [listId] });
+
         const list = state.lists[listId];
         if (!list) {
             return;
         }
 
-        const { parentTree } = helpers.findTree(context, listId);
-        if (!parentTree) {
+        const { parentTree, listTree } = helpers.findTree(context, listId);
+        if (!parentTree || !listTree) {
             return;
         }
 
         console.log('deleteList', list, parentTree);
 
-        // remove the list from the index first
-        context.commit(Mutation.DELETE_LIST, { list, tree: parentTree });
-        storage.deleteList(listId);
-        delete state.lists[listId];
+        context.dispatch('storage/takeSnapshot', { reason: 'delete-list' }, { root: true });
 
-        // check if there are any orphaned lists left and remove them as well
+        // the deleted list with its children goes to the trash as a single item;
+        // any already orphaned lists are moved to the trash as well, to be restored at the top level
         const flatTree = state.index.flatTree;
+        const orphanedListIds = Object.keys(state.lists).filter(lId => !flatTree.includes(lId));
+        const trashItems = [
+            CollectionTrashItem.fromTree(
+                listTree,
+                listTree.flatTree.map(lId => state.lists[lId]).filter(list => list !== undefined),
+                parentTree === state.index.tree ? null : parentTree.listId,
+                parentTree.items.indexOf(listTree)
+            ),
+            ...orphanedListIds.map(lId =>
+                CollectionTrashItem.fromTree(
+                    new CollectionTree({ listId: lId }, state.index),
+                    [state.lists[lId]],
+                    null,
+                    Number.MAX_SAFE_INTEGER
+                )
+            )
+        ];
 
-        Object.keys(state.lists).forEach(listId => {
-            if (flatTree.includes(listId)) {
-                return;
-            }
+        const affectedListIds = [...listTree.flatTree, ...orphanedListIds];
 
-            storage.deleteList(listId);
-            delete state.lists[listId];
+        helpers.record(context, 'delete list', { listIds: affectedListIds, wordIds: 'all', trash: true }, () => {
+            // remove the list from the index first
+            context.commit(Mutation.DELETE_LIST, { list, tree: parentTree });
+            trashItems.forEach(item => context.commit(Mutation.ADD_TRASH_ITEM, { item }));
+
+            affectedListIds.forEach(lId => {
+                actions.removeList(context, lId);
+                delete state.lists[lId];
+            });
         });
 
         actions.writeIndex(context);
+        actions.writeTrash(context);
 
         // TODO: remove deleted lists from selection
     },
@@ -282,7 +737,14 @@ const actions = {
      * @param {{ listId: string; append: boolean }} {listId, append  = false}
      * @returns
      */
-    selectList(context: CollectionContext, { listId, append = false, value }: { listId: string; append: boolean; value?: boolean }) {
+    async selectList(
+        context: CollectionContext,
+        { listId, append = false, value }: { listId: string; append: boolean; value?: boolean }
+    ): Promise<void> {
+        if (state.lists[listId] !== undefined) {
+            await actions.loadLists(context, { listIds: helpers.getListSources(context, state.lists[listId]) });
+        }
+
         if (!append) {
             context.commit('DESELECT_ALL_LISTS');
         }
@@ -304,18 +766,27 @@ const actions = {
 
     // #region EDIT LIST
 
-    setListName(context: CollectionContext, { listId, value }: { listId: string; value: string }): void {
+    async setListName(context: CollectionContext, { listId, value }: { listId: string; value: string }): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId] });
+
         const list = state.lists[listId];
         if (!list) {
             return;
         }
 
-        context.commit(Mutation.SET_LIST_NAME, { list, value });
+        helpers.record(context, 'rename list', { listIds: [list.id], wordIds: [] }, () =>
+            context.commit(Mutation.SET_LIST_NAME, { list, value })
+        );
 
         actions.writeList(context, list.id);
     },
 
-    [Action.setListDisplay](context: CollectionContext, { listId, value }: { listId: string; value: CollectionDisplay }): void {
+    async [Action.setListDisplay](
+        context: CollectionContext,
+        { listId, value }: { listId: string; value: CollectionDisplay }
+    ): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId] });
+
         const list = state.lists[listId];
         if (list === undefined) {
             return;
@@ -326,128 +797,305 @@ const actions = {
         actions.writeList(context, list.id);
     },
 
-    setListPinned(context: CollectionContext, { listId, value }: { listId: string; value: boolean }): void {
+    async [Action.setListSort](
+        context: CollectionContext,
+        { listId, sortBy, sortDirection }: { listId: string; sortBy?: CollectionSortBy; sortDirection?: CollectionSortDirection }
+    ): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId] });
+
         const list = state.lists[listId];
         if (list === undefined) {
             return;
         }
 
-        context.commit('SET_LIST_PINNED', { list, value });
+        context.commit(Mutation.SET_LIST_SORT, { list, sortBy, sortDirection });
 
         actions.writeList(context, list.id);
     },
 
-    [Action.addWord](context: CollectionContext, { listId, word }: { listId: string; word: CollectionWord | CollectionWord[] }): void {
+    /**
+     * Moves the word to the position of the target word in the list and switches the list to the manual order.
+     * If the list was sorted in some other way, the sorted order becomes the new manual order, so the words do not jump around.
+     *
+     * @param {CollectionContext} context
+     * @param {{ listId: string; wordId: string; targetWordId: string }} { listId, wordId, targetWordId }
+     * @returns {void}
+     */
+    [Action.reorderWord](
+        context: CollectionContext,
+        { listId, wordId, targetWordId }: { listId: string; wordId: string; targetWordId: string }
+    ): void {
         const list = state.lists[listId];
-        if (list === undefined) {
+        if (list === undefined || list.isSmart || wordId === targetWordId || !list.words[wordId] || !list.words[targetWordId]) {
             return;
         }
 
-        const words = Array.isArray(word) ? word : [word];
+        const index = sortWords(state.getListWords(list), list.sortBy, list.sortDirection).map(word => word.id);
+        const targetPosition = index.indexOf(targetWordId);
 
-        words.forEach(word => context.commit('ADD_WORD', { list, word }));
+        index.splice(index.indexOf(wordId), 1);
+        index.splice(targetPosition, 0, wordId);
+
+        helpers.record(context, 'reorder words', { listIds: [list.id], wordIds: [] }, () => {
+            context.commit(Mutation.SET_LIST_ORDER, { list, value: index });
+            context.commit(Mutation.SET_LIST_SORT, { list, sortBy: 'manual' });
+        });
 
         actions.writeList(context, list.id);
     },
 
-    // TODO: if the defaultListId is invalid, reset the default list to the first list in the tree
+    async setListPinned(context: CollectionContext, { listId, value }: { listId: string; value: boolean }): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId] });
 
-    [Action.deleteWord](context: CollectionContext, { wordId }: { wordId: string }): void {
-        const { word, list } = helpers.findWord(context, wordId, true);
-
-        if (!word) {
+        const list = state.lists[listId];
+        if (list === undefined) {
             return;
         }
 
-        context.commit(Mutation.SELECT_WORD, { word, value: false });
-        context.commit(Mutation.DELETE_WORD, { list, word });
-        actions.writeList(context, list!.id);
+        context.commit('SET_LIST_PINNED', { list, value });
+
+        actions.writeList(context, list.id);
     },
 
     /**
-     * Move a word from one list to the other give a word id and the target list id.
+     * Sets the query of the smart list.
      *
      * @param {CollectionContext} context
-     * @param {{ wordId: string; listId: string }} { wordId, listId } id of the word to move and id of the list to move the word to
-     * @returns {void}
+     * @param {{ listId: string; value: CollectionQuery }} { listId, value }
      */
-    [Action.moveWord](context: CollectionContext, { wordId, listId }: { wordId: string; listId: string }): void {
-        const { word } = helpers.findWord(context, wordId, true);
-        const toList = context.state.lists[listId];
+    async setListQuery(context: CollectionContext, { listId, value }: { listId: string; value: CollectionQuery }): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId] });
 
-        if (!toList || !word) {
+        const list = state.lists[listId];
+        if (list === undefined || !list.isSmart) {
             return;
         }
 
-        context.dispatch(Action.deleteWord, { wordId });
-        context.dispatch(Action.addWord, { word, listId: toList.id });
-    },
+        helpers.record(context, 'edit smart list', { listIds: [list.id], wordIds: [] }, () =>
+            context.commit(Mutation.SET_LIST_QUERY, { list, value })
+        );
 
-    /**
-     * Deletes all currently selected words from the corresponding lists.
-     *
-     * @param {CollectionContext} context
-     */
-    deleteSelectedWords(context: CollectionContext): void {
-        type AggregatedLists = { [name: string]: { list: CollectionList; words: CollectionWord[] } };
+        actions.writeList(context, list.id);
+    },
 
-        // map selected words to their corresponding lists, so each lists can be processed in turn
-        const lists = state.selectedWords.reduce<AggregatedLists>((map, { id }) => {
-            const { word, list } = helpers.findWord(context, id);
-            if (!word || !list) {
-                return map;
-            }
+    async [Action.addWord](
+        context: CollectionContext,
+        { listId, word }: { listId: string; word: CollectionWord | CollectionWord[] }
+    ): Promise<void> {
+        const wordIds = (Array.isArray(word) ? word : [word]).map(w => w.id);
+        await actions.loadLists(context, { listIds: [listId, ...helpers.getSummaryListIds(context, wordIds)] });
 
-            if (!map[list.id]) {
-                map[list.id] = { list, words: [] };
-            }
+        const list = state.lists[listId];
+        // smart lists cannot hold words directly
+        if (list === undefined || list.isSmart) {
+            return;
+        }
 
-            map[list.id].words.push(word);
+        // a word already present in the collection is shared with its other lists instead of being copied
+        const words = (Array.isArray(word) ? word : [word])
+            .filter(word => list.words[word.id] === undefined)
+            .map(word => helpers.findWord(context, word.id, true).word || word);
 
-            return map;
-        }, {});
+        // shared words get a history event, so their other lists need to be recorded and written as well
+        const listIds = helpers.getWordListIds(context, words, [list.id]);
 
-        Object.values(lists).forEach(({ list, words }) => {
+        helpers.record(context, 'add word', { listIds, wordIds: words.map(word => word.id) }, () =>
             words.forEach(word => {
-                context.commit(Mutation.SELECT_WORD, { word, value: false });
-                context.commit(Mutation.DELETE_WORD, { list, word });
-            });
-            actions.writeList(context, list.id);
-        });
-    },
+                const type = helpers.findWord(context, word.id, true).word ? 'copy' : 'add';
 
-    // #endregion
+                context.commit('ADD_WORD', { list, word });
+                context.commit(Mutation.ADD_WORD_EVENT, { word, type, details: { list: helpers.describeList(list) } });
+            })
+        );
 
-    // #region EDIT WORD
+        actions.writeList(context, listIds);
+    },
 
     /**
-     * Sets the text value of the word with the given wordId.
+     * Deletes the word from the list, keeping it in its other lists. Without the list id, the word is deleted from the first list holding it.
      *
      * @param {CollectionContext} context
-     * @param {{ wordId: string; value: string }} { wordId, value }
+     * @param {{ wordId: string; listId?: string }} { wordId, listId } id of the word to delete and id of the list it is shown in
      * @returns {void}
      */
-    setWordText(context: CollectionContext, { wordId, value, searchAll }: { wordId: string; value: string; searchAll?: boolean }): void {
-        const { word, list } = helpers.findWord(context, wordId, searchAll);
-        if (!word) {
+    [Action.deleteWord](context: CollectionContext, { wordId, listId }: { wordId: string; listId?: string }): void {
+        const list = listId !== undefined ? context.state.lists[listId] : helpers.findWord(context, wordId, true).list;
+        const word = list !== undefined ? list.words[wordId] : undefined;
+
+        if (!word || !list) {
             return;
         }
 
-        context.commit(Mutation.SET_WORD_TEXT, { word, value });
-        actions.writeList(context, list!.id);
+        const listIds = helpers.getWordListIds(context, [word]);
+
+        helpers.record(context, 'delete word', { listIds, wordIds: [word.id], trash: true }, () => {
+            context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'remove', details: { list: helpers.describeList(list) } });
+
+            const item = CollectionTrashItem.fromWord(word, list.id, list.index.indexOf(word.id));
+
+            context.commit(Mutation.SELECT_WORD, { word, value: false });
+            context.commit(Mutation.DELETE_WORD, { list, word });
+            context.commit(Mutation.ADD_TRASH_ITEM, { item });
+        });
+        actions.writeList(context, listIds);
+        actions.writeTrash(context);
     },
 
-    setWordFavourite(
+    /**
+     * Move a word from one list to the other give a word id and the target list id.
+     *
+     * @param {CollectionContext} context
+     * @param {{ wordId: string; listId: string }} { wordId, listId } id of the word to move and id of the list to move the word to
+     * @returns {void}
+     */
+    async [Action.moveWord](context: CollectionContext, { wordId, listId }: { wordId: string; listId: string }): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId] });
+
+        const { word, list: fromList } = helpers.findWord(context, wordId, true);
+        const toList = context.state.lists[listId];
+
+        if (!toList || !word || !fromList || fromList === toList || toList.isSmart) {
+            return;
+        }
+
+        const listIds = helpers.getWordListIds(context, [word], [toList.id]);
+
+        // move is recorded as a single edit, so it can be undone in one step
+        helpers.record(context, 'move word', { listIds, wordIds: [word.id] }, () => {
+            context.commit(Mutation.SELECT_WORD, { word, value: false });
+            context.commit(Mutation.DELETE_WORD, { list: fromList, word });
+
+            // the word might already belong to the target list as well
+            if (!toList.words[word.id]) {
+                context.commit(Mutation.ADD_WORD, { list: toList, word });
+            }
+
+            const details = { list: helpers.describeList(toList), fromList: helpers.describeList(fromList) };
+            context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'move', details });
+        });
+
+        actions.writeList(context, listIds);
+    },
+
+    /**
+     * Adds a word to one more list keeping it in its present lists; all the lists share the same word.
+     *
+     * @param {CollectionContext} context
+     * @param {{ wordId: string; listId: string }} { wordId, listId } id of the word to add and id of the list to add the word to
+     * @returns {void}
+     */
+    async [Action.addWordToList](context: CollectionContext, { wordId, listId }: { wordId: string; listId: string }): Promise<void> {
+        await actions.loadLists(context, { listIds: [listId] });
+
+        const { word } = helpers.findWord(context, wordId, true);
+        const toList = context.state.lists[listId];
+
+        if (!toList || !word || toList.isSmart || toList.words[word.id]) {
+            return;
+        }
+
+        const listIds = helpers.getWordListIds(context, [word], [toList.id]);
+
+        helpers.record(context, 'add word to list', { listIds, wordIds: [word.id] }, () => {
+            context.commit(Mutation.ADD_WORD, { list: toList, word });
+            context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'copy', details: { list: helpers.describeList(toList) } });
+        });
+
+        actions.writeList(context, listIds);
+    },
+
+    /**
+     * Deletes all currently selected words from the corresponding lists.
+     *
+     * @param {CollectionContext} context
+     */
+    deleteSelectedWords(context: CollectionContext): void {
+        type AggregatedLists = { [name: string]: { list: CollectionList; words: CollectionWord[] } };
+
+        // map selected words to their corresponding lists, so each lists can be processed in turn
+        const lists = state.selectedWords.reduce<AggregatedLists>((map, { id }) => {
+            const { word, list } = helpers.findWord(context, id);
+            if (!word || !list) {
+                return map;
+            }
+
+            if (!map[list.id]) {
+                map[list.id] = { list, words: [] };
+            }
+
+            map[list.id].words.push(word);
+
+            return map;
+        }, {});
+
+        const scope: CollectionHistoryScope = {
+            listIds: helpers.getWordListIds(context, state.selectedWords),
+            wordIds: state.selectedWords.map(word => word.id),
+            trash: true
+        };
+
+        helpers.record(context, 'delete words', scope, () =>
+            Object.values(lists).forEach(({ list, words }) => {
+                words.forEach(word => {
+                    context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'remove', details: { list: helpers.describeList(list) } });
+
+                    const item = CollectionTrashItem.fromWord(word, list.id, list.index.indexOf(word.id));
+
+                    context.commit(Mutation.SELECT_WORD, { word, value: false });
+                    context.commit(Mutation.DELETE_WORD, { list, word });
+                    context.commit(Mutation.ADD_TRASH_ITEM, { item });
+                });
+            })
+        );
+
+        actions.writeList(context, scope.listIds);
+        actions.writeTrash(context);
+    },
+
+    // #endregion
+
+    // #region EDIT WORD
+
+    /**
+     * Sets the text value of the word with the given wordId.
+     *
+     * @param {CollectionContext} context
+     * @param {{ wordId: string; value: string }} { wordId, value }
+     * @returns {void}
+     */
+    setWordText(context: CollectionContext, { wordId, value, searchAll }: { wordId: string; value: string; searchAll?: boolean }): void {
+        const { word, list } = helpers.findWord(context, wordId, searchAll);
+        if (!word || !list) {
+            return;
+        }
+
+        if (word.text === value) {
+            return;
+        }
+
+        helpers.editWord(context, 'rename word', word, () => {
+            context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'rename', details: { previousValue: word.text, value } });
+            context.commit(Mutation.SET_WORD_TEXT, { word, value });
+        });
+    },
+
+    setWordFavourite(
         context: CollectionContext,
         { wordId, value, searchAll }: { wordId: string; value: string; searchAll?: boolean }
     ): void {
         const { word, list } = helpers.findWord(context, wordId, searchAll);
-        if (!word) {
+        if (!word || !list) {
             return;
         }
 
-        context.commit('SET_WORD_FAVOURITE', { word, value });
-        actions.writeList(context, list!.id);
+        helpers.editWord(context, 'favourite word', word, () => {
+            const previousValue = word.favourite;
+            context.commit('SET_WORD_FAVOURITE', { word, value });
+
+            if (word.favourite !== previousValue) {
+                context.commit(Mutation.ADD_WORD_EVENT, { word, type: word.favourite ? 'favourite' : 'unfavourite' });
+            }
+        });
     },
 
     setWordArchived(
@@ -460,8 +1108,111 @@ const actions = {
             return;
         }
 
-        context.commit(Mutation.SET_WORD_ARCHIVED, { word, value });
-        actions.writeList(context, list.id);
+        helpers.editWord(context, 'archive word', word, () => {
+            const previousValue = word.archived;
+            context.commit(Mutation.SET_WORD_ARCHIVED, { word, value });
+
+            if (word.archived !== previousValue) {
+                context.commit(Mutation.ADD_WORD_EVENT, { word, type: word.archived ? 'archive' : 'unarchive' });
+            }
+        });
+    },
+
+    setWordNotes(context: CollectionContext, { wordId, value, searchAll }: { wordId: string; value: string; searchAll?: boolean }): void {
+        const { word, list } = helpers.findWord(context, wordId, searchAll);
+        if (!word || !list || word.notes === value) {
+            return;
+        }
+
+        helpers.editWord(context, 'edit notes', word, () => {
+            context.commit(Mutation.SET_WORD_NOTES, { word, value });
+            context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'notes' });
+        });
+    },
+
+    /**
+     * Adds one or more tags to the word. Tags are trimmed; empty and already present tags are ignored.
+     *
+     * @param {CollectionContext} context
+     * @param {{ wordId: string; value: string | string[]; searchAll?: boolean }} { wordId, value, searchAll }
+     * @returns {void}
+     */
+    [Action.addWordTag](
+        context: CollectionContext,
+        { wordId, value, searchAll }: { wordId: string; value: string | string[]; searchAll?: boolean }
+    ): void {
+        const { word, list } = helpers.findWord(context, wordId, searchAll);
+        if (!word || !list) {
+            return;
+        }
+
+        const tags = (Array.isArray(value) ? value : [value]).map(tag => tag.trim()).filter(tag => tag !== '' && !word.tags.includes(tag));
+        if (tags.length === 0) {
+            return;
+        }
+
+        helpers.editWord(context, 'tag word', word, () => tags.forEach(tag => context.commit(Mutation.ADD_WORD_TAG, { word, value: tag })));
+    },
+
+    /**
+     * Removes one or more tags from the word.
+     *
+     * @param {CollectionContext} context
+     * @param {{ wordId: string; value: string | string[]; searchAll?: boolean }} { wordId, value, searchAll }
+     * @returns {void}
+     */
+    [Action.removeWordTag](
+        context: CollectionContext,
+        { wordId, value, searchAll }: { wordId: string; value: string | string[]; searchAll?: boolean }
+    ): void {
+        const { word, list } = helpers.findWord(context, wordId, searchAll);
+        if (!word || !list) {
+            return;
+        }
+
+        const tags = (Array.isArray(value) ? value : [value]).filter(tag => word.tags.includes(tag));
+        if (tags.length === 0) {
+            return;
+        }
+
+        helpers.editWord(context, 'untag word', word, () =>
+            tags.forEach(tag => context.commit(Mutation.REMOVE_WORD_TAG, { word, value: tag }))
+        );
+    },
+
+    /**
+     * Updates the review schedule of the word according to the answer grade.
+     *
+     * @param {CollectionContext} context
+     * @param {{ wordId: string; grade: CollectionReviewGrade; searchAll?: boolean }} { wordId, grade, searchAll }
+     * @returns {void}
+     */
+    [Action.gradeWord](
+        context: CollectionContext,
+        { wordId, grade, searchAll }: { wordId: string; grade: CollectionReviewGrade; searchAll?: boolean }
+    ): void {
+        const { word, list } = helpers.findWord(context, wordId, searchAll);
+        if (!word || !list) {
+            return;
+        }
+
+        helpers.editWord(context, 'review word', word, () =>
+            context.commit(Mutation.SET_WORD_REVIEW, { word, value: word.review.grade(grade) })
+        );
+    },
+
+    /**
+     * Adds the tag to the `selectedTags` array used to filter the pool; if the tag is already selected, it will be removed from the selection.
+     *
+     * @param {CollectionContext} context
+     * @param {{ tag: string; value?: boolean }} { tag, value }
+     */
+    [Action.selectTag](context: CollectionContext, { tag, value }: { tag: string; value?: boolean }): void {
+        context.commit(Mutation.SELECT_TAG, { tag, value });
+    },
+
+    deselectAllTags(context: CollectionContext): void {
+        context.commit(Mutation.DESELECT_ALL_TAGS);
     },
 
     /**
@@ -494,6 +1245,348 @@ const actions = {
 
     // #endregion
 
+    // #region TRASH
+
+    /**
+     * Puts a deleted list back to its original parent or a deleted word back to its original list.
+     * If the original parent no longer exists, the list is restored at the top level; the word is restored to the default list.
+     *
+     * @param {CollectionContext} context
+     * @param {{ itemId: string }} { itemId }
+     * @returns {void}
+     */
+    async [Action.restoreTrashItem](context: CollectionContext, { itemId }: { itemId: string }): Promise<void> {
+        const item = state.trash.find(itemId);
+        if (!item) {
+            return;
+        }
+
+        if (item.kind === 'word') {
+            // the word goes back to its list or the default list, and might still belong to other lists
+            const listIds = [item.parentId, state.index.defaultListId].filter((lId): lId is string => lId !== null);
+            await actions.loadLists(context, { listIds: [...listIds, ...helpers.getSummaryListIds(context, [item.word!.id!])] });
+        }
+
+        if (item.kind === 'list') {
+            const { listTree: parentTree = state.index.tree } = item.parentId !== null ? helpers.findTree(context, item.parentId) : {};
+            const lists = item.lists!.map(listJSON => CollectionList.fromJSON(listJSON));
+            const listIds = lists.map(list => list.id);
+
+            helpers.record(context, 'restore list', { listIds, wordIds: 'all', trash: true }, () =>
+                context.commit(Mutation.RESTORE_TRASH_LIST, { item, tree: parentTree, lists })
+            );
+
+            actions.writeList(context, listIds);
+            actions.writeIndex(context);
+        } else {
+            const originalList = item.parentId !== null ? state.lists[item.parentId] : undefined;
+            const defaultList = state.index.defaultListId !== null ? state.lists[state.index.defaultListId] : undefined;
+            const list = originalList && !originalList.isSmart ? originalList : defaultList;
+
+            if (!list) {
+                return;
+            }
+
+            // the word might still belong to other lists; restore the shared instance then
+            const word = helpers.findWord(context, item.word!.id!, true).word || new CollectionWord(item.word);
+
+            const listIds = helpers.getWordListIds(context, [word], [list.id]);
+
+            helpers.record(context, 'restore word', { listIds, wordIds: [word.id], trash: true }, () => {
+                context.commit(Mutation.RESTORE_TRASH_WORD, { item, list, word });
+                context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'restore', details: { list: helpers.describeList(list) } });
+            });
+
+            actions.writeList(context, listIds);
+        }
+
+        actions.writeTrash(context);
+    },
+
+    /**
+     * Permanently removes an item from the trash.
+     *
+     * @param {CollectionContext} context
+     * @param {{ itemId: string }} { itemId }
+     * @returns {void}
+     */
+    [Action.purgeTrashItem](context: CollectionContext, { itemId }: { itemId: string }): void {
+        const item = state.trash.find(itemId);
+        if (!item) {
+            return;
+        }
+
+        helpers.record(context, 'purge item', { listIds: [], wordIds: [], trash: true }, () =>
+            context.commit(Mutation.REMOVE_TRASH_ITEM, { item })
+        );
+        actions.writeTrash(context);
+    },
+
+    emptyTrash(context: CollectionContext): void {
+        if (state.trash.items.length === 0) {
+            return;
+        }
+
+        context.dispatch('storage/takeSnapshot', { reason: 'empty-trash' }, { root: true });
+
+        helpers.record(context, 'empty trash', { listIds: [], wordIds: [], trash: true }, () =>
+            state.trash.items.slice().forEach(item => context.commit(Mutation.REMOVE_TRASH_ITEM, { item }))
+        );
+        actions.writeTrash(context);
+    },
+
+    /**
+     * Removes items kept in the trash longer than the retention period from the settings. This cannot be undone.
+     *
+     * @param {CollectionContext} context
+     */
+    purgeExpiredTrash(context: CollectionContext): void {
+        const retentionDays = parseInt(trashRetentionSetting.get(), 10) || 0;
+        const expiredItems = state.trash.items.filter(item => item.isExpired(retentionDays));
+
+        if (expiredItems.length === 0) {
+            return;
+        }
+
+        expiredItems.forEach(item => context.commit(Mutation.REMOVE_TRASH_ITEM, { item }));
+        actions.writeTrash(context);
+    },
+
+    // #endregion
+
+    // #region INTEGRITY
+
+    /**
+     * Scans the collection for inconsistencies and keeps them in `problems`, to be reviewed and repaired in the settings.
+     * Words are checked only in the lists loaded so far, unless all the lists are to be loaded.
+     *
+     * @param {CollectionContext} context
+     * @param {{ loadAll?: boolean }} [{ loadAll = false }={}]
+     * @returns {Promise<void>}
+     */
+    async [Action.checkIntegrity](context: CollectionContext, { loadAll = false }: { loadAll?: boolean } = {}): Promise<void> {
+        if (loadAll) {
+            await actions.loadLists(context, { listIds: Object.keys(state.lists) });
+        }
+
+        // deleted lists stay in the storage until their pending removals are written
+        await writeQueue.flush();
+        const storedListIds = await storage.getListIds();
+
+        context.commit(Mutation.SET_PROBLEMS, { problems: checkCollection(state.index, state.lists, storedListIds) });
+    },
+
+    /**
+     * Fixes the problems found by the last check, taking a snapshot of the collection first, and checks the collection again.
+     * The undo history is cleared, as it might refer to the lists as they were before the repair.
+     *
+     * @param {CollectionContext} context
+     * @returns {Promise<void>}
+     */
+    async [Action.repairIntegrity](context: CollectionContext): Promise<void> {
+        await context.dispatch('storage/takeSnapshot', { reason: 'repair' }, { root: true });
+
+        // orphaned lists which are only in the storage; the ones which cannot be read are reported again by the next check
+        const storedListIds = state.problems
+            .filter(problem => problem.kind === 'orphaned-list' && state.lists[problem.listId!] === undefined)
+            .map(problem => problem.listId!);
+        const storedLists = await Promise.all(storedListIds.map(listId => helpers.loadList(listId).catch(() => null)));
+
+        context.commit(Mutation.REPAIR_COLLECTION, { storedLists: storedLists.filter((list): list is CollectionList => list !== null) });
+        context.commit(Mutation.CLEAR_HISTORY);
+
+        helpers.replaceSelection(context);
+        actions.writeCollection(context);
+
+        await actions.checkIntegrity(context);
+    },
+
+    // #endregion
+
+    // #region IMPORT AND EXPORT
+
+    /**
+     * Adds the words of the new rows of an import to the list, or to its sub-lists named by the rows, creating the missing sub-lists.
+     * The same word imported into several lists is shared by them; the import is recorded as a single edit.
+     *
+     * @param {CollectionContext} context
+     * @param {{ listId: string; rows: DelimitedImportRow[] }} { listId, rows } id of the target list and the rows planned for the import
+     * @returns {Promise<void>}
+     */
+    async [Action.importWords](
+        context: CollectionContext,
+        { listId, rows }: { listId: string; rows: DelimitedImportRow[] }
+    ): Promise<void> {
+        const targetTree = state.index.findTree(listId);
+        const newRows = rows.filter(row => row.status === 'new');
+
+        if (targetTree === undefined || newRows.length === 0) {
+            return;
+        }
+
+        await actions.loadLists(context, { listIds: targetTree.flatTree });
+
+        const target = state.lists[listId];
+        if (target === undefined || target.isSmart) {
+            return;
+        }
+
+        // sub-lists are matched by name under their parent; the lists created for the import are matched as well
+        const pathLists = new Map<string, CollectionList>([['', target]]);
+        const newLists: { list: CollectionList; parent: CollectionList }[] = [];
+
+        const findList = (path: string[]): CollectionList => {
+            const key = path.join('/');
+
+            if (!pathLists.has(key)) {
+                const parent = findList(path.slice(0, -1));
+                const name = path[path.length - 1];
+                const parentTree = state.index.findTree(parent.id);
+                const existing = (parentTree !== undefined ? parentTree.items : [])
+                    .map(item => state.lists[item.listId])
+                    .find(list => list !== undefined && !list.isSmart && list.name === name);
+
+                const list = existing || new CollectionList({ name });
+                if (existing === undefined) {
+                    newLists.push({ list, parent });
+                }
+
+                pathLists.set(key, list);
+            }
+
+            return pathLists.get(key)!;
+        };
+
+        const words = new Map<string, CollectionWord>();
+        const additions = newRows.map(row => {
+            const word = words.get(row.word.text!) || new CollectionWord(row.word);
+            words.set(word.text, word);
+
+            return { list: findList(row.path), word };
+        });
+
+        // the lists created only as parents of a path hold no imported words, but have to be saved and undone all the same
+        const listIds = Array.from(new Set([...additions.map(({ list }) => list.id), ...newLists.map(({ list }) => list.id)]));
+        const wordIds = Array.from(words.values()).map(word => word.id);
+
+        helpers.record(context, 'import words', { listIds, wordIds }, () => {
+            // parents are created before their sub-lists, so their tree nodes exist by the time the sub-lists are added
+            newLists.forEach(({ list, parent }) => context.commit(Mutation.ADD_LIST, { tree: state.index.findTree(parent.id)!, list }));
+
+            additions
+                .filter(({ list, word }) => list.words[word.id] === undefined)
+                .forEach(({ list, word }) => {
+                    context.commit(Mutation.ADD_WORD, { list, word });
+                    context.commit(Mutation.ADD_WORD_EVENT, { word, type: 'add', details: { list: helpers.describeList(list) } });
+                });
+        });
+
+        actions.writeList(context, listIds);
+        actions.writeIndex(context);
+    },
+
+    /**
+     * Writes the words of the lists into a CSV or TSV file with the given columns.
+     *
+     * @param {CollectionContext} context
+     * @param {{ fileName: string; listIds: string[]; columns: DelimitedColumn[]; includeSubLists: boolean; delimiter: string }} payload
+     * @returns {Promise<void>}
+     */
+    async [Action.exportWords](
+        context: CollectionContext,
+        {
+            fileName,
+            listIds,
+            columns,
+            includeSubLists,
+            delimiter
+        }: { fileName: string; listIds: string[]; columns: DelimitedColumn[]; includeSubLists: boolean; delimiter: string }
+    ): Promise<void> {
+        await actions.loadLists(context, { listIds: helpers.getExportSources(context, listIds, includeSubLists) });
+        await writeDelimitedFile(fileName, exportDelimited(state, listIds, columns, includeSubLists), delimiter);
+    },
+
+    /**
+     * Writes the lists into an Anki package, a deck per list. If the words are to be looked up, their definitions and
+     * pronunciations are taken from the wordbooks one word at a time, and `onProgress` is called after each word.
+     *
+     * @param {CollectionContext} context
+     * @param {{ fileName: string; listIds: string[]; includeSubLists: boolean; lookUp: boolean; onProgress?: (done: number, total: number) => void }} payload
+     * @returns {Promise<void>}
+     */
+    async [Action.exportAnkiPackage](
+        context: CollectionContext,
+        {
+            fileName,
+            listIds,
+            includeSubLists,
+            lookUp,
+            onProgress
+        }: {
+            fileName: string;
+            listIds: string[];
+            includeSubLists: boolean;
+            lookUp: boolean;
+            onProgress?: (done: number, total: number) => void;
+        }
+    ): Promise<void> {
+        await actions.loadLists(context, { listIds: helpers.getExportSources(context, listIds, includeSubLists) });
+
+        const decks = collectAnkiDecks(state, listIds, includeSubLists);
+        const lookups = new Map<string, AnkiLookup>();
+
+        if (lookUp) {
+            // a word shared by several lists is looked up once
+            const words = Array.from(new Set(decks.reduce((all: CollectionWord[], deck) => all.concat(deck.words), [])));
+
+            for (const word of words) {
+                lookups.set(word.id, await lookUpWord(word, context.rootState.display.wordbooks));
+
+                if (onProgress) {
+                    onProgress(lookups.size, words.length);
+                }
+            }
+        }
+
+        await writeAnkiPackage(fileName, decks, lookups);
+    },
+
+    // #endregion
+
+    // #region HISTORY
+
+    /**
+     * Reverts the last recorded edit and writes the restored lists and index to the storage.
+     *
+     * @param {CollectionContext} context
+     */
+    [Action.undo](context: CollectionContext): void {
+        const { undoStack } = state.history;
+        if (undoStack.length === 0) {
+            return;
+        }
+
+        helpers.restoreSnapshot(context, undoStack[undoStack.length - 1].before);
+        context.commit(Mutation.UNDO_HISTORY);
+    },
+
+    /**
+     * Re-applies the last undone edit and writes the restored lists and index to the storage.
+     *
+     * @param {CollectionContext} context
+     */
+    [Action.redo](context: CollectionContext): void {
+        const { redoStack } = state.history;
+        if (redoStack.length === 0) {
+            return;
+        }
+
+        helpers.restoreSnapshot(context, redoStack[redoStack.length - 1].after);
+        context.commit(Mutation.REDO_HISTORY);
+    },
+
+    // #endregion
+
     /**
      *
      *
@@ -502,7 +1595,7 @@ const actions = {
      */
     // TODO: this is wrong, an action should not be used like this; move this somewhere else; why?
     // Fuse options: http://fusejs.io
-    [Action.performLookup](context: CollectionContext, options?: { value: string }): void {
+    async [Action.performLookup](context: CollectionContext, options?: { value: string }): Promise<void> {
         const fuseOptions = {
             includeScore: true,
             threshold: 0.3,
@@ -523,14 +1616,33 @@ const actions = {
 
         context.commit(Mutation.SET_LOOKUP_VALUE, { value });
 
+        // lists not loaded yet are searched by their word summaries first, and the ones with matches are loaded
+        const matchingListIds = Object.values(state.lists)
+            .filter(list => !list.isLoaded && new Fuse(list.wordSummaries, fuseOptions).search(value).length !== 0)
+            .map(list => list.id);
+
+        await actions.loadLists(context, { listIds: matchingListIds });
+
+        // a newer lookup was started in the meantime
+        if (state.lookupValue !== value) {
+            return;
+        }
+
         const results = state.index.flatTree
             .reduce<LookupResult[]>((resultMap, listId) => {
                 const list = state.lists[listId];
 
+                // the tree can refer to a missing list until the collection is repaired
+                if (list === undefined) {
+                    return resultMap;
+                }
+
                 const mappedWords = list.index.map(wordId => list.words[wordId]);
 
                 const fuse = new Fuse(mappedWords, fuseOptions);
-                const items = fuse.search<{ score: number; item: CollectionWord }>(value).map(r => ({ score: r.score, word: r.item }));
+                const items = fuse
+                    .search<{ score: number; item: CollectionWord }>(value)
+                    .map(r => ({ score: r.score, word: r.item, lists: state.getWordLists(r.item.id) }));
 
                 if (items.length === 0) {
                     return resultMap;
@@ -614,6 +1726,27 @@ const mutations = {
         list.pinned = value;
     },
 
+    [Mutation.SET_LIST_QUERY](state: CollectionState, { list, value }: { list: CollectionList; value: CollectionQuery }): void {
+        list.query = value;
+    },
+
+    [Mutation.SET_LIST_SORT](
+        state: CollectionState,
+        { list, sortBy, sortDirection }: { list: CollectionList; sortBy?: CollectionSortBy; sortDirection?: CollectionSortDirection }
+    ): void {
+        if (sortBy !== undefined) {
+            list.sortBy = sortBy;
+        }
+
+        if (sortDirection !== undefined) {
+            list.sortDirection = sortDirection;
+        }
+    },
+
+    [Mutation.SET_LIST_ORDER](state: CollectionState, { list, value }: { list: CollectionList; value: string[] }): void {
+        list.reorder(value);
+    },
+
     [Mutation.ADD_WORD](state: CollectionState, { list, word }: { list: CollectionList; word: CollectionWord }): void {
         list.addWord(word);
     },
@@ -653,6 +1786,44 @@ const mutations = {
         word.notes = value;
     },
 
+    [Mutation.ADD_WORD_TAG](state: CollectionState, { word, value }: { word: CollectionWord; value: string }): void {
+        word.tags = [...word.tags, value];
+    },
+
+    [Mutation.REMOVE_WORD_TAG](state: CollectionState, { word, value }: { word: CollectionWord; value: string }): void {
+        word.tags = word.tags.filter(tag => tag !== value);
+    },
+
+    [Mutation.SET_WORD_REVIEW](state: CollectionState, { word, value }: { word: CollectionWord; value: CollectionReview }): void {
+        word.review = value;
+    },
+
+    [Mutation.ADD_WORD_EVENT](
+        state: CollectionState,
+        { word, type, details }: { word: CollectionWord; type: CollectionWordEventType; details?: CollectionWordEventDetails }
+    ): void {
+        word.addEvent(type, details);
+    },
+
+    [Mutation.SELECT_TAG](state: CollectionState, { tag, value }: { tag: string; value?: boolean }): void {
+        const index = state.selectedTags.indexOf(tag);
+
+        // if no value specified, toggle the state of the tag
+        if (value === undefined) {
+            value = index === -1;
+        }
+
+        if (value && index === -1) {
+            state.selectedTags.push(tag);
+        } else if (!value && index !== -1) {
+            state.selectedTags.splice(index, 1);
+        }
+    },
+
+    [Mutation.DESELECT_ALL_TAGS](state: CollectionState): void {
+        state.selectedTags.splice(0);
+    },
+
     [Mutation.SELECT_WORD](state: CollectionState, { word, value }: { word: CollectionWord; value?: boolean }): void {
         const index = state.selectedWords.findIndex(selectedWord => selectedWord.id === word.id);
 
@@ -674,6 +1845,126 @@ const mutations = {
         state.selectedWords.splice(0);
     },
 
+    /**
+     * Swaps the word for the supplied instance with the same id in all the lists containing it.
+     *
+     * @param {CollectionState} state
+     * @param {{ word: CollectionWord }} { word }
+     */
+    [Mutation.REPLACE_WORD](state: CollectionState, { word }: { word: CollectionWord }): void {
+        Object.values(state.lists)
+            .filter(list => list.words[word.id] !== undefined)
+            .forEach(list => (list.words[word.id] = word));
+    },
+
+    // #endregion
+
+    // #region TRASH
+
+    [Mutation.SET_TRASH](state: CollectionState, { trash }: { trash: CollectionTrash }): void {
+        state.trash = trash;
+    },
+
+    [Mutation.ADD_TRASH_ITEM](state: CollectionState, { item }: { item: CollectionTrashItem }): void {
+        state.trash.add(item);
+    },
+
+    [Mutation.REMOVE_TRASH_ITEM](state: CollectionState, { item }: { item: CollectionTrashItem }): void {
+        state.trash.remove(item);
+    },
+
+    /**
+     * Puts the list subtree from the trash item back into the collection tree and adds its lists to the collection.
+     *
+     * @param {CollectionState} state
+     * @param {{ item: CollectionTrashItem; tree: CollectionTree; lists: CollectionList[] }} { item, tree, lists }
+     */
+    [Mutation.RESTORE_TRASH_LIST](
+        state: CollectionState,
+        { item, tree, lists }: { item: CollectionTrashItem; tree: CollectionTree; lists: CollectionList[] }
+    ): void {
+        tree.insertTree(item.tree!, Math.min(item.position, tree.items.length));
+
+        // words of the restored lists which are still present in other lists take the current state of those words
+        const currentLists = Object.values(state.lists);
+        state.lists = lists.reduce((map, list) => ({ ...map, [list.id]: list }), state.lists);
+        shareWords(Object.values(state.lists), currentLists);
+
+        state.trash.remove(item);
+    },
+
+    [Mutation.RESTORE_TRASH_WORD](
+        state: CollectionState,
+        { item, list, word }: { item: CollectionTrashItem; list: CollectionList; word: CollectionWord }
+    ): void {
+        // the word keeps its position only when restored to its original list
+        const position = list.id === item.parentId ? Math.min(item.position, list.index.length) : list.index.length;
+
+        // the word might already be in the list if it was restored by other means
+        if (!list.words[word.id]) {
+            list.addWord(word, position);
+        }
+
+        state.trash.remove(item);
+    },
+
+    // #endregion
+
+    // #region HISTORY
+
+    [Mutation.RECORD_HISTORY](state: CollectionState, { entry }: { entry: CollectionHistoryEntry }): void {
+        state.history.push(entry);
+    },
+
+    [Mutation.UNDO_HISTORY](state: CollectionState): void {
+        state.history.redoStack.push(state.history.undoStack.pop()!);
+    },
+
+    [Mutation.REDO_HISTORY](state: CollectionState): void {
+        state.history.undoStack.push(state.history.redoStack.pop()!);
+    },
+
+    [Mutation.CLEAR_HISTORY](state: CollectionState): void {
+        state.history.clear();
+    },
+
+    /**
+     * Replaces the index and the lists included in the snapshot with their recorded versions.
+     * Selected lists are swapped for their restored counterparts; word selection is cleared.
+     *
+     * @param {CollectionState} state
+     * @param {{ snapshot: CollectionSnapshot }} { snapshot }
+     */
+    [Mutation.RESTORE_SNAPSHOT](state: CollectionState, { snapshot }: { snapshot: CollectionSnapshot }): void {
+        const lists = { ...state.lists };
+
+        Object.entries(snapshot.lists).forEach(([listId, listJSON]) => {
+            if (listJSON === null) {
+                delete lists[listId];
+                return;
+            }
+
+            lists[listId] = restoreList(listJSON, state.lists[listId]);
+        });
+
+        // restored words are copies; make the lists share them again, taking the restored state
+        const restoredLists = Object.keys(snapshot.lists)
+            .map(listId => lists[listId])
+            .filter(list => list !== undefined);
+        shareWords(Object.values(lists), restoredLists);
+
+        state.index = new CollectionIndex(snapshot.index);
+        state.lists = lists;
+
+        if (snapshot.trash) {
+            state.trash.items.splice(0, state.trash.items.length, ...snapshot.trash);
+        }
+
+        const selectedLists = state.selectedLists.map(list => lists[list.id]).filter(list => list !== undefined);
+        state.selectedLists.splice(0, state.selectedLists.length, ...selectedLists);
+        state.selectedWords.splice(0);
+    },
+
     // #endregion
 
     [Mutation.SET_LOOKUP_VALUE](state: CollectionState, { value }: { value: string }): void {
@@ -682,13 +1973,174 @@ const mutations = {
 
     [Mutation.SET_LOOKUP_RESULTS](state: CollectionState, { results }: { results: LookupResult[] }): void {
         state.lookupResults = results;
+    },
+
+    [Mutation.SET_PROBLEMS](state: CollectionState, { problems }: { problems: CollectionProblem[] }): void {
+        state.problems = problems;
+    },
+
+    /**
+     * Fixes the inconsistencies in the collection; orphaned lists loaded from the storage are added to the collection.
+     *
+     * @param {CollectionState} state
+     * @param {{ storedLists: CollectionList[] }} { storedLists }
+     */
+    [Mutation.REPAIR_COLLECTION](state: CollectionState, { storedLists }: { storedLists: CollectionList[] }): void {
+        const lists = { ...state.lists };
+        repairCollection(state.index, lists, storedLists);
+
+        state.lists = lists;
     }
 };
 
 const helpers = {
+    /**
+     * Performs an edit and records the affected part of the collection before and after it, so the edit can be undone.
+     *
+     * @param {CollectionContext} context
+     * @param {string} name a human-readable name of the edit
+     * @param {CollectionHistoryScope} scope lists and words touched by the edit
+     * @param {() => void} edit a function committing the edit mutations
+     */
+    record(context: CollectionContext, name: string, scope: CollectionHistoryScope, edit: () => void): void {
+        const before = takeSnapshot(context.state.index, context.state.lists, context.state.trash, scope);
+        edit();
+        const after = takeSnapshot(context.state.index, context.state.lists, context.state.trash, scope);
+
+        context.commit(Mutation.RECORD_HISTORY, { entry: { name, before, after } });
+    },
+
+    /**
+     * Performs and records an edit of the word itself (not of its list membership).
+     * Every list the word belongs to stores a copy of it, so all of them are recorded and written.
+     *
+     * @param {CollectionContext} context
+     * @param {string} name a human-readable name of the edit
+     * @param {CollectionWord} word
+     * @param {() => void} edit a function committing the edit mutations
+     */
+    editWord(context: CollectionContext, name: string, word: CollectionWord, edit: () => void): void {
+        const listIds = context.state.getWordLists(word.id).map(list => list.id);
+
+        helpers.record(context, name, { listIds, wordIds: [word.id] }, edit);
+        actions.writeList(context, listIds);
+    },
+
+    /**
+     * Returns ids of all the lists containing any of the provided words, followed by any extra list ids; without duplicates.
+     *
+     * @param {CollectionContext} context
+     * @param {CollectionWord[]} words
+     * @param {string[]} [extraListIds=[]]
+     * @returns {string[]}
+     */
+    getWordListIds(context: CollectionContext, words: CollectionWord[], extraListIds: string[] = []): string[] {
+        const listIds = words.reduce<string[]>((ids, word) => ids.concat(context.state.getWordLists(word.id).map(list => list.id)), []);
+
+        return Array.from(new Set([...listIds, ...extraListIds]));
+    },
+
+    describeList(list: CollectionList): { id: string; name: string } {
+        return { id: list.id, name: list.name };
+    },
+
+    /**
+     * Restores the collection to the provided snapshot and persists the restored state.
+     *
+     * @param {CollectionContext} context
+     * @param {CollectionSnapshot} snapshot
+     */
+    restoreSnapshot(context: CollectionContext, snapshot: CollectionSnapshot): void {
+        context.commit(Mutation.RESTORE_SNAPSHOT, { snapshot });
+
+        Object.entries(snapshot.lists).forEach(([listId, listJSON]) => {
+            if (listJSON === null) {
+                actions.removeList(context, listId);
+            } else {
+                actions.writeList(context, listId);
+            }
+        });
+
+        actions.writeIndex(context);
+
+        if (snapshot.trash) {
+            actions.writeTrash(context);
+        }
+
+        context.dispatch(Action.performLookup, { value: context.state.lookupValue });
+    },
+
+    /**
+     * Swaps the selected lists and words for their current instances after the lists were replaced, dropping the ones no longer present.
+     *
+     * @param {CollectionContext} context
+     */
+    replaceSelection(context: CollectionContext): void {
+        const selectedLists = state.selectedLists.map(list => state.lists[list.id]).filter(list => list !== undefined);
+        const selectedWords = state.selectedWords
+            .map(word => helpers.findWord(context, word.id, true).word)
+            .filter((word): word is CollectionWord => word !== undefined);
+
+        context.commit(Mutation.DESELECT_ALL_LISTS);
+        context.commit(Mutation.DESELECT_ALL_WORDS);
+
+        selectedLists.forEach(list => context.commit(Mutation.SELECT_LIST, { list, value: true }));
+        selectedWords.forEach(word => context.commit(Mutation.SELECT_WORD, { word, value: true }));
+    },
+
+    /**
+     * Returns ids of the lists to load before the list is shown or edited: the list itself and, for smart lists, the lists it draws from.
+     *
+     * @param {CollectionContext} context
+     * @param {CollectionList} list
+     * @returns {string[]}
+     */
+    getListSources(context: CollectionContext, list: CollectionList): string[] {
+        return [list.id, ...(list.query !== null ? context.state.getQueryLists(list.query).map(l => l.id) : [])];
+    },
+
+    /**
+     * Returns ids of the lists to load before the lists are exported: the lists, their sub-lists if included, and the lists smart lists draw from.
+     *
+     * @param {CollectionContext} context
+     * @param {string[]} listIds
+     * @param {boolean} includeSubLists
+     * @returns {string[]}
+     */
+    getExportSources(context: CollectionContext, listIds: string[], includeSubLists: boolean): string[] {
+        return (includeSubLists ? expandListIds(context.state, listIds) : listIds)
+            .filter(listId => context.state.lists[listId] !== undefined)
+            .reduce((ids: string[], listId) => ids.concat(helpers.getListSources(context, context.state.lists[listId])), []);
+    },
+
+    /**
+     * Returns ids of the lists not loaded yet which hold any of the words, according to their summaries.
+     *
+     * @param {CollectionContext} context
+     * @param {string[]} wordIds
+     * @returns {string[]}
+     */
+    getSummaryListIds(context: CollectionContext, wordIds: string[]): string[] {
+        return Object.values(context.state.lists)
+            .filter(list => !list.isLoaded && list.wordSummaries.some(word => wordIds.includes(word.id)))
+            .map(list => list.id);
+    },
+
+    loadList(listId: string): Promise<CollectionList> {
+        if (listLoads[listId] === undefined) {
+            listLoads[listId] = storage.loadList(listId);
+
+            const clear = () => delete listLoads[listId];
+            listLoads[listId].then(clear, clear);
+        }
+
+        return listLoads[listId];
+    },
+
     /**
      * Finds and returns a CollectionWord object (given its id) and its parent CollectionList.
-     * By default, searches only in the selected lists.
+     * A word can belong to several lists; the first list found is returned, use `CollectionState.getWordLists` to get all of them.
+     * By default, searches only in the selected lists; if a smart list is selected, the whole collection is searched since smart lists draw words from other lists.
      *
      * @param {CollectionContext} context context to search in
      * @param {string} wordId word id
@@ -696,9 +2148,10 @@ const helpers = {
      * @returns {({ word: CollectionWord?; list?: CollectionList })}
      */
     findWord(context: CollectionContext, wordId: string, searchAll: boolean = false): { word?: CollectionWord; list?: CollectionList } {
-        const listToSearch = searchAll
-            ? Object.values(context.state.lists) // get all the lists
-            : context.state.selectedLists;
+        const listToSearch =
+            searchAll || context.state.selectedLists.some(list => list.isSmart)
+                ? Object.values(context.state.lists) // get all the lists
+                : context.state.selectedLists;
 
         const list = listToSearch.find(list => list.words[wordId] !== undefined);
 
@@ -1,2 +1,5 @@
 export * from './collection';
 export * from './collection-state';
+export * from './collection-history';
+export * from './collection-trash';
+export * from './collection-integrity';
@@ -0,0 +1,27 @@
+import { CollectionWord } from '../collection';
+
+export class ReviewState {
+    /**
+     * Words left to review in the current session; the first word is the one being reviewed.
+     *
+     * @type {CollectionWord[]}
+     * @memberof ReviewState
+     */
+    queue: CollectionWord[] = [];
+
+    /**
+     * Specifies if the definitions of the current word are shown.
+     *
+     * @type {boolean}
+     * @memberof ReviewState
+     */
+    isRevealed: boolean = false;
+
+    /**
+     * The number of answers given in the current session.
+     *
+     * @type {number}
+     * @memberof ReviewState
+     */
+    answerCount: number = 0;
+}
@@ -0,0 +1,106 @@
+import { ActionContext } from 'vuex';
+
+import { ReviewState } from './review-state';
+import { RootState } from '@/store/state';
+import { CollectionWord, CollectionReviewGrade } from '../collection';
+
+type ReviewContext = ActionContext<ReviewState, RootState>;
+
+const state: ReviewState = new ReviewState();
+
+export enum Action {
+    startSession = 'startSession',
+    revealWord = 'revealWord',
+    answerWord = 'answerWord'
+}
+
+export enum Mutation {
+    SET_QUEUE = 'SET_QUEUE',
+    SET_REVEALED = 'SET_REVEALED',
+    SET_ANSWER_COUNT = 'SET_ANSWER_COUNT'
+}
+
+const getters = {
+    /**
+     * The word currently being reviewed.
+     *
+     * @param {ReviewState} state
+     * @returns {(CollectionWord | null)}
+     */
+    currentWord(state: ReviewState): CollectionWord | null {
+        return state.queue.length !== 0 ? state.queue[0] : null;
+    }
+};
+
+const actions = {
+    /**
+     * Starts a new review session with the words due for review in the selected lists.
+     *
+     * @param {ReviewContext} context
+     */
+    [Action.startSession](context: ReviewContext): void {
+        context.commit(Mutation.SET_QUEUE, { value: context.rootGetters['collection/getDueWords'] });
+        context.commit(Mutation.SET_REVEALED, { value: false });
+        context.commit(Mutation.SET_ANSWER_COUNT, { value: 0 });
+    },
+
+    /**
+     * Shows the definitions of the current word.
+     *
+     * @param {ReviewContext} context
+     */
+    [Action.revealWord](context: ReviewContext): void {
+        const word = getters.currentWord(context.state);
+        if (!word) {
+            return;
+        }
+
+        context.commit(Mutation.SET_REVEALED, { value: true });
+        context.dispatch('display/loadDefinitions', { value: word }, { root: true });
+    },
+
+    /**
+     * Grades the answer for the current word and moves to the next one.
+     * Failed words are put back at the end of the queue to be reviewed again in the same session.
+     *
+     * @param {ReviewContext} context
+     * @param {{ grade: CollectionReviewGrade }} { grade }
+     */
+    [Action.answerWord](context: ReviewContext, { grade }: { grade: CollectionReviewGrade }): void {
+        const word = getters.currentWord(context.state);
+        if (!word) {
+            return;
+        }
+
+        context.dispatch('collection/gradeWord', { wordId: word.id, grade, searchAll: true }, { root: true });
+
+        const [, ...rest] = context.state.queue;
+        const queue = grade < CollectionReviewGrade.hard ? [...rest, word] : rest;
+
+        context.commit(Mutation.SET_QUEUE, { value: queue });
+        context.commit(Mutation.SET_REVEALED, { value: false });
+        context.commit(Mutation.SET_ANSWER_COUNT, { value: context.state.answerCount + 1 });
+    }
+};
+
+const mutations = {
+    [Mutation.SET_QUEUE](state: ReviewState, { value }: { value: CollectionWord[] }): void {
+        state.queue = value;
+    },
+
+    [Mutation.SET_REVEALED](state: ReviewState, { value }: { value: boolean }): void {
+        state.isRevealed = value;
+    },
+
+    [Mutation.SET_ANSWER_COUNT](state: ReviewState, { value }: { value: number }): void {
+        state.answerCount = value;
+    }
+};
+
+export const review = {
+    namespaced: true,
+    state,
+    getters,
+    actions,
+    mutations
+};
@@ -0,0 +1,93 @@
+import { StorageProfile, StorageSnapshotInfo, StorageTransferProgress } from '@/api/storage';
+
+export class StorageState {
+    profiles: StorageProfile[] = [];
+
+    /**
+     * Id of the profile whose collection is open.
+     *
+     * @type {string}
+     * @memberof StorageState
+     */
+    profileId: string = '';
+
+    /**
+     * Id of the storage backend the collection is read from and written to.
+     *
+     * @type {string}
+     * @memberof StorageState
+     */
+    storageId: string = '';
+
+    /**
+     * Progress of the collection being copied into another storage backend; `null` when no copy is running.
+     *
+     * @type {(StorageTransferProgress | null)}
+     * @memberof StorageState
+     */
+    transfer: StorageTransferProgress | null = null;
+
+    /**
+     * Error message of the last failed switch between storage backends.
+     *
+     * @type {(string | null)}
+     * @memberof StorageState
+     */
+    transferError: string | null = null;
+
+    /**
+     * Number of collection writes waiting to be performed; changes are not on disk yet while this is above zero.
+     *
+     * @type {number}
+     * @memberof StorageState
+     */
+    pendingWrites: number = 0;
+
+    /**
+     * Error message of the last collection write which failed after all the retries; `null` when all the changes are saved.
+     *
+     * @type {(string | null)}
+     * @memberof StorageState
+     */
+    saveError: string | null = null;
+
+    /**
+     * Snapshots of the collection, the most recent first.
+     *
+     * @type {StorageSnapshotInfo[]}
+     * @memberof StorageState
+     */
+    snapshots: StorageSnapshotInfo[] = [];
+
+    /**
+     * `true` if the collection of the open profile is encrypted at rest.
+     *
+     * @type {boolean}
+     * @memberof StorageState
+     */
+    isEncrypted: boolean = false;
+
+    /**
+     * `true` while the encrypted collection waits for the passphrase; nothing is loaded or written until it's unlocked.
+     *
+     * @type {boolean}
+     * @memberof StorageState
+     */
+    isLocked: boolean = false;
+
+    /**
+     * Error message of the last failed attempt to unlock the collection.
+     *
+     * @type {(string | null)}
+     * @memberof StorageState
+     */
+    unlockError: string | null = null;
+
+    /**
+     * Messages about outside changes to the stored collection which were ignored in favour of unsaved changes in the app.
+     *
+     * @type {string[]}
+     * @memberof StorageState
+     */
+    conflicts: string[] = [];
+}
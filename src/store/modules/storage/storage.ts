@@ -0,0 +1,508 @@
+import { ActionContext } from 'vuex';
+import crypto from 'crypto';
+
+import { StorageState } from './storage-state';
+import { RootState } from '@/store/state';
+import activeStorage, {
+    BundleImportMode,
+    CollectionBundle,
+    createBundle,
+    importBundle,
+    writeBundle,
+    createSnapshot,
+    getSnapshotData,
+    listSnapshots,
+    loadSnapshot,
+    rotateSnapshots,
+    snapshotToState,
+    StorageSnapshotInfo,
+    StorageSnapshotReason,
+    StorageProfile,
+    copyCollection,
+    addProfile,
+    getActiveProfile,
+    getProfiles,
+    renameProfile,
+    setActiveProfile,
+    getActiveStorage,
+    changePassphrase,
+    disableEncryption,
+    enableEncryption,
+    isEncryptionEnabled,
+    isEncryptionUnlocked,
+    rewriteBackups,
+    rewriteSnapshots,
+    unlockEncryption,
+    getStorage,
+    setActiveStorage,
+    writeQueue,
+    StorageTransferProgress,
+    WriteQueueStatus
+} from '@/api/storage';
+import { rewriteGistSyncRecord, rewriteJournalSyncRecord, rewriteWebDavSyncRecord } from '@/api/sync';
+import { snapshotIntervalSetting, snapshotRetentionSetting } from '@/settings';
+
+type StorageContext = ActionContext<StorageState, RootState>;
+
+const state: StorageState = new StorageState();
+
+let snapshotTimer: ReturnType<typeof setInterval> | null = null;
+
+// stops watching the active storage backend for outside changes
+let unwatchStorage: (() => void) | null = null;
+
+// hash of the collection in the last snapshot; scheduled snapshots are skipped if nothing changed since then
+let lastSnapshotHash: string = '';
+
+export enum Action {
+    fetchStorage = 'fetchStorage',
+    fetchProfiles = 'fetchProfiles',
+    addProfile = 'addProfile',
+    renameProfile = 'renameProfile',
+    openProfile = 'openProfile',
+    switchStorage = 'switchStorage',
+    watchStorage = 'watchStorage',
+    fetchEncryption = 'fetchEncryption',
+    unlock = 'unlock',
+    enableEncryption = 'enableEncryption',
+    changePassphrase = 'changePassphrase',
+    disableEncryption = 'disableEncryption',
+    clearConflicts = 'clearConflicts',
+    retryWrites = 'retryWrites',
+    fetchSnapshots = 'fetchSnapshots',
+    takeSnapshot = 'takeSnapshot',
+    scheduleSnapshots = 'scheduleSnapshots',
+    restoreSnapshot = 'restoreSnapshot',
+    exportCollection = 'exportCollection',
+    importCollection = 'importCollection'
+}
+
+export enum Mutation {
+    SET_PROFILES = 'SET_PROFILES',
+    SET_STORAGE_ID = 'SET_STORAGE_ID',
+    SET_TRANSFER = 'SET_TRANSFER',
+    SET_TRANSFER_ERROR = 'SET_TRANSFER_ERROR',
+    SET_SAVE_STATUS = 'SET_SAVE_STATUS',
+    SET_SNAPSHOTS = 'SET_SNAPSHOTS',
+    SET_ENCRYPTION = 'SET_ENCRYPTION',
+    SET_UNLOCK_ERROR = 'SET_UNLOCK_ERROR',
+    ADD_CONFLICT = 'ADD_CONFLICT',
+    CLEAR_CONFLICTS = 'CLEAR_CONFLICTS'
+}
+
+const getters = {
+    isTransferring(state: StorageState): boolean {
+        return state.transfer !== null;
+    },
+
+    hasUnsavedChanges(state: StorageState): boolean {
+        return state.pendingWrites !== 0 || state.saveError !== null;
+    },
+
+    supportsHistory(state: StorageState): boolean {
+        const storage = getStorage(state.storageId);
+        return storage !== undefined && storage.supportsHistory;
+    }
+};
+
+const actions = {
+    [Action.fetchStorage](context: StorageContext): void {
+        context.commit(Mutation.SET_STORAGE_ID, { value: getActiveStorage().id });
+
+        writeQueue.onStatusChange = status => context.commit(Mutation.SET_SAVE_STATUS, { value: status });
+        context.commit(Mutation.SET_SAVE_STATUS, { value: writeQueue.status });
+
+        actions.fetchProfiles(context);
+        actions.watchStorage(context);
+    },
+
+    [Action.fetchProfiles](context: StorageContext): void {
+        context.commit(Mutation.SET_PROFILES, { profiles: getProfiles(), profileId: getActiveProfile().id });
+    },
+
+    /**
+     * Adds a profile with the specified data folder, optionally opening it right away.
+     * Throws if another profile already uses the folder.
+     *
+     * @param {StorageContext} context
+     * @param {{ name: string; dataPath: string; open?: boolean }} { name, dataPath, open = false }
+     * @returns {Promise<void>}
+     */
+    async [Action.addProfile](
+        context: StorageContext,
+        { name, dataPath, open = false }: { name: string; dataPath: string; open?: boolean }
+    ): Promise<void> {
+        const profile = addProfile(name, dataPath);
+        actions.fetchProfiles(context);
+
+        if (open) {
+            await actions.openProfile(context, { profileId: profile.id });
+        }
+    },
+
+    [Action.renameProfile](context: StorageContext, { profileId, name }: { profileId: string; name: string }): void {
+        renameProfile(profileId, name);
+        actions.fetchProfiles(context);
+    },
+
+    /**
+     * Closes the open collection and loads the collection of the specified profile; the profile is remembered for the next start.
+     * Throws if the changes to the open collection cannot be saved.
+     *
+     * @param {StorageContext} context
+     * @param {{ profileId: string }} { profileId }
+     * @returns {Promise<void>}
+     */
+    async [Action.openProfile](context: StorageContext, { profileId }: { profileId: string }): Promise<void> {
+        if (profileId === context.state.profileId) {
+            return;
+        }
+
+        await helpers.flushWrites();
+
+        setActiveProfile(profileId);
+        lastSnapshotHash = '';
+
+        actions.fetchProfiles(context);
+        actions.watchStorage(context);
+
+        await context.dispatch('collection/fetchIndex', undefined, { root: true });
+        await actions.fetchSnapshots(context);
+    },
+
+    /**
+     * Copies the collection from the active storage backend into the selected one and makes the selected backend active.
+     * The active backend is left unchanged if the copy or its verification fails.
+     *
+     * @param {StorageContext} context
+     * @param {{ storageId: string }} { storageId }
+     * @returns {Promise<void>}
+     */
+    async [Action.switchStorage](context: StorageContext, { storageId }: { storageId: string }): Promise<void> {
+        const source = getActiveStorage();
+        const target = getStorage(storageId);
+
+        if (target === undefined || target === source || context.state.transfer !== null) {
+            return;
+        }
+
+        context.commit(Mutation.SET_TRANSFER_ERROR, { value: null });
+
+        try {
+            if (context.state.isEncrypted && !target.supportsEncryption) {
+                throw new Error(`"${target.name}" cannot encrypt the collection; turn the encryption off first`);
+            }
+
+            // the pending changes need to be in the old storage before it's copied
+            await helpers.flushWrites();
+
+            await copyCollection(source, target, progress => context.commit(Mutation.SET_TRANSFER, { value: progress }));
+
+            setActiveStorage(target.id);
+            context.commit(Mutation.SET_STORAGE_ID, { value: target.id });
+
+            actions.watchStorage(context);
+        } catch (error) {
+            context.commit(Mutation.SET_TRANSFER_ERROR, { value: error.message });
+        } finally {
+            context.commit(Mutation.SET_TRANSFER, { value: null });
+        }
+    },
+
+    /**
+     * (Re)starts watching the active storage backend and merges the changes made outside the app into the collection.
+     *
+     * @param {StorageContext} context
+     */
+    [Action.watchStorage](context: StorageContext): void {
+        if (unwatchStorage !== null) {
+            unwatchStorage();
+        }
+
+        unwatchStorage = activeStorage.watch!(change =>
+            context
+                .dispatch('collection/applyStorageChange', { change }, { root: true })
+                .catch(error => console.error('cannot apply an outside change', change, error))
+        );
+    },
+
+    async [Action.fetchEncryption](context: StorageContext): Promise<void> {
+        const isEncrypted = await isEncryptionEnabled();
+
+        context.commit(Mutation.SET_ENCRYPTION, { isEncrypted, isLocked: isEncrypted && !isEncryptionUnlocked() });
+    },
+
+    /**
+     * Unlocks the encrypted collection and loads it; a wrong passphrase is reported in `unlockError`.
+     *
+     * @param {StorageContext} context
+     * @param {{ passphrase: string }} { passphrase }
+     * @returns {Promise<void>}
+     */
+    async [Action.unlock](context: StorageContext, { passphrase }: { passphrase: string }): Promise<void> {
+        context.commit(Mutation.SET_UNLOCK_ERROR, { value: null });
+
+        try {
+            if (!(await unlockEncryption(passphrase))) {
+                context.commit(Mutation.SET_UNLOCK_ERROR, { value: 'Wrong passphrase' });
+                return;
+            }
+
+            await context.dispatch('collection/fetchIndex', undefined, { root: true });
+        } catch (error) {
+            context.commit(Mutation.SET_UNLOCK_ERROR, { value: error.message });
+        }
+    },
+
+    /**
+     * Encrypts the collection and its snapshots with the passphrase; the files already on disk are re-encrypted.
+     * The past versions kept by the storage were written unencrypted, so they are removed.
+     *
+     * @param {StorageContext} context
+     * @param {{ passphrase: string }} { passphrase }
+     * @returns {Promise<void>}
+     */
+    async [Action.enableEncryption](context: StorageContext, { passphrase }: { passphrase: string }): Promise<void> {
+        if (!activeStorage.supportsEncryption) {
+            throw new Error(`"${activeStorage.name}" cannot encrypt the collection`);
+        }
+
+        await helpers.flushWrites();
+        await enableEncryption(passphrase, () => helpers.rewriteCollection(context));
+        await activeStorage.clearHistory!();
+        await actions.fetchEncryption(context);
+    },
+
+    async [Action.changePassphrase](
+        context: StorageContext,
+        { passphrase, newPassphrase }: { passphrase: string; newPassphrase: string }
+    ): Promise<void> {
+        if (!(await changePassphrase(passphrase, newPassphrase))) {
+            throw new Error('Wrong passphrase');
+        }
+    },
+
+    /**
+     * Writes the collection and its snapshots back in plain JSON.
+     *
+     * @param {StorageContext} context
+     * @returns {Promise<void>}
+     */
+    async [Action.disableEncryption](context: StorageContext): Promise<void> {
+        await helpers.flushWrites();
+        await disableEncryption(() => helpers.rewriteCollection(context));
+        await actions.fetchEncryption(context);
+    },
+
+    [Action.clearConflicts](context: StorageContext): void {
+        context.commit(Mutation.CLEAR_CONFLICTS);
+    },
+
+    [Action.retryWrites](context: StorageContext): void {
+        writeQueue.retry();
+    },
+
+    async [Action.fetchSnapshots](context: StorageContext): Promise<void> {
+        context.commit(Mutation.SET_SNAPSHOTS, { value: await listSnapshots() });
+    },
+
+    /**
+     * Saves the current collection into a new snapshot and removes the snapshots over the retention limit.
+     * The collection is captured right away, so the snapshot holds the state from before any changes made after the dispatch.
+     *
+     * @param {StorageContext} context
+     * @param {{ reason: StorageSnapshotReason }} { reason }
+     * @returns {Promise<void>}
+     */
+    async [Action.takeSnapshot](context: StorageContext, { reason }: { reason: StorageSnapshotReason }): Promise<void> {
+        // the collection is not loaded while locked
+        if (context.state.isLocked) {
+            return;
+        }
+
+        const collection = context.rootState.collection;
+        const data = getSnapshotData(collection);
+
+        // lists not loaded yet have not changed since they were stored, so they are read from the storage
+        const unloadedListIds = Object.keys(collection.lists).filter(listId => !collection.lists[listId].isLoaded);
+
+        try {
+            const unloadedLists = await Promise.all(unloadedListIds.map(listId => activeStorage.loadList(listId)));
+            data.lists.push(...unloadedLists.map(list => list.safeJSON));
+
+            const hash = crypto
+                .createHash('sha1')
+                .update(JSON.stringify(data))
+                .digest('hex');
+
+            if (reason === 'scheduled' && hash === lastSnapshotHash) {
+                return;
+            }
+
+            await createSnapshot(data, reason);
+            lastSnapshotHash = hash;
+
+            await rotateSnapshots(parseInt(snapshotRetentionSetting.get(), 10) || 0);
+        } catch (error) {
+            // a failed snapshot should not prevent the operation it precedes
+            console.error('snapshot failed', reason, error);
+        }
+
+        await actions.fetchSnapshots(context);
+    },
+
+    /**
+     * (Re)starts taking scheduled snapshots with the interval from the settings.
+     *
+     * @param {StorageContext} context
+     */
+    [Action.scheduleSnapshots](context: StorageContext): void {
+        if (snapshotTimer !== null) {
+            clearInterval(snapshotTimer);
+            snapshotTimer = null;
+        }
+
+        const intervalHours = parseFloat(snapshotIntervalSetting.get()) || 0;
+        if (intervalHours <= 0) {
+            return;
+        }
+
+        snapshotTimer = setInterval(() => actions.takeSnapshot(context, { reason: 'scheduled' }), intervalHours * 60 * 60 * 1000);
+    },
+
+    /**
+     * Replaces the live collection with the snapshot; the live collection is saved into a new snapshot first.
+     *
+     * @param {StorageContext} context
+     * @param {{ snapshotId: string }} { snapshotId }
+     * @returns {Promise<void>}
+     */
+    async [Action.restoreSnapshot](context: StorageContext, { snapshotId }: { snapshotId: string }): Promise<void> {
+        const snapshot = await loadSnapshot(snapshotId);
+        const value = snapshotToState(snapshot);
+
+        await actions.takeSnapshot(context, { reason: 'restore' });
+
+        context.dispatch('collection/replaceCollection', { value }, { root: true });
+    },
+
+    /**
+     * Writes the whole collection into a bundle file, which can be imported on another computer.
+     *
+     * @param {StorageContext} context
+     * @param {{ fileName: string; appVersion: string }} { fileName, appVersion }
+     * @returns {Promise<void>}
+     */
+    async [Action.exportCollection](
+        context: StorageContext,
+        { fileName, appVersion }: { fileName: string; appVersion: string }
+    ): Promise<void> {
+        // every list is exported, so the lists not loaded yet need their words
+        await context.dispatch('collection/loadLists', { listIds: Object.keys(context.rootState.collection.lists) }, { root: true });
+        await writeBundle(fileName, createBundle(context.rootState.collection, appVersion));
+    },
+
+    /**
+     * Imports the bundle into the collection in the given mode; the collection is saved into a snapshot first.
+     *
+     * @param {StorageContext} context
+     * @param {{ bundle: CollectionBundle; mode: BundleImportMode; subtreeName?: string }} { bundle, mode, subtreeName }
+     * @returns {Promise<void>}
+     */
+    async [Action.importCollection](
+        context: StorageContext,
+        { bundle, mode, subtreeName }: { bundle: CollectionBundle; mode: BundleImportMode; subtreeName?: string }
+    ): Promise<void> {
+        await context.dispatch('collection/loadLists', { listIds: Object.keys(context.rootState.collection.lists) }, { root: true });
+        await actions.takeSnapshot(context, { reason: 'import' });
+
+        const { value } = importBundle(getSnapshotData(context.rootState.collection), bundle, mode, subtreeName);
+
+        context.dispatch('collection/replaceCollection', { value }, { root: true });
+    }
+};
+
+const mutations = {
+    [Mutation.SET_PROFILES](state: StorageState, { profiles, profileId }: { profiles: StorageProfile[]; profileId: string }): void {
+        state.profiles = profiles;
+        state.profileId = profileId;
+    },
+
+    [Mutation.SET_STORAGE_ID](state: StorageState, { value }: { value: string }): void {
+        state.storageId = value;
+    },
+
+    [Mutation.SET_TRANSFER](state: StorageState, { value }: { value: StorageTransferProgress | null }): void {
+        state.transfer = value;
+    },
+
+    [Mutation.SET_TRANSFER_ERROR](state: StorageState, { value }: { value: string | null }): void {
+        state.transferError = value;
+    },
+
+    [Mutation.SET_SAVE_STATUS](state: StorageState, { value }: { value: WriteQueueStatus }): void {
+        state.pendingWrites = value.pending;
+        state.saveError = value.error;
+    },
+
+    [Mutation.SET_SNAPSHOTS](state: StorageState, { value }: { value: StorageSnapshotInfo[] }): void {
+        state.snapshots = value;
+    },
+
+    [Mutation.SET_ENCRYPTION](state: StorageState, { isEncrypted, isLocked }: { isEncrypted: boolean; isLocked: boolean }): void {
+        state.isEncrypted = isEncrypted;
+        state.isLocked = isLocked;
+    },
+
+    [Mutation.SET_UNLOCK_ERROR](state: StorageState, { value }: { value: string | null }): void {
+        state.unlockError = value;
+    },
+
+    [Mutation.ADD_CONFLICT](state: StorageState, { value }: { value: string }): void {
+        state.conflicts.push(value);
+    },
+
+    [Mutation.CLEAR_CONFLICTS](state: StorageState): void {
+        state.conflicts.splice(0);
+    }
+};
+
+const helpers = {
+    /**
+     * Writes the pending changes right away; throws if any of them cannot be saved.
+     *
+     * @returns {Promise<void>}
+     */
+    async flushWrites(): Promise<void> {
+        await writeQueue.flush();
+
+        if (writeQueue.status.error !== null) {
+            throw new Error(`Unsaved changes: ${writeQueue.status.error}`);
+        }
+    },
+
+    /**
+     * Writes all the collection files, snapshots, migration backups and the sync records again, for example, to encrypt them.
+     *
+     * @param {StorageContext} context
+     * @returns {Promise<void>}
+     */
+    async rewriteCollection(context: StorageContext): Promise<void> {
+        // every list is written again, so the lists not loaded yet need their words
+        await context.dispatch('collection/loadLists', { listIds: Object.keys(context.rootState.collection.lists) }, { root: true });
+        await activeStorage.saveCollection(context.rootState.collection);
+        await rewriteSnapshots();
+        await rewriteBackups();
+        await rewriteGistSyncRecord();
+        await rewriteJournalSyncRecord();
+        await rewriteWebDavSyncRecord();
+    }
+};
+
+export const storage = {
+    namespaced: true,
+    state,
+    getters,
+    actions,
+    mutations
+};
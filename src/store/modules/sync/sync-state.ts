@@ -0,0 +1,80 @@
+import { SyncConflict } from '@/api/sync';
+
+/**
+ * Sync targets merging the collection, which can have conflicts for the user to resolve.
+ */
+export type SyncConflictTarget = 'gist' | 'webdav';
+
+export class SyncState {
+    /**
+     * Id of the gist the collection is synced with; empty if the collection is not synced.
+     *
+     * @type {string}
+     * @memberof SyncState
+     */
+    gistId: string = '';
+
+    /**
+     * Date of the last successful sync; `null` if the collection was not synced yet.
+     *
+     * @type {(number | null)}
+     * @memberof SyncState
+     */
+    lastSyncDate: number | null = null;
+
+    /**
+     * Path of the shared folder holding the journals the collection is synced through; empty if not synced through a folder.
+     *
+     * @type {string}
+     * @memberof SyncState
+     */
+    journalLocation: string = '';
+
+    lastJournalSyncDate: number | null = null;
+
+    /**
+     * URL of the WebDAV folder the collection is synced with; empty if not synced with a WebDAV server.
+     *
+     * @type {string}
+     * @memberof SyncState
+     */
+    webdavUrl: string = '';
+
+    lastWebDavSyncDate: number | null = null;
+
+    /**
+     * Number of files of the last sync not written to the WebDAV server yet; they are written by the next sync.
+     *
+     * @type {number}
+     * @memberof SyncState
+     */
+    webdavPendingCount: number = 0;
+
+    /**
+     * Set while syncing with any of the targets, as all of them replace the collection.
+     *
+     * @type {boolean}
+     * @memberof SyncState
+     */
+    isSyncing: boolean = false;
+
+    /**
+     * Error message of the last failed sync.
+     *
+     * @type {(string | null)}
+     * @memberof SyncState
+     */
+    syncError: string | null = null;
+
+    journalSyncError: string | null = null;
+    webdavSyncError: string | null = null;
+
+    /**
+     * Conflicts of the last sync waiting for the user to pick a side; nothing is merged or uploaded until they are resolved.
+     *
+     * @type {SyncConflict[]}
+     * @memberof SyncState
+     */
+    conflicts: SyncConflict[] = [];
+    conflictsTarget: SyncConflictTarget | null = null;
+}
@@ -0,0 +1,454 @@
+import { ActionContext } from 'vuex';
+
+import { SyncConflictTarget, SyncState } from './sync-state';
+import { RootState } from '@/store/state';
+import { snapshotToState, writeQueue } from '@/api/storage';
+import {
+    GistClient,
+    GistPull,
+    GistSyncRecord,
+    JournalSyncRecord,
+    SyncConflict,
+    SyncResolutions,
+    SyncSnapshot,
+    WEBDAV_OFFLINE,
+    WebDavClient,
+    WebDavSyncRecord,
+    createJournalSyncRecord,
+    createJournalTransport,
+    createWebDavSyncRecord,
+    deleteGistSyncRecord,
+    deleteJournalSyncRecord,
+    deleteWebDavSyncRecord,
+    getSyncSnapshot,
+    loadGistSyncRecord,
+    loadJournalSyncRecord,
+    loadWebDavSyncRecord,
+    pullGist,
+    pullWebDav,
+    pushGist,
+    pushWebDav,
+    queueWebDavPush,
+    saveGistSyncRecord,
+    saveJournalSyncRecord,
+    saveWebDavSyncRecord,
+    syncJournals
+} from '@/api/sync';
+import { gistApiUrlSetting, gistTokenSetting, webdavPasswordSetting, webdavUsernameSetting } from '@/settings';
+
+type SyncContext = ActionContext<SyncState, RootState>;
+
+const state: SyncState = new SyncState();
+
+export enum Action {
+    fetchSync = 'fetchSync',
+    linkGist = 'linkGist',
+    unlinkGist = 'unlinkGist',
+    syncGist = 'syncGist',
+    dismissConflicts = 'dismissConflicts',
+    linkFolder = 'linkFolder',
+    unlinkJournal = 'unlinkJournal',
+    syncJournal = 'syncJournal',
+    linkWebDav = 'linkWebDav',
+    unlinkWebDav = 'unlinkWebDav',
+    syncWebDav = 'syncWebDav'
+}
+
+export enum Mutation {
+    SET_RECORD = 'SET_RECORD',
+    SET_SYNCING = 'SET_SYNCING',
+    SET_SYNC_ERROR = 'SET_SYNC_ERROR',
+    SET_CONFLICTS = 'SET_CONFLICTS',
+    SET_JOURNAL_RECORD = 'SET_JOURNAL_RECORD',
+    SET_JOURNAL_SYNC_ERROR = 'SET_JOURNAL_SYNC_ERROR',
+    SET_WEBDAV_RECORD = 'SET_WEBDAV_RECORD',
+    SET_WEBDAV_SYNC_ERROR = 'SET_WEBDAV_SYNC_ERROR'
+}
+
+const actions = {
+    /**
+     * Reads which gist, journals and WebDAV folder the collection of the active profile is synced with.
+     *
+     * @param {SyncContext} context
+     * @returns {Promise<void>}
+     */
+    async [Action.fetchSync](context: SyncContext): Promise<void> {
+        context.commit(Mutation.SET_CONFLICTS, { value: [] });
+        context.commit(Mutation.SET_SYNC_ERROR, { value: null });
+
+        try {
+            context.commit(Mutation.SET_RECORD, { value: await loadGistSyncRecord() });
+        } catch (error) {
+            context.commit(Mutation.SET_RECORD, { value: null });
+            context.commit(Mutation.SET_SYNC_ERROR, { value: `The sync details cannot be read: ${error.message}` });
+        }
+
+        context.commit(Mutation.SET_JOURNAL_SYNC_ERROR, { value: null });
+
+        try {
+            context.commit(Mutation.SET_JOURNAL_RECORD, { value: await loadJournalSyncRecord() });
+        } catch (error) {
+            context.commit(Mutation.SET_JOURNAL_RECORD, { value: null });
+            context.commit(Mutation.SET_JOURNAL_SYNC_ERROR, { value: `The sync details cannot be read: ${error.message}` });
+        }
+
+        context.commit(Mutation.SET_WEBDAV_SYNC_ERROR, { value: null });
+
+        try {
+            context.commit(Mutation.SET_WEBDAV_RECORD, { value: await loadWebDavSyncRecord() });
+        } catch (error) {
+            context.commit(Mutation.SET_WEBDAV_RECORD, { value: null });
+            context.commit(Mutation.SET_WEBDAV_SYNC_ERROR, { value: `The sync details cannot be read: ${error.message}` });
+        }
+    },
+
+    /**
+     * Syncs the collection with an existing gist, for example, one created from another computer.
+     * Without a common base, the first sync reports every word which differs between the two collections as a conflict.
+     *
+     * @param {SyncContext} context
+     * @param {{ gistId: string }} { gistId }
+     * @returns {Promise<void>}
+     */
+    async [Action.linkGist](context: SyncContext, { gistId }: { gistId: string }): Promise<void> {
+        const record: GistSyncRecord = { gistId, date: null, base: null };
+
+        await saveGistSyncRecord(record);
+        context.commit(Mutation.SET_RECORD, { value: record });
+
+        await actions.syncGist(context);
+    },
+
+    /**
+     * Stops syncing the collection; the gist is left as it is.
+     *
+     * @param {SyncContext} context
+     * @returns {Promise<void>}
+     */
+    async [Action.unlinkGist](context: SyncContext): Promise<void> {
+        await deleteGistSyncRecord();
+
+        context.commit(Mutation.SET_RECORD, { value: null });
+
+        if (context.state.conflictsTarget === 'gist') {
+            context.commit(Mutation.SET_CONFLICTS, { value: [] });
+        }
+    },
+
+    /**
+     * Merges the collection with the gist and uploads the result; creates a new secret gist on the first sync.
+     * If the merge has conflicts, they are kept for the user to resolve, and the sync is run again with the resolutions.
+     *
+     * @param {SyncContext} context
+     * @param {{ resolutions?: SyncResolutions }} [{ resolutions = {} }={}]
+     * @returns {Promise<void>}
+     */
+    async [Action.syncGist](context: SyncContext, { resolutions = {} }: { resolutions?: SyncResolutions } = {}): Promise<void> {
+        // the collection is not loaded while locked
+        if (context.rootState.storage.isLocked || context.state.isSyncing) {
+            return;
+        }
+
+        context.commit(Mutation.SET_SYNCING, { value: true });
+        context.commit(Mutation.SET_SYNC_ERROR, { value: null });
+
+        try {
+            await helpers.flushWrites();
+
+            // every list is synced, so the lists not loaded yet need their words
+            await context.dispatch('collection/loadLists', { listIds: Object.keys(context.rootState.collection.lists) }, { root: true });
+
+            const record = await loadGistSyncRecord();
+            const local = getSyncSnapshot(context.rootState.collection);
+            const client = new GistClient(gistTokenSetting.get(), gistApiUrlSetting.get());
+
+            const { files, result }: GistPull =
+                record !== null
+                    ? await pullGist(client, record.gistId, local, record.base, resolutions)
+                    : { files: {}, result: { snapshot: local, conflicts: [] } };
+
+            if (result.conflicts.some(conflict => resolutions[conflict.id] === undefined)) {
+                context.commit(Mutation.SET_CONFLICTS, { value: result.conflicts, target: 'gist' });
+                return;
+            }
+
+            if (JSON.stringify(getSyncSnapshot(context.rootState.collection)) !== JSON.stringify(local)) {
+                throw new Error('The collection was changed during the sync; sync again');
+            }
+
+            if (JSON.stringify(result.snapshot) !== JSON.stringify(local)) {
+                await helpers.applySnapshot(context, result.snapshot);
+            }
+
+            const gistId = await pushGist(client, record !== null ? record.gistId : null, result.snapshot, files);
+            const syncedRecord: GistSyncRecord = { gistId, date: Date.now(), base: result.snapshot };
+
+            await saveGistSyncRecord(syncedRecord);
+
+            context.commit(Mutation.SET_RECORD, { value: syncedRecord });
+
+            if (context.state.conflictsTarget === 'gist') {
+                context.commit(Mutation.SET_CONFLICTS, { value: [] });
+            }
+        } catch (error) {
+            context.commit(Mutation.SET_SYNC_ERROR, { value: error.message });
+        } finally {
+            context.commit(Mutation.SET_SYNCING, { value: false });
+        }
+    },
+
+    [Action.dismissConflicts](context: SyncContext): void {
+        context.commit(Mutation.SET_CONFLICTS, { value: [] });
+    },
+
+    /**
+     * Syncs the collection through the journals kept in a shared folder. The collection is recorded as a whole into the journal
+     * of this device and joined with the collections recorded by the other devices; nothing is deleted by the first sync.
+     *
+     * @param {SyncContext} context
+     * @param {{ folderPath: string }} { folderPath }
+     * @returns {Promise<void>}
+     */
+    async [Action.linkFolder](context: SyncContext, { folderPath }: { folderPath: string }): Promise<void> {
+        const record = createJournalSyncRecord('folder', folderPath);
+
+        await saveJournalSyncRecord(record);
+        context.commit(Mutation.SET_JOURNAL_RECORD, { value: record });
+
+        await actions.syncJournal(context);
+    },
+
+    /**
+     * Stops syncing the collection through the journals; the journals are left as they are.
+     *
+     * @param {SyncContext} context
+     * @returns {Promise<void>}
+     */
+    async [Action.unlinkJournal](context: SyncContext): Promise<void> {
+        await deleteJournalSyncRecord();
+        context.commit(Mutation.SET_JOURNAL_RECORD, { value: null });
+    },
+
+    /**
+     * Records the changes made since the last sync into the journal of this device and replaces the collection
+     * with the one replayed from the journals of all the devices.
+     *
+     * @param {SyncContext} context
+     * @returns {Promise<void>}
+     */
+    async [Action.syncJournal](context: SyncContext): Promise<void> {
+        if (context.rootState.storage.isLocked || context.state.isSyncing) {
+            return;
+        }
+
+        context.commit(Mutation.SET_SYNCING, { value: true });
+        context.commit(Mutation.SET_JOURNAL_SYNC_ERROR, { value: null });
+
+        try {
+            await helpers.flushWrites();
+            await context.dispatch('collection/loadLists', { listIds: Object.keys(context.rootState.collection.lists) }, { root: true });
+
+            const record = await loadJournalSyncRecord();
+            if (record === null) {
+                return;
+            }
+
+            const local = getSyncSnapshot(context.rootState.collection);
+            const result = await syncJournals(createJournalTransport(record), record, local);
+
+            if (JSON.stringify(getSyncSnapshot(context.rootState.collection)) !== JSON.stringify(local)) {
+                throw new Error('The collection was changed during the sync; sync again');
+            }
+
+            if (JSON.stringify(result.snapshot) !== JSON.stringify(local)) {
+                await helpers.applySnapshot(context, result.snapshot);
+            }
+
+            // saved only once the collection is replaced, otherwise the next sync would record the difference as local changes
+            await saveJournalSyncRecord(result.record);
+            context.commit(Mutation.SET_JOURNAL_RECORD, { value: result.record });
+        } catch (error) {
+            context.commit(Mutation.SET_JOURNAL_SYNC_ERROR, { value: error.message });
+        } finally {
+            context.commit(Mutation.SET_SYNCING, { value: false });
+        }
+    },
+
+    /**
+     * Syncs the collection with a folder of a WebDAV server; an empty or missing folder gets a copy of the collection.
+     *
+     * @param {SyncContext} context
+     * @param {{ url: string }} { url }
+     * @returns {Promise<void>}
+     */
+    async [Action.linkWebDav](context: SyncContext, { url }: { url: string }): Promise<void> {
+        const record = createWebDavSyncRecord(url);
+
+        await saveWebDavSyncRecord(record);
+        context.commit(Mutation.SET_WEBDAV_RECORD, { value: record });
+
+        await actions.syncWebDav(context);
+    },
+
+    /**
+     * Stops syncing the collection with the WebDAV server; the files on the server are left as they are,
+     * and the files not written yet are not written.
+     *
+     * @param {SyncContext} context
+     * @returns {Promise<void>}
+     */
+    async [Action.unlinkWebDav](context: SyncContext): Promise<void> {
+        await deleteWebDavSyncRecord();
+
+        context.commit(Mutation.SET_WEBDAV_RECORD, { value: null });
+
+        if (context.state.conflictsTarget === 'webdav') {
+            context.commit(Mutation.SET_CONFLICTS, { value: [] });
+        }
+    },
+
+    /**
+     * Merges the collection with the files on the WebDAV server and writes the changed files back.
+     * The files not written because the server cannot be reached stay queued in the sync record and are written by the next sync.
+     *
+     * @param {SyncContext} context
+     * @param {{ resolutions?: SyncResolutions }} [{ resolutions = {} }={}]
+     * @returns {Promise<void>}
+     */
+    async [Action.syncWebDav](context: SyncContext, { resolutions = {} }: { resolutions?: SyncResolutions } = {}): Promise<void> {
+        if (context.rootState.storage.isLocked || context.state.isSyncing) {
+            return;
+        }
+
+        context.commit(Mutation.SET_SYNCING, { value: true });
+        context.commit(Mutation.SET_WEBDAV_SYNC_ERROR, { value: null });
+
+        try {
+            await helpers.flushWrites();
+            await context.dispatch('collection/loadLists', { listIds: Object.keys(context.rootState.collection.lists) }, { root: true });
+
+            const record = await loadWebDavSyncRecord();
+            if (record === null) {
+                return;
+            }
+
+            const local = getSyncSnapshot(context.rootState.collection);
+            const client = new WebDavClient(record.url, webdavUsernameSetting.get(), webdavPasswordSetting.get());
+            const pull = await pullWebDav(client, record, local, resolutions);
+
+            if (pull.result.conflicts.some(conflict => resolutions[conflict.id] === undefined)) {
+                context.commit(Mutation.SET_CONFLICTS, { value: pull.result.conflicts, target: 'webdav' });
+                return;
+            }
+
+            if (JSON.stringify(getSyncSnapshot(context.rootState.collection)) !== JSON.stringify(local)) {
+                throw new Error('The collection was changed during the sync; sync again');
+            }
+
+            if (JSON.stringify(pull.result.snapshot) !== JSON.stringify(local)) {
+                await helpers.applySnapshot(context, pull.result.snapshot);
+            }
+
+            const queuedRecord = queueWebDavPush(record, pull);
+            await helpers.saveWebDavRecord(context, queuedRecord);
+
+            if (context.state.conflictsTarget === 'webdav') {
+                context.commit(Mutation.SET_CONFLICTS, { value: [] });
+            }
+
+            await pushWebDav(client, queuedRecord, value => helpers.saveWebDavRecord(context, value));
+        } catch (error) {
+            const message =
+                error.code === WEBDAV_OFFLINE && context.state.webdavPendingCount !== 0
+                    ? `${error.message}. The changes will be uploaded by the next sync.`
+                    : error.message;
+
+            context.commit(Mutation.SET_WEBDAV_SYNC_ERROR, { value: message });
+        } finally {
+            context.commit(Mutation.SET_SYNCING, { value: false });
+        }
+    }
+};
+
+const mutations = {
+    [Mutation.SET_RECORD](state: SyncState, { value }: { value: GistSyncRecord | null }): void {
+        state.gistId = value !== null ? value.gistId : '';
+        state.lastSyncDate = value !== null ? value.date : null;
+    },
+
+    [Mutation.SET_SYNCING](state: SyncState, { value }: { value: boolean }): void {
+        state.isSyncing = value;
+    },
+
+    [Mutation.SET_SYNC_ERROR](state: SyncState, { value }: { value: string | null }): void {
+        state.syncError = value;
+    },
+
+    [Mutation.SET_CONFLICTS](
+        state: SyncState,
+        { value, target = null }: { value: SyncConflict[]; target?: SyncConflictTarget | null }
+    ): void {
+        state.conflicts = value;
+        state.conflictsTarget = target;
+    },
+
+    [Mutation.SET_JOURNAL_RECORD](state: SyncState, { value }: { value: JournalSyncRecord | null }): void {
+        state.journalLocation = value !== null ? value.location : '';
+        state.lastJournalSyncDate = value !== null ? value.date : null;
+    },
+
+    [Mutation.SET_JOURNAL_SYNC_ERROR](state: SyncState, { value }: { value: string | null }): void {
+        state.journalSyncError = value;
+    },
+
+    [Mutation.SET_WEBDAV_RECORD](state: SyncState, { value }: { value: WebDavSyncRecord | null }): void {
+        state.webdavUrl = value !== null ? value.url : '';
+        state.lastWebDavSyncDate = value !== null ? value.date : null;
+        state.webdavPendingCount = value !== null ? Object.keys(value.pending).length : 0;
+    },
+
+    [Mutation.SET_WEBDAV_SYNC_ERROR](state: SyncState, { value }: { value: string | null }): void {
+        state.webdavSyncError = value;
+    }
+};
+
+const helpers = {
+    async saveWebDavRecord(context: SyncContext, record: WebDavSyncRecord): Promise<void> {
+        await saveWebDavSyncRecord(record);
+        context.commit(Mutation.SET_WEBDAV_RECORD, { value: record });
+    },
+
+    async flushWrites(): Promise<void> {
+        await writeQueue.flush();
+
+        if (writeQueue.status.error !== null) {
+            throw new Error(`Unsaved changes: ${writeQueue.status.error}`);
+        }
+    },
+
+    /**
+     * Replaces the collection with the synced one, taking a snapshot of the collection first. The trash is not synced.
+     *
+     * @param {SyncContext} context
+     * @param {SyncSnapshot} snapshot
+     * @returns {Promise<void>}
+     */
+    async applySnapshot(context: SyncContext, snapshot: SyncSnapshot): Promise<void> {
+        await context.dispatch('storage/takeSnapshot', { reason: 'sync' }, { root: true });
+
+        const value = snapshotToState({
+            index: snapshot.index,
+            lists: Object.values(snapshot.lists),
+            trash: context.rootState.collection.trash.safeJSON
+        });
+
+        await context.dispatch('collection/replaceCollection', { value }, { root: true });
+    }
+};
+
+export const sync = {
+    namespaced: true,
+    state,
+    actions,
+    mutations
+};
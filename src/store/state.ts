@@ -2,10 +2,16 @@ import { AppState } from '@/store/modules/app';
 // import { WordsState } from '@/store/modules/words';
 import { CollectionState } from '@/store/modules/collection';
 import { DisplayState } from '@/store/modules/display';
+import { ReviewState } from '@/store/modules/review';
+import { StorageState } from '@/store/modules/storage';
+import { SyncState } from '@/store/modules/sync';
 
 export interface RootState {
     app: AppState;
     collection: CollectionState;
     display: DisplayState;
+    review: ReviewState;
+    storage: StorageState;
+    sync: SyncState;
     // words: WordsState;
 }
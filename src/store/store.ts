@@ -5,6 +5,9 @@ import createLogger from 'vuex/dist/logger';
 import { app } from './modules/app';
 import { collection } from './modules/collection';
 import { display } from './modules/display';
+import { review } from './modules/review';
+import { storage } from './modules/storage';
+import { sync } from './modules/sync';
 
 import { RootState } from './state';
 
@@ -18,6 +21,9 @@ export const createStore = () =>
         modules: {
             app,
             collection,
-            display
+            display,
+            review,
+            storage,
+            sync
         }
     });
@@ -0,0 +1,73 @@
+import { CollectionIndex, CollectionList, CollectionState, CollectionTrash, CollectionWord } from '@/store/modules/collection';
+import { StorageSnapshotData } from '@/api/storage/snapshots';
+import { createBundle, importBundle } from '@/api/storage/bundle';
+
+jest.mock('@/api/storage');
+jest.mock('electron-settings', () => ({}));
+
+// a list with a word shared with its sub-list, a smart list scoped to the list, and a smart list scoped to a list left out of the bundle
+function createCollection(): CollectionState {
+    const index = new CollectionIndex();
+    const gre = new CollectionList({ name: 'GRE' });
+    const verbs = new CollectionList({ name: 'Verbs' });
+    const favourites = new CollectionList({ name: 'Favourites', query: { favourite: true, listId: gre.id, includeChildren: true } });
+    const other = new CollectionList({ name: 'Other' });
+    const otherFavourites = new CollectionList({ name: 'Other favourites', query: { favourite: true, listId: other.id } });
+
+    const word = new CollectionWord({ text: 'obdurate', favourite: true });
+    gre.addWord(word);
+    gre.addWord(new CollectionWord({ text: 'laconic' }));
+    verbs.addWord(word);
+
+    [favourites, gre, otherFavourites].forEach(list => index.tree.addList(list));
+    index.tree.items[1].addList(verbs);
+
+    return new CollectionState({
+        index,
+        lists: { [gre.id]: gre, [verbs.id]: verbs, [favourites.id]: favourites, [otherFavourites.id]: otherFavourites }
+    });
+}
+
+function toSnapshotData(state: CollectionState): StorageSnapshotData {
+    return {
+        index: state.index.safeJSON,
+        lists: Object.values(state.lists).map(list => list.safeJSON),
+        trash: new CollectionTrash().safeJSON
+    };
+}
+
+function findList(state: CollectionState, name: string, except: CollectionState | null = null): CollectionList {
+    return Object.values(state.lists).find(list => list.name === name && (except === null || except.lists[list.id] === undefined))!;
+}
+
+describe('collection bundle', () => {
+    it('counts the words shared by several lists once', () => {
+        const bundle = createBundle(createCollection(), '1.0.0');
+        const { summary } = importBundle(toSnapshotData(new CollectionState()), bundle, 'subtree');
+
+        expect(bundle.manifest.wordCount).toBe(2);
+        expect(summary.wordsAdded).toBe(2);
+    });
+
+    it('points the imported smart lists to the imported copies of their lists', () => {
+        const state = createCollection();
+        const { value } = importBundle(toSnapshotData(state), createBundle(state, '1.0.0'), 'subtree');
+
+        const gre = findList(value, 'GRE', state);
+        const favourites = findList(value, 'Favourites', state);
+
+        expect(favourites.query!.listId).toBe(gre.id);
+        expect(value.getListWords(favourites).map(word => word.text)).toEqual(['obdurate']);
+        expect(findList(value, 'Other favourites', state).query!.listId).toBeNull();
+    });
+
+    it('points the merged smart lists to the lists they were merged into', () => {
+        const { value } = importBundle(toSnapshotData(new CollectionState()), createBundle(createCollection(), '1.0.0'), 'merge');
+
+        const favourites = findList(value, 'Favourites');
+
+        expect(favourites.query!.listId).toBe(findList(value, 'GRE').id);
+        expect(value.getListWords(favourites).map(word => word.text)).toEqual(['obdurate']);
+        expect(findList(value, 'Other favourites').query!.listId).toBeNull();
+    });
+});
@@ -0,0 +1,101 @@
+import { DelimitedMapping, exportDelimited, formatDelimited, guessMapping, parseDelimited, planDelimitedImport } from '@/api/delimited';
+import { CollectionIndex, CollectionList, CollectionState, CollectionWord } from '@/store/modules/collection';
+
+jest.mock('@/api/storage');
+jest.mock('electron-settings', () => ({}));
+
+describe('delimited files', () => {
+    it('parses quoted fields with delimiters, doubled quotes and line breaks', () => {
+        const rows = parseDelimited('word,notes\r\n"a, b","say ""hi"""\r\nc,"two\r\nlines"\r\n', ',');
+
+        expect(rows.map(row => row.cells)).toEqual([
+            ['word', 'notes'],
+            ['a, b', 'say "hi"'],
+            ['c', 'two\r\nlines']
+        ]);
+    });
+
+    it('numbers the rows by the lines they start on', () => {
+        const rows = parseDelimited('word\n\nobdurate\n"laconic\n\nterse"\n\n\npellucid', ',');
+
+        expect(rows.map(row => row.line)).toEqual([1, 3, 4, 9]);
+    });
+
+    it('reads back what it writes', () => {
+        const rows = [
+            ['text', 'notes'],
+            ['obdurate', 'stubborn,\t"unyielding"\nhard'],
+            ['laconic', '']
+        ];
+
+        expect(parseDelimited(formatDelimited(rows, '\t'), '\t').map(row => row.cells)).toEqual(rows);
+        expect(parseDelimited(formatDelimited(rows, ','), ',').map(row => row.cells)).toEqual(rows);
+    });
+
+    it('marks the duplicate and invalid rows of an import with their lines', () => {
+        const mapping: DelimitedMapping = ['text', 'favourite', 'dateAdded', 'path'];
+        const rows = parseDelimited(
+            [
+                'word,favourite,date,list',
+                'obdurate,yes,2019-04-01,',
+                '',
+                'laconic,maybe,,',
+                'pellucid,no,2019-13-01,',
+                'obdurate,,,',
+                'sedulous,,,Verbs / Rare',
+                'sedulous,,,Verbs/Rare',
+                'sedulous,,,Verbs',
+                'ephemeral,,,'
+            ].join('\n'),
+            ','
+        );
+
+        const plan = planDelimitedImport(rows, mapping, true, new Set(['ephemeral']));
+
+        expect(plan.map(row => [row.line, row.status])).toEqual([
+            [2, 'new'],
+            [4, 'invalid'],
+            [5, 'invalid'],
+            [6, 'duplicate'],
+            [7, 'new'],
+            [8, 'duplicate'],
+            [9, 'new'],
+            [10, 'duplicate']
+        ]);
+        expect(plan[0].word.favourite).toBe(true);
+        expect(plan[4].path).toEqual(['Verbs', 'Rare']);
+    });
+
+    it('exports a list so it can be imported back into it', () => {
+        const index = new CollectionIndex();
+        const gre = new CollectionList({ name: 'GRE' });
+        const verbs = new CollectionList({ name: 'Verbs' });
+
+        gre.addWord(new CollectionWord({ text: 'laconic', notes: 'terse' }));
+        verbs.addWord(new CollectionWord({ text: 'obdurate', favourite: true }));
+
+        index.tree.addList(gre);
+        index.tree.items[0].addList(verbs);
+
+        const state = new CollectionState({ index, lists: { [gre.id]: gre, [verbs.id]: verbs } });
+        const text = formatDelimited(exportDelimited(state, [gre.id], ['text', 'notes', 'favourite', 'path'], true), ',');
+
+        const rows = parseDelimited(text, ',');
+        const { mapping, hasHeader } = guessMapping(rows[0].cells);
+        const plan = planDelimitedImport(rows, mapping, hasHeader, new Set());
+
+        expect(plan.map(row => [row.status, row.word.text, row.path])).toEqual([
+            ['new', 'laconic', []],
+            ['new', 'obdurate', ['Verbs']]
+        ]);
+        expect(plan[0].word.notes).toBe('terse');
+        expect(plan[1].word.favourite).toBe(true);
+
+        // several lists keep their names, so they are imported into separate sub-lists
+        const both = parseDelimited(formatDelimited(exportDelimited(state, [gre.id, verbs.id], ['text', 'path'], false), ','), ',');
+        expect(both.slice(1).map(row => row.cells)).toEqual([
+            ['laconic', 'GRE'],
+            ['obdurate', 'Verbs']
+        ]);
+    });
+});
@@ -0,0 +1,188 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import { CollectionIndex, CollectionList, CollectionWord } from '@/store/modules/collection';
+import { GistClient, SyncResolutions, SyncSnapshot, pullGist, pushGist } from '@/api/sync';
+
+import { copy, createCollection, createEmptyCollection, findWord } from './sync-fixtures';
+
+jest.mock('@/api/storage');
+jest.mock('electron-settings', () => ({}));
+
+const token = 'secret';
+
+/**
+ * A stand-in for the Gists API keeping the gists in memory.
+ */
+function createGistServer(gists: { [id: string]: { [fileName: string]: string } }): http.Server {
+    let nextId = 1;
+
+    return http.createServer((request, response) => {
+        let body = '';
+
+        request.on('data', chunk => (body += chunk));
+        request.on('end', () => {
+            const send = (status: number, data: object) => {
+                response.writeHead(status, { 'Content-Type': 'application/json' });
+                response.end(JSON.stringify(data));
+            };
+
+            if (request.headers.authorization !== `token ${token}`) {
+                return send(401, { message: 'Bad credentials' });
+            }
+
+            const [, , gistId] = request.url!.split('/');
+
+            if (request.method === 'POST' && gistId === undefined) {
+                const id = `gist${nextId++}`;
+                gists[id] = {};
+                Object.entries(JSON.parse(body).files).forEach(([fileName, file]: [string, any]) => (gists[id][fileName] = file.content));
+
+                return send(201, { id, files: {} });
+            }
+
+            const gist = gists[gistId];
+            if (gist === undefined) {
+                return send(404, { message: 'Not Found' });
+            }
+
+            if (request.method === 'PATCH') {
+                Object.entries(JSON.parse(body).files).forEach(([fileName, file]: [string, any]) =>
+                    file !== null ? (gist[fileName] = file.content) : delete gist[fileName]
+                );
+            }
+
+            const files = Object.keys(gist).reduce((map: { [fileName: string]: object }, fileName) => {
+                map[fileName] = { filename: fileName, content: gist[fileName], truncated: false };
+                return map;
+            }, {});
+
+            send(200, { id: gistId, files });
+        });
+    });
+}
+
+/**
+ * A computer syncing its copy of the collection through the gist, keeping the last synced state as the base of the three-way merge.
+ */
+class Computer {
+    gistId: string | null = null;
+    base: SyncSnapshot | null = null;
+
+    constructor(public client: GistClient, public local: SyncSnapshot) {}
+
+    async sync(resolutions: SyncResolutions = {}) {
+        const { files, result } =
+            this.gistId !== null
+                ? await pullGist(this.client, this.gistId, this.local, this.base, resolutions)
+                : { files: {}, result: { snapshot: this.local, conflicts: [] } };
+
+        if (result.conflicts.some(conflict => resolutions[conflict.id] === undefined)) {
+            return result.conflicts;
+        }
+
+        this.gistId = await pushGist(this.client, this.gistId, result.snapshot, files);
+        this.local = copy(result.snapshot);
+        this.base = copy(result.snapshot);
+
+        return [];
+    }
+}
+
+describe('gist sync', () => {
+    const gists: { [id: string]: { [fileName: string]: string } } = {};
+    const server = createGistServer(gists);
+    let apiUrl: string;
+    let client: GistClient;
+
+    beforeAll(done => server.listen(0, '127.0.0.1', done));
+    afterAll(done => server.close(done));
+
+    beforeEach(() => {
+        apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        client = new GistClient(token, apiUrl);
+    });
+
+    it('creates a gist with a file per list', async () => {
+        const laptop = new Computer(client, createCollection());
+        await laptop.sync();
+
+        const listId = Object.keys(laptop.local.lists)[0];
+        expect(Object.keys(gists[laptop.gistId!]).sort()).toEqual(['index.json', `list-${listId}.json`]);
+    });
+
+    it('merges the changes made on two computers', async () => {
+        const laptop = new Computer(client, createCollection());
+        await laptop.sync();
+
+        // the desktop starts with an empty collection and gets the lists from the gist
+        const desktop = new Computer(client, createEmptyCollection());
+        desktop.gistId = laptop.gistId;
+        expect(await desktop.sync()).toEqual([]);
+        expect(desktop.local).toEqual(laptop.local);
+
+        const listId = Object.keys(laptop.local.lists)[0];
+
+        findWord(laptop.local, 'obdurate').notes = 'stubborn';
+        findWord(laptop.local, 'obdurate').dateModified = 2000;
+
+        const list = CollectionList.fromJSON(desktop.local.lists[listId]);
+        list.name = 'GRE verbal';
+        list.addWord(new CollectionWord({ text: 'pellucid' }));
+        desktop.local.lists[listId] = list.safeJSON;
+
+        expect(await laptop.sync()).toEqual([]);
+        expect(await desktop.sync()).toEqual([]);
+        expect(await laptop.sync()).toEqual([]);
+
+        expect(laptop.local).toEqual(desktop.local);
+        expect(laptop.local.lists[listId].name).toBe('GRE verbal');
+        expect(laptop.local.lists[listId].index!.length).toBe(3);
+        expect(findWord(laptop.local, 'obdurate').notes).toBe('stubborn');
+    });
+
+    it('reports words changed on both computers and keeps the picked version', async () => {
+        const laptop = new Computer(client, createCollection());
+        await laptop.sync();
+
+        const desktop = new Computer(client, copy(laptop.local));
+        desktop.gistId = laptop.gistId;
+        desktop.base = copy(laptop.base);
+
+        const laptopWord = findWord(laptop.local, 'laconic');
+        laptopWord.notes = 'brief';
+        laptopWord.dateModified = 3000;
+
+        const desktopWord = findWord(desktop.local, 'laconic');
+        desktopWord.notes = 'terse';
+        desktopWord.dateModified = 2000;
+
+        await desktop.sync();
+        const conflicts = await laptop.sync();
+
+        expect(conflicts.length).toBe(1);
+        expect(conflicts[0]).toMatchObject({ id: `word/${laptopWord.id}`, type: 'word', resolution: 'local' });
+
+        expect(await laptop.sync({ [conflicts[0].id]: 'remote' })).toEqual([]);
+        expect(findWord(laptop.local, 'laconic').notes).toBe('terse');
+    });
+
+    it('deletes the files of deleted lists from the gist', async () => {
+        const laptop = new Computer(client, createCollection());
+        await laptop.sync();
+
+        const listId = Object.keys(laptop.local.lists)[0];
+        const index = new CollectionIndex(copy(laptop.local.index));
+        index.tree.deleteList(CollectionList.fromJSON(laptop.local.lists[listId]));
+
+        laptop.local = { index: index.safeJSON, lists: {} };
+        await laptop.sync();
+
+        expect(Object.keys(gists[laptop.gistId!])).toEqual(['index.json']);
+    });
+
+    it('reports a rejected access token', async () => {
+        const laptop = new Computer(new GistClient('wrong', apiUrl), createCollection());
+        await expect(laptop.sync()).rejects.toThrow('The access token was rejected');
+    });
+});
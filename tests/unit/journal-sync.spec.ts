@@ -0,0 +1,144 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { CollectionIndex, CollectionList, CollectionWord } from '@/store/modules/collection';
+import { JournalSyncRecord, SyncSnapshot, createFolderTransport, createJournalSyncRecord, syncJournals } from '@/api/sync';
+
+import { copy, createCollection, createEmptyCollection, findWord } from './sync-fixtures';
+
+jest.mock('@/api/storage');
+jest.mock('electron-settings', () => ({}));
+
+function findListWord(list: CollectionList, text: string): CollectionWord {
+    return Object.values(list.words).find(word => word.text === text)!;
+}
+
+/**
+ * A laptop syncing its copy of the collection through the shared folder, appending its edits to its own journal.
+ */
+class Laptop {
+    record: JournalSyncRecord;
+
+    constructor(folderPath: string, public local: SyncSnapshot) {
+        this.record = createJournalSyncRecord('folder', folderPath);
+    }
+
+    async sync() {
+        const result = await syncJournals(createFolderTransport(this.record.location), this.record, this.local);
+
+        this.local = copy(result.snapshot);
+        this.record = result.record;
+    }
+
+    editList(listId: string, edit: (list: CollectionList) => void) {
+        const list = CollectionList.fromJSON(this.local.lists[listId]);
+        edit(list);
+        this.local.lists[listId] = list.safeJSON;
+    }
+}
+
+describe('journal sync', () => {
+    let folderPath: string;
+
+    beforeEach(() => (folderPath = fs.mkdtempSync(path.join(os.tmpdir(), 'wordpouch-sync-'))));
+
+    afterEach(() => {
+        fs.readdirSync(folderPath).forEach(fileName => fs.unlinkSync(path.join(folderPath, fileName)));
+        fs.rmdirSync(folderPath);
+    });
+
+    it('keeps a journal per laptop', async () => {
+        const first = new Laptop(folderPath, createCollection());
+        const second = new Laptop(folderPath, createEmptyCollection());
+
+        await first.sync();
+        await second.sync();
+
+        expect(fs.readdirSync(folderPath).sort()).toEqual(
+            [`journal-${first.record.device}.jsonl`, `journal-${second.record.device}.jsonl`].sort()
+        );
+        expect(Object.keys(second.local.lists)).toEqual(Object.keys(first.local.lists));
+    });
+
+    it('converges without losing the edits made on either laptop', async () => {
+        const first = new Laptop(folderPath, createCollection());
+        await first.sync();
+
+        const second = new Laptop(folderPath, createEmptyCollection());
+        await second.sync();
+
+        const listId = Object.keys(first.local.lists)[0];
+
+        first.editList(listId, list => {
+            const word = findListWord(list, 'obdurate');
+            word.notes = 'stubborn';
+            word.dateModified = Date.now();
+        });
+
+        second.editList(listId, list => {
+            list.name = 'GRE verbal';
+            list.addWord(new CollectionWord({ text: 'pellucid' }));
+        });
+
+        await first.sync();
+        await second.sync();
+        await first.sync();
+
+        expect(first.local).toEqual(second.local);
+        expect(first.local.lists[listId].name).toBe('GRE verbal');
+        expect(first.local.lists[listId].index!.length).toBe(3);
+        expect(findWord(first.local, 'obdurate')!.notes).toBe('stubborn');
+    });
+
+    it('keeps the more recent edit of a word changed on both laptops', async () => {
+        const first = new Laptop(folderPath, createCollection());
+        await first.sync();
+
+        const second = new Laptop(folderPath, copy(first.local));
+        await second.sync();
+
+        const listId = Object.keys(first.local.lists)[0];
+        const setNotes = (notes: string, dateModified: number) => (list: CollectionList) => {
+            const word = findListWord(list, 'laconic');
+            word.notes = notes;
+            word.dateModified = dateModified;
+        };
+
+        first.editList(listId, setNotes('brief', 3000));
+        second.editList(listId, setNotes('terse', 2000));
+
+        await second.sync();
+        await first.sync();
+        await second.sync();
+
+        expect(findWord(first.local, 'laconic')!.notes).toBe('brief');
+        expect(second.local).toEqual(first.local);
+    });
+
+    it('syncs deleted words and lists', async () => {
+        const first = new Laptop(folderPath, createCollection());
+        await first.sync();
+
+        const second = new Laptop(folderPath, createEmptyCollection());
+        await second.sync();
+
+        const listId = Object.keys(first.local.lists)[0];
+        second.editList(listId, list => list.deleteWord(findListWord(list, 'laconic')));
+
+        await second.sync();
+        await first.sync();
+
+        expect(findWord(first.local, 'laconic')).toBeUndefined();
+
+        const index = new CollectionIndex(copy(first.local.index));
+        index.tree.deleteList(CollectionList.fromJSON(first.local.lists[listId]));
+        first.local = { index: index.safeJSON, lists: {} };
+
+        await first.sync();
+        await second.sync();
+
+        expect(second.local.lists).toEqual({});
+        expect(second.local.index.tree!.items).toEqual([]);
+    });
+});
@@ -0,0 +1,77 @@
+import { getSchemaVersion, isOutdated, migrateIndex, migrateList, migrateTrash } from '@/api/storage/migrations';
+import {
+    CollectionList,
+    CollectionListOptions,
+    CollectionTrashOptions,
+    CollectionWordMap,
+    SCHEMA_VERSION
+} from '@/store/modules/collection';
+
+jest.mock('@/api/storage');
+jest.mock('electron-settings', () => ({}));
+
+// a list file as written before the schema was versioned
+function createListFile(): CollectionListOptions {
+    return {
+        id: 'gre',
+        name: 'GRE',
+        dateCreated: 1000,
+        sortBy: 'name',
+        index: ['obdurate'],
+        words: ({ obdurate: { id: 'obdurate', text: 'obdurate', dateAdded: 2000 } } as unknown) as CollectionWordMap
+    };
+}
+
+describe('schema migrations', () => {
+    it('treats unversioned files as the first version', () => {
+        expect(getSchemaVersion({})).toBe(1);
+        expect(isOutdated({})).toBe(true);
+        expect(isOutdated({ version: SCHEMA_VERSION })).toBe(false);
+    });
+
+    it('refuses files written by a newer version', () => {
+        expect(() => isOutdated({ version: SCHEMA_VERSION + 1 })).toThrow();
+    });
+
+    it('upgrades a list through every step', () => {
+        const data = migrateList(createListFile());
+        const word = data.words!.obdurate as any;
+
+        expect(data.version).toBe(SCHEMA_VERSION);
+        expect(data.query).toBeNull();
+        expect(data.sortBy).toBe('manual');
+        expect(word.tags).toEqual([]);
+        expect(word.review).toEqual({});
+        expect(word.history).toEqual([{ type: 'add', date: 2000, list: { id: 'gre', name: 'GRE' } }]);
+    });
+
+    it('runs only the steps newer than the file', () => {
+        const data = migrateList({ ...createListFile(), version: 3 });
+        const word = data.words!.obdurate as any;
+
+        expect(data.sortBy).toBe('name');
+        expect(word.tags).toBeUndefined();
+        expect(word.history).toHaveLength(1);
+    });
+
+    it('stamps the index with the current version', () => {
+        expect(migrateIndex({ id: 'index' }).version).toBe(SCHEMA_VERSION);
+    });
+
+    it('starts the history of a trashed word with the list it was deleted from', () => {
+        const data: CollectionTrashOptions = {
+            items: [
+                { kind: 'word', parentId: 'gre', position: 0, word: { id: 'laconic', text: 'laconic', dateAdded: 3000 } },
+                { kind: 'list', parentId: null, position: 0, lists: [createListFile()] }
+            ]
+        };
+
+        const [wordItem, listItem] = migrateTrash(data).items!;
+
+        expect(data.version).toBe(SCHEMA_VERSION);
+        expect((wordItem.word as any).history).toEqual([
+            { type: 'add', date: 3000, list: { id: 'gre', name: CollectionList.DEFAULT_NAME } }
+        ]);
+        expect(listItem.lists![0].sortBy).toBe('manual');
+    });
+});
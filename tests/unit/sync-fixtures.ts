@@ -0,0 +1,44 @@
+import { CollectionIndex, CollectionList, CollectionWord, CollectionWordOptions } from '@/store/modules/collection';
+import { SyncSnapshot } from '@/api/sync';
+
+/**
+ * A collection with a single list of two words, all modified at the same time, so the edits made in the tests are the most recent.
+ *
+ * @export
+ * @returns {SyncSnapshot}
+ */
+export function createCollection(): SyncSnapshot {
+    const index = new CollectionIndex();
+    const list = new CollectionList({ name: 'GRE' });
+
+    list.addWord(new CollectionWord({ text: 'obdurate', dateModified: 1000 }));
+    list.addWord(new CollectionWord({ text: 'laconic', dateModified: 1000 }));
+    list.dateModified = 1000;
+
+    index.tree.addList(list);
+    index.defaultListId = list.id;
+    index.dateModified = 1000;
+
+    return { index: index.safeJSON, lists: { [list.id]: list.safeJSON } };
+}
+
+export function createEmptyCollection(): SyncSnapshot {
+    return { index: new CollectionIndex().safeJSON, lists: {} };
+}
+
+export function copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Finds the word by its text in the first list of the snapshot.
+ *
+ * @export
+ * @param {SyncSnapshot} snapshot
+ * @param {string} text
+ * @returns {CollectionWordOptions}
+ */
+export function findWord(snapshot: SyncSnapshot, text: string): CollectionWordOptions {
+    const list = Object.values(snapshot.lists)[0];
+    return Object.values(list.words!).find(word => word.text === text)!;
+}
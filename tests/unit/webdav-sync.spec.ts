@@ -0,0 +1,238 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import {
+    SyncSnapshot,
+    WEBDAV_CONFLICT,
+    WEBDAV_OFFLINE,
+    WebDavClient,
+    WebDavSyncRecord,
+    createWebDavSyncRecord,
+    pullWebDav,
+    pushWebDav,
+    queueWebDavPush
+} from '@/api/sync';
+
+import { copy, createCollection, createEmptyCollection, findWord } from './sync-fixtures';
+
+jest.mock('@/api/storage');
+jest.mock('electron-settings', () => ({}));
+
+const folderPath = '/dav/WordPouch';
+const authorization = `Basic ${Buffer.from('me:secret').toString('base64')}`;
+
+interface WebDavFolder {
+    exists: boolean;
+    isOffline: boolean;
+    files: { [fileName: string]: { content: string; etag: string } };
+    downloads: string[];
+}
+
+/**
+ * A stand-in for a WebDAV server with a single folder kept in memory.
+ */
+function createWebDavServer(folder: WebDavFolder): http.Server {
+    let nextEtag = 1;
+
+    return http.createServer((request, response) => {
+        let body = '';
+
+        request.on('data', chunk => (body += chunk));
+        request.on('end', () => {
+            if (folder.isOffline) {
+                return request.socket.destroy();
+            }
+
+            const send = (status: number, data: string = '', headers: { [name: string]: string } = {}) => {
+                response.writeHead(status, headers);
+                response.end(data);
+            };
+
+            if (request.headers.authorization !== authorization) {
+                return send(401);
+            }
+
+            const url = decodeURIComponent(request.url!).replace(/\/+$/, '');
+
+            if (url === folderPath) {
+                if (request.method === 'MKCOL') {
+                    folder.exists = true;
+                    return send(201);
+                }
+
+                if (!folder.exists) {
+                    return send(404);
+                }
+
+                const responses = [
+                    `<D:response><D:href>${folderPath}/</D:href><D:propstat><D:prop/></D:propstat></D:response>`,
+                    ...Object.entries(folder.files).map(
+                        ([fileName, file]) =>
+                            `<D:response><D:href>${folderPath}/${encodeURIComponent(fileName)}</D:href>` +
+                            `<D:propstat><D:prop><D:getetag>${file.etag.replace(
+                                /"/g,
+                                '&quot;'
+                            )}</D:getetag></D:prop></D:propstat></D:response>`
+                    )
+                ];
+
+                return send(207, `<?xml version="1.0"?><D:multistatus xmlns:D="DAV:">${responses.join('')}</D:multistatus>`);
+            }
+
+            const fileName = url.slice(folderPath.length + 1);
+            const file = folder.files[fileName];
+            const ifMatch = request.headers['if-match'];
+
+            if (
+                (ifMatch !== undefined && (file === undefined || file.etag !== ifMatch)) ||
+                (request.headers['if-none-match'] === '*' && file)
+            ) {
+                return send(412);
+            }
+
+            switch (request.method) {
+                case 'GET':
+                    folder.downloads.push(fileName);
+                    return file !== undefined ? send(200, file.content, { ETag: file.etag }) : send(404);
+                case 'PUT':
+                    folder.files[fileName] = { content: body, etag: `"${nextEtag++}"` };
+                    return send(201, '', { ETag: folder.files[fileName].etag });
+                case 'DELETE':
+                    delete folder.files[fileName];
+                    return send(204);
+                default:
+                    return send(405);
+            }
+        });
+    });
+}
+
+/**
+ * A computer syncing its copy of the collection through the WebDAV folder, queueing the uploads before pushing them.
+ */
+class Computer {
+    record: WebDavSyncRecord;
+
+    constructor(public client: WebDavClient, url: string, public local: SyncSnapshot) {
+        this.record = createWebDavSyncRecord(url);
+    }
+
+    async sync(beforePush: () => void = () => {}) {
+        const pull = await pullWebDav(this.client, this.record, this.local);
+        expect(pull.result.conflicts).toEqual([]);
+
+        this.local = copy(pull.result.snapshot);
+        this.record = queueWebDavPush(this.record, pull);
+
+        beforePush();
+        await pushWebDav(this.client, this.record, async record => {
+            this.record = record;
+        });
+    }
+}
+
+describe('WebDAV sync', () => {
+    const folder: WebDavFolder = { exists: false, isOffline: false, files: {}, downloads: [] };
+    const server = createWebDavServer(folder);
+    let url: string;
+    let client: WebDavClient;
+
+    beforeAll(done => server.listen(0, '127.0.0.1', done));
+    afterAll(done => server.close(done));
+
+    beforeEach(() => {
+        Object.assign(folder, { exists: false, isOffline: false, files: {}, downloads: [] });
+
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}${folderPath}`;
+        client = new WebDavClient(url, 'me', 'secret');
+    });
+
+    it('creates the folder and uploads the index and a file per list', async () => {
+        const laptop = new Computer(client, url, createCollection());
+        await laptop.sync();
+
+        const listId = Object.keys(laptop.local.lists)[0];
+
+        expect(folder.exists).toBe(true);
+        expect(Object.keys(folder.files).sort()).toEqual(['index.json', `list-${listId}.json`]);
+        expect(laptop.record.pending).toEqual({});
+        expect(laptop.record.etags['index.json']).toBe(folder.files['index.json'].etag);
+    });
+
+    it('merges the changes made on two computers, downloading only the changed files', async () => {
+        const laptop = new Computer(client, url, createCollection());
+        await laptop.sync();
+
+        const desktop = new Computer(client, url, createEmptyCollection());
+        await desktop.sync();
+        expect(desktop.local).toEqual(laptop.local);
+
+        const listId = Object.keys(laptop.local.lists)[0];
+
+        findWord(laptop.local, 'obdurate').notes = 'stubborn';
+        findWord(laptop.local, 'obdurate').dateModified = 2000;
+        await laptop.sync();
+
+        folder.downloads = [];
+        await desktop.sync();
+
+        expect(folder.downloads).toEqual([`list-${listId}.json`]);
+        expect(findWord(desktop.local, 'obdurate').notes).toBe('stubborn');
+    });
+
+    it('does not overwrite a file changed on the server during the sync', async () => {
+        const laptop = new Computer(client, url, createCollection());
+        await laptop.sync();
+
+        const desktop = new Computer(client, url, copy(laptop.local));
+        await desktop.sync();
+
+        findWord(laptop.local, 'laconic').notes = 'brief';
+        findWord(laptop.local, 'laconic').dateModified = 2000;
+
+        findWord(desktop.local, 'obdurate').notes = 'stubborn';
+        findWord(desktop.local, 'obdurate').dateModified = 2000;
+
+        // the desktop writes its change after the laptop has read the ETags
+        const pull = await pullWebDav(client, laptop.record, laptop.local);
+        laptop.record = queueWebDavPush(laptop.record, pull);
+
+        await desktop.sync();
+
+        const error = await pushWebDav(client, laptop.record).catch(reason => reason);
+        expect(error.code).toBe(WEBDAV_CONFLICT);
+
+        await laptop.sync();
+        await desktop.sync();
+
+        expect(findWord(desktop.local, 'laconic').notes).toBe('brief');
+        expect(findWord(desktop.local, 'obdurate').notes).toBe('stubborn');
+        expect(laptop.local).toEqual(desktop.local);
+    });
+
+    it('keeps the files which cannot be uploaded and uploads them on the next sync', async () => {
+        const laptop = new Computer(client, url, createCollection());
+        await laptop.sync();
+
+        findWord(laptop.local, 'laconic').notes = 'brief';
+        findWord(laptop.local, 'laconic').dateModified = 2000;
+
+        const error = await laptop.sync(() => (folder.isOffline = true)).catch(reason => reason);
+        expect(error.code).toBe(WEBDAV_OFFLINE);
+        expect(Object.keys(laptop.record.pending)).toEqual([`list-${Object.keys(laptop.local.lists)[0]}.json`]);
+
+        folder.isOffline = false;
+        await laptop.sync();
+        expect(laptop.record.pending).toEqual({});
+
+        const desktop = new Computer(client, url, createEmptyCollection());
+        await desktop.sync();
+
+        expect(findWord(desktop.local, 'laconic').notes).toBe('brief');
+    });
+
+    it('reports rejected credentials', async () => {
+        const laptop = new Computer(new WebDavClient(url, 'me', 'wrong'), url, createCollection());
+        await expect(laptop.sync()).rejects.toThrow('The user name or the password was rejected');
+    });
+});
@@ -0,0 +1,85 @@
+import { WriteQueue } from '@/api/storage/write-queue';
+
+function wait(time: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, time));
+}
+
+describe('write queue', () => {
+    beforeEach(() => jest.spyOn(console, 'error').mockImplementation(() => {}));
+    afterEach(() => jest.restoreAllMocks());
+
+    it('coalesces writes with the same key into the latest one', async () => {
+        const queue = new WriteQueue({ delay: 10 });
+        const written: string[] = [];
+
+        ['first', 'second', 'third'].forEach(value => queue.enqueue('list', async () => void written.push(value)));
+        queue.enqueue('index', async () => void written.push('index'));
+
+        expect(queue.status.pending).toBe(2);
+        expect(queue.hasPending('list')).toBe(true);
+
+        await wait(30);
+        await queue.flush();
+
+        expect(written).toEqual(['third', 'index']);
+        expect(queue.status).toEqual({ pending: 0, error: null });
+        expect(queue.hasPending('list')).toBe(false);
+    });
+
+    it('performs the scheduled writes right away on flush, one at a time', async () => {
+        const queue = new WriteQueue({ delay: 10000 });
+        const events: string[] = [];
+
+        const write = (key: string) => async () => {
+            events.push(`start ${key}`);
+            await wait(5);
+            events.push(`end ${key}`);
+        };
+
+        queue.enqueue('a', write('a'));
+        queue.enqueue('b', write('b'));
+        await queue.flush();
+
+        expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+    });
+
+    it('retries a failed write before giving up', async () => {
+        const queue = new WriteQueue({ delay: 0, retries: 2, retryDelay: 1 });
+        let attempts = 0;
+
+        queue.enqueue('list', async () => {
+            if (++attempts < 3) {
+                throw new Error('disk busy');
+            }
+        });
+        await queue.flush();
+
+        expect(attempts).toBe(3);
+        expect(queue.status.error).toBeNull();
+    });
+
+    it('keeps a write which failed after all the retries until it succeeds', async () => {
+        const queue = new WriteQueue({ delay: 0, retries: 1, retryDelay: 1 });
+        const statuses: (string | null)[] = [];
+        let isFull = true;
+
+        queue.onStatusChange = status => statuses.push(status.error);
+        queue.enqueue('list', async () => {
+            if (isFull) {
+                throw new Error('disk full');
+            }
+        });
+        await queue.flush();
+
+        expect(queue.status).toEqual({ pending: 0, error: 'disk full' });
+        expect(queue.hasPending('list')).toBe(true);
+
+        isFull = false;
+        queue.retry();
+        await queue.flush();
+
+        expect(queue.status.error).toBeNull();
+        expect(queue.hasPending('list')).toBe(false);
+        expect(statuses[statuses.length - 1]).toBeNull();
+    });
+});
@@ -0,0 +1,8 @@
+module.exports = {
+    pluginOptions: {
+        electronBuilder: {
+            // native modules can't be bundled by webpack and are loaded from node_modules at runtime
+            externals: ['better-sqlite3']
+        }
+    }
+};